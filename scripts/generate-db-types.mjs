@@ -0,0 +1,286 @@
+// Generates src/lib/database.types.ts from the SQL in supabase/migrations, in
+// the same shape as `supabase gen types`, so the app's row types always match
+// the real tables.
+//
+//   npm run db:types            regenerate the file
+//   npm run db:types -- --check fail if the file is out of date (for CI)
+//
+// Only understands the statements our migrations use: create table,
+// alter table add/drop/rename column, drop table, and create/drop function
+// (returning a single type, setof a type, or a table). Indexes are ignored.
+
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const MIGRATIONS_DIR = path.join(process.cwd(), "supabase", "migrations");
+const OUTPUT = path.join(process.cwd(), "src", "lib", "database.types.ts");
+
+const TYPE_MAP = [
+    [/^(uuid|text|varchar|character varying|char|citext|date|time|timestamp|timestamptz)\b/, "string"],
+    [/^(smallint|integer|int|int2|int4|int8|bigint|real|double precision|numeric|decimal|float4|float8|serial|bigserial)\b/, "number"],
+    [/^(boolean|bool)\b/, "boolean"],
+    [/^(jsonb|json)\b/, "Json"],
+];
+
+// Split on commas that aren't nested inside parentheses or quotes
+function splitTopLevel(text) {
+    const parts = [];
+    let depth = 0;
+    let quoted = false;
+    let current = "";
+
+    for (const char of text) {
+        if (char === "'") quoted = !quoted;
+        if (!quoted && char === "(") depth++;
+        if (!quoted && char === ")") depth--;
+        if (!quoted && depth === 0 && char === ",") {
+            parts.push(current.trim());
+            current = "";
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
+
+function mapType(sqlType, name) {
+    const lower = sqlType.toLowerCase();
+    const mapping = TYPE_MAP.find(([pattern]) => pattern.test(lower));
+    if (!mapping) {
+        throw new Error(`Unsupported type for ${name}: ${sqlType}`);
+    }
+
+    const isArray = /^\S+(\s+\w+)?\[\]/.test(lower);
+    return isArray ? `${mapping[1]}[]` : mapping[1];
+}
+
+function parseColumn(definition) {
+    const match = definition.match(/^"?(\w+)"?\s+(.+)$/s);
+    if (!match) return null;
+
+    const [, name, rest] = match;
+    let type = mapType(rest, `column ${name}`);
+
+    // check (col in ('a', 'b')) narrows text columns to a union of literals
+    const enumMatch = rest.match(/check\s*\(\s*"?\w+"?\s+in\s*\(([^)]*)\)\s*\)/i);
+    if (enumMatch && type === "string") {
+        type = enumMatch[1].split(",").map(v => `"${v.trim().replace(/^'|'$/g, "")}"`).join(" | ");
+    }
+
+    const reference = rest.match(/references\s+"?(\w+)"?\s*\(\s*"?(\w+)"?\s*\)/i);
+
+    return {
+        name,
+        type,
+        nullable: !/\bnot null\b/i.test(rest) && !/\bprimary key\b/i.test(rest),
+        hasDefault: /\bdefault\b/i.test(rest),
+        reference: reference ? { table: reference[1], column: reference[2] } : null,
+    };
+}
+
+// create function name(arg type, ...) returns type ...
+function parseFunction(match) {
+    const [, name, argList, setOf, returns] = match;
+    const args = splitTopLevel(argList).map(def => {
+        const arg = def.match(/^"?(\w+)"?\s+(.+)$/s);
+        if (!arg) throw new Error(`Unsupported argument for function ${name}: ${def}`);
+        return {
+            name: arg[1],
+            type: mapType(arg[2], `argument ${arg[1]} of ${name}`),
+            optional: /\bdefault\b|=/i.test(arg[2]),
+        };
+    });
+
+    // returns table (col type, ...) comes back as an array of rows
+    const table = returns.trim().match(/^table\s*\((.*)\)$/is);
+    if (table) {
+        const columns = splitTopLevel(table[1]).map(def => {
+            const column = def.match(/^"?(\w+)"?\s+(.+)$/s);
+            if (!column) throw new Error(`Unsupported result column for function ${name}: ${def}`);
+            return { name: column[1], type: mapType(column[2], `result column ${column[1]} of ${name}`) };
+        });
+        return { name, args, returns: columns };
+    }
+
+    let type = /^void$/i.test(returns.trim()) ? "undefined" : mapType(returns.trim(), `return type of ${name}`);
+    if (setOf) type = `${type}[]`;
+    return { name, args, returns: type };
+}
+
+function applyStatement({ tables, functions }, statement) {
+    const createFunction = statement.match(
+        /^create(?: or replace)? function\s+(?:"?public"?\.)?"?(\w+)"?\s*\((.*?)\)\s*returns\s+(setof\s+)?(.+?)(?:\s+(?:language|as|security|stable|immutable|volatile)\b.*)?$/is
+    );
+    if (createFunction) {
+        const fn = parseFunction(createFunction);
+        functions.set(fn.name, fn);
+        return;
+    }
+
+    const dropFunction = statement.match(/^drop function(?: if exists)?\s+(?:"?public"?\.)?"?(\w+)"?/i);
+    if (dropFunction) {
+        functions.delete(dropFunction[1]);
+        return;
+    }
+
+    const create = statement.match(/^create table(?: if not exists)?\s+"?(\w+)"?\s*\((.*)\)$/is);
+    if (create) {
+        const columns = splitTopLevel(create[2])
+            .filter(def => !/^(constraint|primary key|unique|foreign key|check|exclude)\b/i.test(def))
+            .map(parseColumn)
+            .filter(Boolean);
+        tables.set(create[1], columns);
+        return;
+    }
+
+    const drop = statement.match(/^drop table(?: if exists)?\s+"?(\w+)"?/i);
+    if (drop) {
+        tables.delete(drop[1]);
+        return;
+    }
+
+    const alter = statement.match(/^alter table(?: if exists)?\s+"?(\w+)"?\s+(.*)$/is);
+    if (!alter || !tables.has(alter[1])) return;
+
+    const columns = tables.get(alter[1]);
+    for (const action of splitTopLevel(alter[2])) {
+        const add = action.match(/^add column(?: if not exists)?\s+(.*)$/is);
+        const dropColumn = action.match(/^drop column(?: if exists)?\s+"?(\w+)"?/i);
+        const rename = action.match(/^rename column\s+"?(\w+)"?\s+to\s+"?(\w+)"?/i);
+
+        if (add) {
+            const column = parseColumn(add[1]);
+            if (column) columns.push(column);
+        } else if (dropColumn) {
+            tables.set(alter[1], columns.filter(c => c.name !== dropColumn[1]));
+        } else if (rename) {
+            const column = columns.find(c => c.name === rename[1]);
+            if (column) column.name = rename[2];
+        }
+    }
+}
+
+async function readSchema() {
+    const files = (await readdir(MIGRATIONS_DIR)).filter(f => f.endsWith(".sql")).sort();
+    const schema = { tables: new Map(), functions: new Map() };
+
+    for (const file of files) {
+        // Function bodies ($$ ... $$) can contain semicolons; only the signature matters here
+        const sql = (await readFile(path.join(MIGRATIONS_DIR, file), "utf8"))
+            .replace(/\$(\w*)\$[\s\S]*?\$\1\$/g, "''")
+            .replace(/--.*$/gm, "");
+        for (const statement of sql.split(";").map(s => s.trim()).filter(Boolean)) {
+            applyStatement(schema, statement);
+        }
+    }
+    return schema;
+}
+
+function renderFunctions(functions, indent) {
+    if (functions.size === 0) return [`${indent(2)}Functions: { [_ in never]: never };`];
+
+    const lines = [`${indent(2)}Functions: {`];
+    for (const fn of [...functions.values()].sort((a, b) => a.name.localeCompare(b.name))) {
+        lines.push(`${indent(3)}${fn.name}: {`);
+        if (fn.args.length === 0) {
+            lines.push(`${indent(4)}Args: Record<PropertyKey, never>;`);
+        } else {
+            lines.push(
+                `${indent(4)}Args: {`,
+                ...fn.args.map(a => `${indent(5)}${a.name}${a.optional ? "?" : ""}: ${a.type};`),
+                `${indent(4)}};`,
+            );
+        }
+        if (Array.isArray(fn.returns)) {
+            lines.push(
+                `${indent(4)}Returns: {`,
+                ...fn.returns.map(c => `${indent(5)}${c.name}: ${c.type};`),
+                `${indent(4)}}[];`,
+            );
+        } else {
+            lines.push(`${indent(4)}Returns: ${fn.returns};`);
+        }
+        lines.push(`${indent(3)}};`);
+    }
+    lines.push(`${indent(2)}};`);
+    return lines;
+}
+
+function render({ tables, functions }) {
+    const indent = (level) => "    ".repeat(level);
+    const lines = [
+        "// Generated by scripts/generate-db-types.mjs from supabase/migrations.",
+        "// Do not edit by hand: change the migrations and run `npm run db:types`.",
+        "",
+        "export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];",
+        "",
+        "export type Database = {",
+        `${indent(1)}public: {`,
+        `${indent(2)}Tables: {`,
+    ];
+
+    for (const [table, columns] of [...tables].sort(([a], [b]) => a.localeCompare(b))) {
+        const field = (c, optional) =>
+            `${indent(5)}${c.name}${optional ? "?" : ""}: ${c.type}${c.nullable ? " | null" : ""};`;
+
+        lines.push(`${indent(3)}${table}: {`);
+        lines.push(`${indent(4)}Row: {`, ...columns.map(c => field(c, false)), `${indent(4)}};`);
+        lines.push(`${indent(4)}Insert: {`, ...columns.map(c => field(c, c.nullable || c.hasDefault)), `${indent(4)}};`);
+        lines.push(`${indent(4)}Update: {`, ...columns.map(c => field(c, true)), `${indent(4)}};`);
+
+        const relationships = columns.filter(c => c.reference);
+        if (relationships.length === 0) {
+            lines.push(`${indent(4)}Relationships: [];`);
+        } else {
+            lines.push(`${indent(4)}Relationships: [`);
+            for (const c of relationships) {
+                lines.push(
+                    `${indent(5)}{`,
+                    `${indent(6)}foreignKeyName: "${table}_${c.name}_fkey";`,
+                    `${indent(6)}columns: ["${c.name}"];`,
+                    `${indent(6)}isOneToOne: false;`,
+                    `${indent(6)}referencedRelation: "${c.reference.table}";`,
+                    `${indent(6)}referencedColumns: ["${c.reference.column}"];`,
+                    `${indent(5)}},`,
+                );
+            }
+            lines.push(`${indent(4)}];`);
+        }
+        lines.push(`${indent(3)}};`);
+    }
+
+    lines.push(
+        `${indent(2)}};`,
+        `${indent(2)}Views: { [_ in never]: never };`,
+        ...renderFunctions(functions, indent),
+        `${indent(2)}Enums: { [_ in never]: never };`,
+        `${indent(2)}CompositeTypes: { [_ in never]: never };`,
+        `${indent(1)}};`,
+        "};",
+        "",
+    );
+    return lines.join("\n");
+}
+
+async function main() {
+    const output = render(await readSchema());
+
+    if (process.argv.includes("--check")) {
+        const current = await readFile(OUTPUT, "utf8").catch(() => "");
+        if (current !== output) {
+            console.error(`${path.relative(process.cwd(), OUTPUT)} is out of date. Run \`npm run db:types\`.`);
+            process.exit(1);
+        }
+        console.log("Database types match the migrations.");
+        return;
+    }
+
+    await writeFile(OUTPUT, output, "utf8");
+    console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+main().catch(error => {
+    console.error(error.message);
+    process.exit(1);
+});
@@ -0,0 +1,78 @@
+// Applies pending SQL migrations from supabase/migrations, in file name order.
+//
+//   npm run db:migrate            apply everything that hasn't run yet
+//   npm run db:migrate -- --status list applied and pending migrations
+//
+// Connects with DATABASE_URL (the Postgres connection string from Supabase's
+// database settings, or any local Postgres). Each migration runs in its own
+// transaction and is recorded in the schema_migrations table.
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import dotenv from "dotenv";
+import pg from "pg";
+
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
+
+const MIGRATIONS_DIR = path.join(process.cwd(), "supabase", "migrations");
+
+async function main() {
+    const databaseUrl = process.env.DATABASE_URL;
+    if (!databaseUrl) {
+        console.error("DATABASE_URL is not set. Add it to .env.local or the environment.");
+        process.exit(1);
+    }
+
+    const files = (await readdir(MIGRATIONS_DIR)).filter(f => f.endsWith(".sql")).sort();
+    const client = new pg.Client({ connectionString: databaseUrl });
+    await client.connect();
+
+    try {
+        await client.query(`
+            create table if not exists schema_migrations (
+                version text primary key,
+                applied_at timestamptz not null default now()
+            )
+        `);
+
+        const { rows } = await client.query("select version from schema_migrations");
+        const applied = new Set(rows.map(r => r.version));
+        const pending = files.filter(f => !applied.has(f));
+
+        if (process.argv.includes("--status")) {
+            for (const file of files) {
+                console.log(`${applied.has(file) ? "applied" : "pending"}  ${file}`);
+            }
+            return;
+        }
+
+        if (pending.length === 0) {
+            console.log("Database is up to date.");
+            return;
+        }
+
+        for (const file of pending) {
+            const sql = await readFile(path.join(MIGRATIONS_DIR, file), "utf8");
+            console.log(`Applying ${file}...`);
+
+            await client.query("begin");
+            try {
+                await client.query(sql);
+                await client.query("insert into schema_migrations (version) values ($1)", [file]);
+                await client.query("commit");
+            } catch (error) {
+                await client.query("rollback");
+                throw new Error(`Migration ${file} failed: ${error.message}`);
+            }
+        }
+
+        console.log(`Applied ${pending.length} migration(s).`);
+    } finally {
+        await client.end();
+    }
+}
+
+main().catch(error => {
+    console.error(error.message);
+    process.exit(1);
+});
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockSupabase, type MockTables } from '@/test/mock-supabase';
+
+const mocks = vi.hoisted(() => ({
+    tables: {} as MockTables,
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+    auth: async () => ({ userId: 'clerk_alice' }),
+    currentUser: async () => null,
+}));
+vi.mock('@/lib/supabase', () => ({
+    getSupabase: () => createMockSupabase(mocks.tables),
+}));
+
+import { POST } from './route';
+
+const ALICE_CHAT = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+const BOB_CHAT = '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d';
+const ALICE_ANSWER = '1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e';
+const BOB_ANSWER = '2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f';
+const QUESTION = '3d4e5f6a-7b8c-4d9e-8f0a-2b3c4d5e6f7a';
+
+// A follow-up question under `parentId`, as the chat UI sends it
+const followUp = (parentId: string) => POST(new Request('http://localhost/api/chat', {
+    method: 'POST',
+    body: JSON.stringify({
+        sessionId: ALICE_CHAT,
+        messages: [
+            { id: parentId, role: 'assistant', parts: [{ type: 'text', text: 'About 259 days.' }] },
+            { id: QUESTION, role: 'user', parts: [{ type: 'text', text: 'And back?' }] },
+        ],
+    }),
+}));
+
+beforeEach(() => {
+    vi.stubEnv('ATHEY_MODEL', 'fake:echo');
+    vi.stubEnv('RATE_LIMIT_STORE', 'memory');
+    mocks.tables = {
+        users: [{ id: 'alice', clerk_id: 'clerk_alice' }],
+        chat_sessions: [
+            { id: ALICE_CHAT, user_id: 'alice', title: 'Mars' },
+            { id: BOB_CHAT, user_id: 'bob', title: 'Private' },
+        ],
+        messages: [
+            { id: ALICE_ANSWER, session_id: ALICE_CHAT, parent_id: null, role: 'assistant', content: 'About 259 days.', sources: null },
+            { id: BOB_ANSWER, session_id: BOB_CHAT, parent_id: null, role: 'assistant', content: 'A secret', sources: null },
+        ],
+    };
+});
+
+describe('/api/chat', () => {
+    it('saves a question under its parent in the same session', async () => {
+        const response = await followUp(ALICE_ANSWER);
+        await response.text();
+
+        expect(response.status).toBe(200);
+        expect(mocks.tables.messages.find(m => m.id === QUESTION)).toMatchObject({ session_id: ALICE_CHAT, parent_id: ALICE_ANSWER });
+    });
+
+    it('refuses a parent from another user\'s session', async () => {
+        const response = await followUp(BOB_ANSWER);
+
+        expect(response.status).toBe(400);
+        expect(mocks.tables.messages).toHaveLength(2);
+    });
+});
@@ -1,74 +1,185 @@
-import { createOpenAI } from "@ai-sdk/openai";
-import { streamText } from "ai";
-
-export const maxDuration = 30;
-
-// Create Perplexity client using OpenAI-compatible provider
-const perplexity = createOpenAI({
-    apiKey: process.env.PERPLEXITY_API_KEY,
-    baseURL: "https://api.perplexity.ai",
-});
-
-// Optimized prompt (~180 tokens vs ~400 before)
-const ATHEY_SYSTEM_PROMPT = `You are Athey, Atheron's STEM AI assistant focused on space/cosmos.
-
-SCOPE: Space (NASA/ISRO/SpaceX/ESA), Science, Technology, Engineering, Mathematics.
-
-RULES:
-- Use web search for current data
-- NO inline citations like [1][2] in text
-- LaTeX math: $inline$ $$block$$
-
-END every response with sources (2-4 real URLs):
-<!-- SOURCES_START -->
-[{"domain":"nasa.gov","title":"Page Title","url":"https://real-url.com","description":"Brief desc"}]
-<!-- SOURCES_END -->`;
-
-// Extract text from assistant-ui message format
-function extractText(msg: Record<string, unknown>): string {
-    if (typeof msg.content === "string") return msg.content;
-
-    if (Array.isArray(msg.parts)) {
-        return msg.parts
-            .filter((p: unknown) => p && typeof p === "object" && (p as Record<string, unknown>).type === "text")
-            .map((p: unknown) => ((p as Record<string, unknown>).text as string) || "")
-            .join("");
-    }
-
-    if (Array.isArray(msg.content)) {
-        return msg.content
-            .filter((p: unknown) => p && typeof p === "object" && (p as Record<string, unknown>).type === "text")
-            .map((p: unknown) => ((p as Record<string, unknown>).text as string) || "")
-            .join("");
-    }
+import { createUIMessageStream, createUIMessageStreamResponse, stepCountIs, streamText, type UIMessage } from "ai";
+import { z } from "zod";
+import { resolveModel, ModelNotAllowedError } from "@/lib/models";
+import { saveMessage, updateChatSessionTitle, generateChatTitle, recordUsage, isNewChatSession } from "@/lib/db";
+import { toSource, SourceList, type Source } from "@/lib/sources";
+import type { ToolCall } from "@/lib/tool-calls";
+import { createChatTools } from "@/lib/tools";
+import { buildSystemPrompt } from "@/lib/system-prompt";
+import { getChatStore } from "@/lib/store";
+import { authorizeUser, authorizeSession } from "@/lib/auth";
+import { checkChatLimits, recordTokenUsage, getClientIp } from "@/lib/rate-limit";
+import { ChatRequestSchema, type ChatMessage, type ChatMessageMetadata } from "@/lib/schemas";
+import { parseJsonBody } from "@/lib/validation";
+
+// Room for a tool round trip (e.g. a web search) before the answer
+export const maxDuration = 60;
+
+// Model calls per answer: tool calls and their follow-ups, then the answer
+const MAX_STEPS = 5;
+
+// The client generates uuid message ids so they can double as database ids;
+// anything else (older clients) is left for the database to assign
+function messageId(msg: ChatMessage | undefined): string | undefined {
+    return z.uuid().safeParse(msg?.id).success ? msg?.id : undefined;
+}
 
-    return "";
+// Plain text of a UI message (sources and other parts aren't sent back to the model)
+function extractText(msg: ChatMessage): string {
+    return msg.parts
+        .map(part => (part.type === "text" && typeof part.text === "string" ? part.text : ""))
+        .join("");
 }
 
 export async function POST(req: Request) {
-    const { messages } = await req.json();
+    const body = await parseJsonBody(req, ChatRequestSchema);
+    if (!body.ok) return body.response;
+    const { messages, model: requestedModel, sessionId, trigger } = body.data;
+
+    // Every request needs a signed-in user, and only a session's owner may add turns to it
+    const authz = sessionId ? await authorizeSession(sessionId) : await authorizeUser();
+    if (!authz.ok) return authz.response;
+    const { userId } = authz;
+
+    const limited = await checkChatLimits(userId, getClientIp(req));
+    if (limited) return limited;
+
+    // Pick the model from the request (if allowed) or fall back to the configured default
+    let model, modelId: string, supportsTools: boolean;
+    try {
+        ({ model, id: modelId, supportsTools } = resolveModel(requestedModel));
+    } catch (error) {
+        if (error instanceof ModelNotAllowedError) {
+            return Response.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+    }
 
     // Convert to standard format
     const formattedMessages: Array<{ role: "user" | "assistant"; content: string }> = [];
 
     for (const msg of messages) {
-        const text = extractText(msg as Record<string, unknown>);
+        const text = extractText(msg);
         if (text && (msg.role === "user" || msg.role === "assistant")) {
             formattedMessages.push({ role: msg.role, content: text });
         }
     }
 
     if (formattedMessages.length === 0) {
-        return new Response(JSON.stringify({ error: "No messages" }), { status: 400 });
+        return Response.json({ error: "No messages with text" }, { status: 400 });
+    }
+
+    // The request carries the active branch only, so the last message is the
+    // turn being answered and the one before it is that turn's parent. Edits
+    // arrive as a new user message under an earlier parent (a sibling of the
+    // original question); regenerations answer the existing last user message.
+    const lastMessage = formattedMessages[formattedMessages.length - 1];
+    const userMessageId = messageId(messages[messages.length - 1]);
+    const assistantMessageId = crypto.randomUUID();
+    const isRegeneration = trigger === "regenerate-message";
+
+    // The saved message this turn hangs off comes from the client, so it must be
+    // one of this session's: chained under another user's message, the turn
+    // would be deleted along with it
+    const parentId = messageId(messages[messages.length - (isRegeneration ? 1 : 2)]);
+    if (sessionId && parentId && !(await getChatStore().getMessage(sessionId, parentId))) {
+        return new Response(JSON.stringify({ error: "Parent message not found in this session" }), { status: 400 });
+    }
+
+    if (sessionId && lastMessage.role === "user" && !isRegeneration) {
+        // Title the session from its first question. An edited first question
+        // is a new message too, but by then the session may have been renamed.
+        const isNewSession = await isNewChatSession(sessionId);
+
+        await saveMessage(sessionId, "user", lastMessage.content, [], {
+            id: userMessageId,
+            parentId: parentId ?? null,
+        });
+
+        if (isNewSession) {
+            await updateChatSessionTitle(sessionId, generateChatTitle(lastMessage.content));
+        }
     }
 
+    // Sources found by tools, in the order they are cited. The writer is set
+    // once the response stream starts, before the model can call a tool.
+    const foundSources = new SourceList();
+    let writeSource: (source: Source, index: number) => void = () => { };
+
     // Use Vercel AI SDK's streamText with proper model config
+    const tools = supportsTools
+        ? createChatTools({ sources: foundSources, onSource: (source, index) => writeSource(source, index) })
+        : undefined;
+    const startedAt = Date.now();
     const result = streamText({
-        model: perplexity.chat("sonar"),
-        system: ATHEY_SYSTEM_PROMPT,
+        model,
+        system: buildSystemPrompt(tools),
         messages: formattedMessages,
+        tools,
+        stopWhen: stepCountIs(MAX_STEPS),
+        onFinish: async ({ steps, sources, totalUsage, finishReason }) => {
+            const promptTokens = totalUsage.inputTokens ?? 0;
+            const completionTokens = totalUsage.outputTokens ?? 0;
+            await recordTokenUsage(userId, totalUsage.totalTokens ?? promptTokens + completionTokens);
+            await recordUsage({
+                userId,
+                sessionId: sessionId ?? null,
+                model: modelId,
+                promptTokens,
+                completionTokens,
+                latencyMs: Date.now() - startedAt,
+                finishReason,
+            });
+
+            // Store the raw markdown, its citations and its tool calls once the
+            // answer is complete. Text written around tool calls is part of the answer too.
+            const text = steps.map(step => step.text).filter(Boolean).join("\n\n");
+            if (sessionId && text) {
+                const urlSources = sources
+                    .map(s => (s.sourceType === "url" ? toSource(s.url, s.title) : null))
+                    .filter((s): s is Source => s !== null);
+                const toolCalls: ToolCall[] = steps.flatMap(step => step.toolResults).map(result => ({
+                    id: result.toolCallId,
+                    name: result.toolName,
+                    input: result.input,
+                    output: result.output,
+                }));
+                await saveMessage(sessionId, "assistant", text, [...urlSources, ...foundSources.all], {
+                    id: assistantMessageId,
+                    parentId: userMessageId ?? null,
+                    toolCalls,
+                });
+            }
+        },
     });
 
+    // Keep generating even if the client disconnects so the reply still gets saved
+    result.consumeStream();
+
     // Return in format compatible with assistant-ui
-    return result.toUIMessageStreamResponse();
+    // Stream the reply under the id it is saved with, so later edits and
+    // regenerations can point at it
+    const stream = createUIMessageStream({
+        // Parts were passed through validation untouched
+        originalMessages: messages as UIMessage[],
+        generateId: () => assistantMessageId,
+        execute: ({ writer }) => {
+            // Sources from tools reach the sources panel the same way as the model's own
+            writeSource = (source, index) => writer.write({
+                type: "source-url",
+                sourceId: `tool-source-${index}`,
+                url: source.url,
+                title: source.title,
+            });
+
+            writer.merge(result.toUIMessageStream({
+                sendSources: true,
+                // Tells the client which session the reply belongs to (e.g. to title it)
+                messageMetadata: ({ part }): ChatMessageMetadata | undefined =>
+                    part.type === "start" && sessionId ? { sessionId } : undefined,
+            }));
+        },
+    });
+
+    return createUIMessageStreamResponse({ stream });
 }
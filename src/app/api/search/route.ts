@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getChatStore } from '@/lib/store';
+import { authorizeUser } from '@/lib/auth';
+import { SearchQuerySchema, type SearchResponse } from '@/lib/schemas';
+import { parseSearchParams } from '@/lib/validation';
+
+// GET /api/search - Search the text of all the current user's messages
+export async function GET(req: Request) {
+    try {
+        const authz = await authorizeUser();
+        if (!authz.ok) return authz.response;
+
+        const query = parseSearchParams(req, SearchQuerySchema);
+        if (!query.ok) return query.response;
+        const { q, limit, offset } = query.data;
+
+        const { hits, total } = await getChatStore().searchMessages(authz.userId, q, { limit, offset });
+        const nextOffset = offset + hits.length < total ? offset + hits.length : null;
+
+        return NextResponse.json({ results: hits, total, nextOffset } satisfies SearchResponse);
+    } catch (error) {
+        console.error('Error searching messages:', error);
+        return NextResponse.json({ error: 'Failed to search messages' }, { status: 500 });
+    }
+}
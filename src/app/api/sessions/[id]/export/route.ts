@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getChatStore } from '@/lib/store';
+import { authorizeSession } from '@/lib/auth';
+import { exportSession } from '@/lib/export';
+import { ExportQuerySchema } from '@/lib/schemas';
+import { parseSearchParams } from '@/lib/validation';
+
+// GET /api/sessions/[id]/export?format=markdown|json|latex - Download a whole session
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: sessionId } = await params;
+
+        const authz = await authorizeSession(sessionId);
+        if (!authz.ok) return authz.response;
+
+        const query = parseSearchParams(req, ExportQuerySchema);
+        if (!query.ok) return query.response;
+
+        const messages = await getChatStore().listMessages(sessionId);
+        const file = exportSession(authz.session, messages, query.data.format);
+
+        // Plain filename= must be ASCII; browsers prefer the UTF-8 filename*= anyway
+        const asciiName = file.filename.replace(/[^\x20-\x7e]|"/g, '_');
+        return new NextResponse(file.body, {
+            headers: {
+                'Content-Type': file.contentType,
+                'Content-Disposition': `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting session:', error);
+        return NextResponse.json({ error: 'Failed to export session' }, { status: 500 });
+    }
+}
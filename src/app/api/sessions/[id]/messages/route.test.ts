@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockSupabase, type MockTables } from '@/test/mock-supabase';
+
+const mocks = vi.hoisted(() => ({
+    tables: {} as MockTables,
+    clerkId: null as string | null,
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+    auth: async () => ({ userId: mocks.clerkId }),
+    currentUser: async () => null,
+}));
+vi.mock('@/lib/supabase', () => ({
+    getSupabase: () => createMockSupabase(mocks.tables),
+}));
+
+import { GET, POST } from './route';
+
+const ALICE_CHAT = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+const BOB_CHAT = '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d';
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+const list = (id: string) => GET(new Request(`http://localhost/api/sessions/${id}/messages`), params(id));
+const send = (id: string) => POST(new Request(`http://localhost/api/sessions/${id}/messages`, {
+    method: 'POST',
+    body: JSON.stringify({ role: 'user', content: 'What is a Hohmann transfer?' }),
+}), params(id));
+
+beforeEach(() => {
+    mocks.clerkId = 'clerk_alice';
+    mocks.tables = {
+        users: [
+            { id: 'alice', clerk_id: 'clerk_alice' },
+            { id: 'bob', clerk_id: 'clerk_bob' },
+        ],
+        chat_sessions: [
+            { id: ALICE_CHAT, user_id: 'alice', title: 'New Chat' },
+            { id: BOB_CHAT, user_id: 'bob', title: 'Private' },
+        ],
+        messages: [
+            { id: 'm1', session_id: BOB_CHAT, parent_id: null, role: 'user', content: 'A secret', sources: null },
+        ],
+    };
+});
+
+describe('/api/sessions/[id]/messages', () => {
+    it('saves and lists messages in the caller\'s session', async () => {
+        expect((await send(ALICE_CHAT)).status).toBe(200);
+
+        const response = await list(ALICE_CHAT);
+        expect(response.status).toBe(200);
+        const { messages } = await response.json();
+        expect(messages.map((m: { content: string }) => m.content)).toEqual(['What is a Hohmann transfer?']);
+        expect(mocks.tables.chat_sessions[0].title).toBe('What is a Hohmann transfer?');
+    });
+
+    it('keeps the title of a session that already has messages', async () => {
+        mocks.tables.chat_sessions[0].title = 'Renamed';
+        mocks.tables.messages.push({ id: 'm2', session_id: ALICE_CHAT, parent_id: null, role: 'user', content: 'First question', sources: null });
+
+        expect((await send(ALICE_CHAT)).status).toBe(200);
+        expect(mocks.tables.chat_sessions[0].title).toBe('Renamed');
+    });
+
+    it('returns 404 for another user\'s session', async () => {
+        const listed = await list(BOB_CHAT);
+        expect(listed.status).toBe(404);
+        expect(await listed.json()).toEqual({ error: 'Session not found' });
+
+        expect((await send(BOB_CHAT)).status).toBe(404);
+        expect(mocks.tables.messages).toHaveLength(1);
+    });
+
+    it('refuses a parent from another session', async () => {
+        const response = await POST(new Request(`http://localhost/api/sessions/${ALICE_CHAT}/messages`, {
+            method: 'POST',
+            body: JSON.stringify({ role: 'user', content: 'Tell me more', parent_id: 'm1' }),
+        }), params(ALICE_CHAT));
+
+        expect(response.status).toBe(400);
+        expect(mocks.tables.messages).toHaveLength(1);
+    });
+
+    it('returns 401 when signed out', async () => {
+        mocks.clerkId = null;
+
+        expect((await list(ALICE_CHAT)).status).toBe(401);
+        expect((await send(ALICE_CHAT)).status).toBe(401);
+        expect(mocks.tables.messages).toHaveLength(1);
+    });
+});
@@ -1,28 +1,32 @@
 import { NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
-import { supabase } from '@/lib/supabase';
+import { getChatStore } from '@/lib/store';
+import { authorizeSession } from '@/lib/auth';
+import { generateChatTitle, isNewChatSession } from '@/lib/db';
+import { encodeCursor, messageCursor } from '@/lib/pagination';
+import { CreateMessageRequestSchema, ListMessagesQuerySchema, type MessagePage } from '@/lib/schemas';
+import { parseJsonBody, parseSearchParams } from '@/lib/validation';
 
-// GET /api/sessions/[id]/messages - Get messages for a session
+// GET /api/sessions/[id]/messages - The latest messages of a session, a page at a time
 export async function GET(
     req: Request,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
-        const { userId } = await auth();
-        if (!userId) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
         const { id: sessionId } = await params;
 
-        const { data: messages, error } = await supabase
-            .from('messages')
-            .select('*')
-            .eq('session_id', sessionId)
-            .order('created_at', { ascending: true });
+        const authz = await authorizeSession(sessionId);
+        if (!authz.ok) return authz.response;
+
+        const query = parseSearchParams(req, ListMessagesQuerySchema);
+        if (!query.ok) return query.response;
+        const { limit, cursor } = query.data;
 
-        if (error) throw error;
-        return NextResponse.json(messages);
+        // One extra (the oldest) tells whether there are earlier messages
+        const rows = await getChatStore().listMessages(sessionId, { before: cursor, limit: limit + 1 });
+        const messages = rows.length > limit ? rows.slice(1) : rows;
+        const nextCursor = rows.length > limit ? encodeCursor(messageCursor(messages[0])) : null;
+
+        return NextResponse.json({ messages, nextCursor } satisfies MessagePage);
     } catch (error) {
         console.error('Error fetching messages:', error);
         return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
@@ -35,41 +39,39 @@ export async function POST(
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
-        const { userId } = await auth();
-        if (!userId) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
         const { id: sessionId } = await params;
-        const { role, content } = await req.json();
 
-        if (!role || !content) {
-            return NextResponse.json({ error: 'Role and content required' }, { status: 400 });
+        const authz = await authorizeSession(sessionId);
+        if (!authz.ok) return authz.response;
+
+        const body = await parseJsonBody(req, CreateMessageRequestSchema);
+        if (!body.ok) return body.response;
+        const { role, content, sources, parent_id } = body.data;
+
+        // A parent in another session (or another user's) would take this
+        // message with it when deleted
+        if (parent_id && !(await getChatStore().getMessage(sessionId, parent_id))) {
+            return NextResponse.json({ error: 'Parent message not found in this session' }, { status: 400 });
         }
 
-        // Save message
-        const { data: message, error } = await supabase
-            .from('messages')
-            .insert({
-                session_id: sessionId,
-                role,
-                content,
-            })
-            .select()
-            .single();
+        // Checked before saving: afterwards the session has this message
+        const isNewSession = role === 'user' && await isNewChatSession(sessionId);
 
-        if (error) throw error;
+        // Save message
+        const message = await getChatStore().createMessage({
+            session_id: sessionId,
+            parent_id,
+            role,
+            content,
+            sources: sources.length > 0 ? sources : null,
+            tool_calls: null,
+        });
 
         // Update session's updated_at and title (if first message)
-        const titleUpdate = role === 'user' ? {
+        await getChatStore().updateChatSession(sessionId, {
             updated_at: new Date().toISOString(),
-            title: content.slice(0, 50) + (content.length > 50 ? '...' : '')
-        } : { updated_at: new Date().toISOString() };
-
-        await supabase
-            .from('chat_sessions')
-            .update(titleUpdate)
-            .eq('id', sessionId);
+            ...(isNewSession && { title: generateChatTitle(content) }),
+        });
 
         return NextResponse.json(message);
     } catch (error) {
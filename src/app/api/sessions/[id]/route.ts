@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getChatStore } from '@/lib/store';
+import { authorizeSession } from '@/lib/auth';
+import { UpdateSessionRequestSchema } from '@/lib/schemas';
+import { parseJsonBody } from '@/lib/validation';
+
+// PATCH /api/sessions/[id] - Rename, pin or archive a session
+export async function PATCH(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: sessionId } = await params;
+
+        const authz = await authorizeSession(sessionId);
+        if (!authz.ok) return authz.response;
+
+        const body = await parseJsonBody(req, UpdateSessionRequestSchema);
+        if (!body.ok) return body.response;
+
+        // Organizing a chat doesn't count as activity, so updated_at (the list order) stays put
+        const session = await getChatStore().updateChatSession(sessionId, body.data);
+        if (!session) {
+            return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+        }
+        return NextResponse.json(session);
+    } catch (error) {
+        console.error('Error updating session:', error);
+        return NextResponse.json({ error: 'Failed to update session' }, { status: 500 });
+    }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { getChatStore } from '@/lib/store';
+import { authorizeSession } from '@/lib/auth';
+import { getHeadMessage } from '@/lib/branches';
+import { createShareToken } from '@/lib/share';
+import { SaveShareRequestSchema } from '@/lib/schemas';
+import { parseJsonBody } from '@/lib/validation';
+
+// GET /api/sessions/[id]/share - The session's public link, if it has one
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: sessionId } = await params;
+
+        const authz = await authorizeSession(sessionId);
+        if (!authz.ok) return authz.response;
+
+        const share = await getChatStore().getSessionShare(sessionId);
+        return NextResponse.json({ share });
+    } catch (error) {
+        console.error('Error fetching share link:', error);
+        return NextResponse.json({ error: 'Failed to fetch share link' }, { status: 500 });
+    }
+}
+
+// PUT /api/sessions/[id]/share - Publish the session up to a message, or
+// change what an existing link shows and when it expires
+export async function PUT(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: sessionId } = await params;
+
+        const authz = await authorizeSession(sessionId);
+        if (!authz.ok) return authz.response;
+
+        const body = await parseJsonBody(req, SaveShareRequestSchema);
+        if (!body.ok) return body.response;
+
+        const store = getChatStore();
+        const messages = await store.listMessages(sessionId);
+        const messageId = body.data.message_id ?? getHeadMessage(messages)?.id;
+        if (!messageId) {
+            return NextResponse.json({ error: 'Session has no messages to share yet' }, { status: 409 });
+        }
+        if (!messages.some(m => m.id === messageId)) {
+            return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+        }
+
+        // Changing a link keeps its token, so copies already sent keep working
+        const existing = await store.getSessionShare(sessionId);
+        const share = await store.saveSessionShare({
+            session_id: sessionId,
+            token: existing?.token ?? createShareToken(),
+            message_id: messageId,
+            expires_at: body.data.expires_at === undefined ? existing?.expires_at ?? null : body.data.expires_at,
+        });
+        return NextResponse.json(share);
+    } catch (error) {
+        console.error('Error saving share link:', error);
+        return NextResponse.json({ error: 'Failed to save share link' }, { status: 500 });
+    }
+}
+
+// DELETE /api/sessions/[id]/share - Revoke the link
+export async function DELETE(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: sessionId } = await params;
+
+        const authz = await authorizeSession(sessionId);
+        if (!authz.ok) return authz.response;
+
+        await getChatStore().deleteSessionShare(sessionId);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error revoking share link:', error);
+        return NextResponse.json({ error: 'Failed to revoke share link' }, { status: 500 });
+    }
+}
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockSupabase, type MockTables } from '@/test/mock-supabase';
+
+const mocks = vi.hoisted(() => ({
+    tables: {} as MockTables,
+    generateSessionTitle: vi.fn(),
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+    auth: async () => ({ userId: 'clerk_alice' }),
+    currentUser: async () => null,
+}));
+vi.mock('@/lib/supabase', () => ({
+    getSupabase: () => createMockSupabase(mocks.tables),
+}));
+vi.mock('@/lib/titles', () => ({
+    generateSessionTitle: mocks.generateSessionTitle,
+}));
+
+import { POST } from './route';
+
+const CHAT = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+const QUESTION = 'How long does a Hohmann transfer to Mars take?';
+
+const title = () => POST(
+    new Request(`http://localhost/api/sessions/${CHAT}/title`, { method: 'POST', headers: { 'x-forwarded-for': '1.2.3.4' } }),
+    { params: Promise.resolve({ id: CHAT }) },
+);
+
+beforeEach(() => {
+    vi.stubEnv('RATE_LIMIT_STORE', 'memory');
+    vi.stubEnv('CHAT_RATE_LIMIT_PER_USER', '2');
+    mocks.tables = {
+        users: [{ id: 'alice', clerk_id: 'clerk_alice' }],
+        chat_sessions: [{ id: CHAT, user_id: 'alice', title: QUESTION }],
+        messages: [
+            { id: 'q', session_id: CHAT, parent_id: null, role: 'user', content: QUESTION, created_at: '2025-01-01T00:00:00Z' },
+            { id: 'a', session_id: CHAT, parent_id: 'q', role: 'assistant', content: 'About 259 days.', created_at: '2025-01-01T00:00:05Z' },
+        ],
+    };
+});
+
+describe('/api/sessions/[id]/title', () => {
+    it('stops calling the model once the chat limits are reached', async () => {
+        // A failing model leaves the placeholder, so the session stays eligible for a title
+        mocks.generateSessionTitle.mockResolvedValue(QUESTION);
+
+        expect((await title()).status).toBe(200);
+        expect((await title()).status).toBe(200);
+        const limited = await title();
+
+        expect(limited.status).toBe(429);
+        expect(mocks.generateSessionTitle).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getChatStore } from '@/lib/store';
+import { authorizeSession } from '@/lib/auth';
+import { getActiveBranch } from '@/lib/branches';
+import { generateChatTitle } from '@/lib/db';
+import { generateSessionTitle } from '@/lib/titles';
+import { checkChatLimits, getClientIp } from '@/lib/rate-limit';
+
+// POST /api/sessions/[id]/title - Replace the placeholder title with a generated one
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: sessionId } = await params;
+
+        const authz = await authorizeSession(sessionId);
+        if (!authz.ok) return authz.response;
+        const { userId, session } = authz;
+
+        const branch = getActiveBranch(await getChatStore().listMessages(sessionId));
+        const question = branch.find(m => m.role === 'user');
+        const answer = question && branch.find(m => m.parent_id === question.id && m.role === 'assistant');
+        if (!question || !answer) {
+            return NextResponse.json({ error: 'Session has no answered question yet' }, { status: 409 });
+        }
+
+        // Only the placeholder taken from the first question gets replaced, so
+        // renamed and already titled sessions are left alone
+        const placeholder = generateChatTitle(question.content);
+        if (session.title !== placeholder) {
+            return NextResponse.json(session);
+        }
+
+        // A failed title falls back to the placeholder, which keeps the session
+        // eligible, so each retry is a model call and counts like a chat request
+        const limited = await checkChatLimits(userId, getClientIp(req));
+        if (limited) return limited;
+
+        const title = await generateSessionTitle({
+            userId,
+            sessionId,
+            question: question.content,
+            answer: answer.content,
+        });
+
+        // The user may have renamed the chat while the model was writing
+        const current = await getChatStore().getChatSession(sessionId);
+        if (!current || current.title !== placeholder) {
+            return current
+                ? NextResponse.json(current)
+                : NextResponse.json({ error: 'Session not found' }, { status: 404 });
+        }
+
+        const updated = await getChatStore().updateChatSession(sessionId, { title });
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error('Error generating session title:', error);
+        return NextResponse.json({ error: 'Failed to generate session title' }, { status: 500 });
+    }
+}
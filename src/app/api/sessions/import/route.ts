@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getChatStore } from '@/lib/store';
+import { authorizeUser } from '@/lib/auth';
+import { readArchive } from '@/lib/import';
+import { ImportArchiveSchema, type ImportResponse } from '@/lib/schemas';
+import { compareSessions } from '@/lib/pagination';
+import { parseJsonBody } from '@/lib/validation';
+
+// A full ChatGPT export of a long-time user runs to tens of megabytes
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+// POST /api/sessions/import - Create sessions from a JSON archive
+export async function POST(req: Request) {
+    try {
+        const authz = await authorizeUser();
+        if (!authz.ok) return authz.response;
+
+        if (Number(req.headers.get('content-length')) > MAX_ARCHIVE_BYTES) {
+            return NextResponse.json({ error: 'Archive is too large (50 MB at most)' }, { status: 413 });
+        }
+
+        const body = await parseJsonBody(req, ImportArchiveSchema);
+        if (!body.ok) return body.response;
+
+        // One session at a time: if one fails, the ones before it stay imported
+        const { sessions: imported, skipped } = readArchive(body.data);
+        const store = getChatStore();
+        const sessions = [];
+        for (const session of imported) {
+            sessions.push(await store.importChatSession(authz.userId, session));
+        }
+
+        return NextResponse.json({ sessions: sessions.sort(compareSessions), skipped } satisfies ImportResponse);
+    } catch (error) {
+        console.error('Error importing sessions:', error);
+        return NextResponse.json({ error: 'Failed to import sessions' }, { status: 500 });
+    }
+}
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockSupabase, type MockTables } from '@/test/mock-supabase';
+
+const mocks = vi.hoisted(() => ({
+    tables: {} as MockTables,
+    clerkId: null as string | null,
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+    auth: async () => ({ userId: mocks.clerkId }),
+    currentUser: async () => null,
+}));
+vi.mock('@/lib/supabase', () => ({
+    getSupabase: () => createMockSupabase(mocks.tables),
+}));
+
+import { DELETE, GET, POST } from './route';
+import { PATCH } from './[id]/route';
+
+const ALICE_CHAT = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+const BOB_CHAT = '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d';
+const MISSING_CHAT = '00000000-0000-4000-8000-000000000000';
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+beforeEach(() => {
+    mocks.clerkId = 'clerk_alice';
+    mocks.tables = {
+        users: [
+            { id: 'alice', clerk_id: 'clerk_alice' },
+            { id: 'bob', clerk_id: 'clerk_bob' },
+        ],
+        chat_sessions: [
+            { id: ALICE_CHAT, user_id: 'alice', title: 'Orbits', pinned: false, archived: false },
+            { id: BOB_CHAT, user_id: 'bob', title: 'Private', pinned: false, archived: false },
+        ],
+    };
+});
+
+describe('/api/sessions', () => {
+    it('lists only the caller\'s sessions', async () => {
+        const response = await GET(new Request('http://localhost/api/sessions'));
+
+        expect(response.status).toBe(200);
+        const { sessions } = await response.json();
+        expect(sessions.map((s: { id: string }) => s.id)).toEqual([ALICE_CHAT]);
+    });
+
+    it('returns 401 when signed out', async () => {
+        mocks.clerkId = null;
+
+        expect((await GET(new Request('http://localhost/api/sessions'))).status).toBe(401);
+        expect((await POST(new Request('http://localhost/api/sessions', { method: 'POST', body: '{}' }))).status).toBe(401);
+        expect((await DELETE(new Request(`http://localhost/api/sessions?id=${ALICE_CHAT}`, { method: 'DELETE' }))).status).toBe(401);
+        expect(mocks.tables.chat_sessions).toHaveLength(2);
+    });
+
+    it('deletes the caller\'s session', async () => {
+        const response = await DELETE(new Request(`http://localhost/api/sessions?id=${ALICE_CHAT}`, { method: 'DELETE' }));
+
+        expect(response.status).toBe(200);
+        expect(mocks.tables.chat_sessions.map(s => s.id)).toEqual([BOB_CHAT]);
+    });
+
+    it('returns 404 when deleting another user\'s session', async () => {
+        const response = await DELETE(new Request(`http://localhost/api/sessions?id=${BOB_CHAT}`, { method: 'DELETE' }));
+
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ error: 'Session not found' });
+        expect(mocks.tables.chat_sessions.map(s => s.id)).toContain(BOB_CHAT);
+    });
+});
+
+describe('/api/sessions/[id]', () => {
+    const rename = (title: string) => new Request('http://localhost/api/sessions/x', {
+        method: 'PATCH',
+        body: JSON.stringify({ title }),
+    });
+
+    it('renames the caller\'s session', async () => {
+        const response = await PATCH(rename('Transfers'), params(ALICE_CHAT));
+
+        expect(response.status).toBe(200);
+        expect(mocks.tables.chat_sessions[0].title).toBe('Transfers');
+    });
+
+    it('returns 404 for another user\'s session, the same as a missing one', async () => {
+        const other = await PATCH(rename('Mine now'), params(BOB_CHAT));
+        const missing = await PATCH(rename('Mine now'), params(MISSING_CHAT));
+
+        expect(other.status).toBe(404);
+        expect(await other.json()).toEqual(await missing.json());
+        expect(mocks.tables.chat_sessions[1].title).toBe('Private');
+    });
+
+    it('returns 401 when signed out', async () => {
+        mocks.clerkId = null;
+
+        expect((await PATCH(rename('Transfers'), params(ALICE_CHAT))).status).toBe(401);
+        expect(mocks.tables.chat_sessions[0].title).toBe('Orbits');
+    });
+});
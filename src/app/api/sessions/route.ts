@@ -1,51 +1,31 @@
 import { NextResponse } from 'next/server';
-import { auth, currentUser } from '@clerk/nextjs/server';
-import { supabase } from '@/lib/supabase';
-
-// Ensure user exists in Supabase, synced with Clerk
-async function ensureUser(clerkId: string) {
-    const { data: existingUser } = await supabase
-        .from('users')
-        .select('id')
-        .eq('clerk_id', clerkId)
-        .single();
-
-    if (existingUser) return existingUser.id;
-
-    const user = await currentUser();
-    const { data: newUser, error } = await supabase
-        .from('users')
-        .insert({
-            clerk_id: clerkId,
-            email: user?.emailAddresses?.[0]?.emailAddress || null,
-            name: user?.firstName ? `${user.firstName} ${user.lastName || ''}`.trim() : null,
-            avatar_url: user?.imageUrl || null,
-        })
-        .select('id')
-        .single();
-
-    if (error) throw error;
-    return newUser.id;
-}
-
-// GET /api/sessions - List all sessions for current user
-export async function GET() {
+import { getChatStore } from '@/lib/store';
+import { authorizeUser, authorizeSession } from '@/lib/auth';
+import { encodeCursor, sessionCursor } from '@/lib/pagination';
+import {
+    CreateSessionRequestSchema,
+    ListSessionsQuerySchema,
+    SessionIdQuerySchema,
+    type SessionPage,
+} from '@/lib/schemas';
+import { parseJsonBody, parseSearchParams } from '@/lib/validation';
+
+// GET /api/sessions - One page of the current user's sessions
+export async function GET(req: Request) {
     try {
-        const { userId } = await auth();
-        if (!userId) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
+        const authz = await authorizeUser();
+        if (!authz.ok) return authz.response;
 
-        const dbUserId = await ensureUser(userId);
+        const query = parseSearchParams(req, ListSessionsQuerySchema);
+        if (!query.ok) return query.response;
+        const { archived, limit, cursor } = query.data;
 
-        const { data: sessions, error } = await supabase
-            .from('chat_sessions')
-            .select('*')
-            .eq('user_id', dbUserId)
-            .order('updated_at', { ascending: false });
+        // One extra tells whether there is another page
+        const rows = await getChatStore().listChatSessions(authz.userId, { archived, after: cursor, limit: limit + 1 });
+        const sessions = rows.slice(0, limit);
+        const nextCursor = rows.length > limit ? encodeCursor(sessionCursor(sessions[sessions.length - 1])) : null;
 
-        if (error) throw error;
-        return NextResponse.json(sessions);
+        return NextResponse.json({ sessions, nextCursor } satisfies SessionPage);
     } catch (error) {
         console.error('Error fetching sessions:', error);
         return NextResponse.json({ error: 'Failed to fetch sessions' }, { status: 500 });
@@ -55,24 +35,13 @@ export async function GET() {
 // POST /api/sessions - Create a new session
 export async function POST(req: Request) {
     try {
-        const { userId } = await auth();
-        if (!userId) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
-        const { title } = await req.json().catch(() => ({ title: 'New Chat' }));
-        const dbUserId = await ensureUser(userId);
+        const authz = await authorizeUser();
+        if (!authz.ok) return authz.response;
 
-        const { data: session, error } = await supabase
-            .from('chat_sessions')
-            .insert({
-                user_id: dbUserId,
-                title: title || 'New Chat',
-            })
-            .select()
-            .single();
+        const body = await parseJsonBody(req, CreateSessionRequestSchema);
+        if (!body.ok) return body.response;
 
-        if (error) throw error;
+        const session = await getChatStore().createChatSession(authz.userId, body.data.title ?? 'New Chat');
         return NextResponse.json(session);
     } catch (error) {
         console.error('Error creating session:', error);
@@ -83,24 +52,14 @@ export async function POST(req: Request) {
 // DELETE /api/sessions - Delete a session
 export async function DELETE(req: Request) {
     try {
-        const { userId } = await auth();
-        if (!userId) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
-        const { searchParams } = new URL(req.url);
-        const sessionId = searchParams.get('id');
-
-        if (!sessionId) {
-            return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
-        }
+        const query = parseSearchParams(req, SessionIdQuerySchema);
+        if (!query.ok) return query.response;
+        const sessionId = query.data.id;
 
-        const { error } = await supabase
-            .from('chat_sessions')
-            .delete()
-            .eq('id', sessionId);
+        const authz = await authorizeSession(sessionId);
+        if (!authz.ok) return authz.response;
 
-        if (error) throw error;
+        await getChatStore().deleteChatSession(sessionId);
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error('Error deleting session:', error);
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getChatStore } from '@/lib/store';
+import { authorizeUser } from '@/lib/auth';
+import { summarizeUsage, startOfMonth } from '@/lib/usage';
+
+// GET /api/usage - Token and cost totals for the current user (today and this month, UTC)
+export async function GET() {
+    try {
+        const authz = await authorizeUser();
+        if (!authz.ok) return authz.response;
+
+        const now = new Date();
+        const records = await getChatStore().listUsageRecords(authz.userId, startOfMonth(now).toISOString());
+        return NextResponse.json(summarizeUsage(records, now));
+    } catch (error) {
+        console.error('Error fetching usage:', error);
+        return NextResponse.json({ error: 'Failed to fetch usage' }, { status: 500 });
+    }
+}
@@ -7,78 +7,141 @@ import {
   AssistantChatTransport,
 } from "@assistant-ui/react-ai-sdk";
 import { useUser, SignedIn, SignedOut, SignIn } from "@clerk/nextjs";
-import { AtheronChat } from "@/components/atheron-chat";
+import { AtheronChat, type MessageFocus } from "@/components/atheron-chat";
 import { AppSidebar } from "@/components/app-sidebar";
 import {
   SidebarInset,
   SidebarProvider,
   SidebarTrigger,
 } from "@/components/ui/sidebar";
-import { getOrCreateUser, getChatSessions, getMessages, createChatSession, saveMessage, generateChatTitle, ChatSession } from "@/lib/db";
-import { User, Message } from "@/lib/supabase";
+import {
+  getSessionMessages,
+  createSession,
+  generateSessionTitle,
+  parseLimitExceeded,
+} from "@/lib/api-client";
+import { ChatMessageMetadataSchema, type LimitExceeded } from "@/lib/schemas";
+import { ChatSession, Message } from "@/lib/types";
+import { toThreadRepository, withStoredHistory } from "@/lib/thread-history";
+import { useSessionList } from "@/hooks/use-session-list";
+
+// Stored messages of the open chat loaded so far (the newest ones)
+interface LoadedHistory {
+  sessionId: string;
+  messages: Message[];
+  // For the messages before these; null once the start is loaded
+  nextCursor: string | null;
+}
 
 function ChatApp() {
   const { user: clerkUser, isLoaded } = useUser();
-  const [dbUser, setDbUser] = useState<User | null>(null);
-  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  // The API creates the database user on first use, so wait for Clerk's sign-in
+  const sessionList = useSessionList({ archived: false, enabled: isLoaded && !!clerkUser });
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
-  const [isLoadingSessions, setIsLoadingSessions] = useState(true);
-  const [loadedMessages, setLoadedMessages] = useState<Message[]>([]);
   const [chatKey, setChatKey] = useState(0);
   const [shouldLoadMessages, setShouldLoadMessages] = useState(false);
+  const [limitNotice, setLimitNotice] = useState<LimitExceeded | null>(null);
+  const [history, setHistory] = useState<LoadedHistory | null>(null);
+  const [isLoadingEarlier, setIsLoadingEarlier] = useState(false);
+  // Message to scroll to once the chat has rendered, e.g. one opened from search
+  const [focusMessage, setFocusMessage] = useState<MessageFocus | null>(null);
+
+  // Create the session on the first send of a new chat
+  const ensureSession = async (): Promise<string | null> => {
+    if (currentSessionId) return currentSessionId;
+
+    try {
+      const newSession = await createSession();
+      setCurrentSessionId(newSession.id);
+      sessionList.update(newSession);
+      return newSession.id;
+    } catch (error) {
+      console.error('Error creating chat session:', error);
+      return null;
+    }
+  };
 
   const runtime = useChatRuntime({
+    // useChatRuntime always uses the transport from the latest render
     transport: new AssistantChatTransport({
       api: "/api/chat",
+      // The API route persists both turns for this session
+      body: async () => ({ sessionId: await ensureSession() }),
     }),
-  });
-
-  // Sync Clerk user to Supabase
-  useEffect(() => {
-    async function syncUser() {
-      if (isLoaded && clerkUser) {
-        const email = clerkUser.primaryEmailAddress?.emailAddress || "";
-        const name = clerkUser.fullName || clerkUser.firstName || "";
-        const avatar = clerkUser.imageUrl || "";
-        const user = await getOrCreateUser(clerkUser.id, email, name, avatar);
-        setDbUser(user);
+    // uuids, so the server can store messages under the ids the UI uses
+    generateId: () => crypto.randomUUID(),
+    // Rate limit and quota rejections get a banner instead of a failed answer
+    onError: (error) => setLimitNotice(parseLimitExceeded(error)),
+    // Pick up the title and ordering the server wrote
+    onFinish: async ({ message, messages, isError, isAbort }) => {
+      setLimitNotice(null);
+      await sessionList.refresh();
+
+      // After the first exchange, swap the placeholder title for a generated one.
+      // This callback is captured once, so the session comes from the reply.
+      const metadata = ChatMessageMetadataSchema.safeParse(message.metadata);
+      if (messages.length === 2 && !isError && !isAbort && metadata.success && metadata.data.sessionId) {
+        try {
+          const session = await generateSessionTitle(metadata.data.sessionId);
+          sessionList.update(session);
+        } catch (error) {
+          console.error('Error generating chat title:', error);
+        }
       }
-    }
-    syncUser();
-  }, [clerkUser, isLoaded]);
-
-  // Load chat sessions when user is available
-  const loadSessions = useCallback(async () => {
-    if (dbUser) {
-      setIsLoadingSessions(true);
-      const userSessions = await getChatSessions(dbUser.id);
-      setSessions(userSessions);
-      setIsLoadingSessions(false);
-    }
-  }, [dbUser]);
-
-  useEffect(() => {
-    loadSessions();
-  }, [loadSessions]);
+    },
+  });
 
   // Load messages when explicitly triggered
   useEffect(() => {
     async function loadSessionMessages() {
       if (shouldLoadMessages && currentSessionId) {
-        const messages = await getMessages(currentSessionId);
-        setLoadedMessages(messages);
+        try {
+          // Start with the latest page; a message opened from search may be further back
+          const target = focusMessage?.messageId;
+          let page = await getSessionMessages(currentSessionId);
+          let messages = page.messages;
+          while (target && page.nextCursor && !messages.some(m => m.id === target)) {
+            page = await getSessionMessages(currentSessionId, page.nextCursor);
+            messages = [...page.messages, ...messages];
+          }
+          setHistory({ sessionId: currentSessionId, messages, nextCursor: page.nextCursor });
+
+          // Load every branch into the thread so follow-ups carry the history
+          runtime.thread.import(toThreadRepository(messages, target));
+        } catch (error) {
+          console.error('Error fetching messages:', error);
+        }
         setChatKey(prev => prev + 1);
         setShouldLoadMessages(false);
       }
     }
     loadSessionMessages();
-  }, [shouldLoadMessages, currentSessionId]);
+  }, [shouldLoadMessages, currentSessionId, focusMessage, runtime]);
+
+  // Older messages of the open chat, as its history is scrolled up
+  const handleLoadEarlier = useCallback(async () => {
+    if (!history?.nextCursor || isLoadingEarlier) return;
+
+    setIsLoadingEarlier(true);
+    try {
+      const page = await getSessionMessages(history.sessionId, history.nextCursor);
+      const messages = [...page.messages, ...history.messages];
+      const firstShown = runtime.thread.getState().messages[0]?.id;
+
+      runtime.thread.import(withStoredHistory(runtime.thread.export(), messages));
+      setHistory({ ...history, messages, nextCursor: page.nextCursor });
+      // Keep what was at the top of the list in place
+      if (firstShown) setFocusMessage({ messageId: firstShown, highlight: false });
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+    }
+    setIsLoadingEarlier(false);
+  }, [history, isLoadingEarlier, runtime]);
 
   // Start new chat
   const handleNewChat = () => {
     console.log('[page] handleNewChat called');
     setCurrentSessionId(null);
-    setLoadedMessages([]);
     setShouldLoadMessages(false);
     setChatKey(prev => prev + 1);
     // Force page reload to fully reset assistant-ui thread
@@ -89,47 +152,27 @@ function ChatApp() {
   const handleSelectSession = (sessionId: string) => {
     if (sessionId !== currentSessionId) {
       setCurrentSessionId(sessionId);
-      setLoadedMessages([]); // Clear while loading
       setShouldLoadMessages(true); // Trigger load
     }
   };
 
-  const handleSessionDeleted = (sessionId: string) => {
-    setSessions(prev => prev.filter(s => s.id !== sessionId));
-    if (currentSessionId === sessionId) {
-      handleNewChat();
-    }
+  // Open a search result: load its chat on the branch containing the message
+  const handleOpenMessage = (sessionId: string, messageId: string) => {
+    setCurrentSessionId(sessionId);
+    setFocusMessage({ messageId, highlight: true });
+    setShouldLoadMessages(true);
   };
 
-  // Called when user sends a message (new chat only)
-  const handleUserMessage = async (content: string) => {
-    if (!dbUser) return null;
-
-    let sessionId = currentSessionId;
-
-    // Create new session if needed
-    if (!sessionId) {
-      const title = generateChatTitle(content);
-      const newSession = await createChatSession(dbUser.id, title);
-      if (newSession) {
-        sessionId = newSession.id;
-        setCurrentSessionId(sessionId);
-        setSessions(prev => [newSession, ...prev]);
-        // DON'T trigger message loading - this is a new session
-      }
-    }
-
-    if (sessionId) {
-      await saveMessage(sessionId, 'user', content);
-    }
+  const handleMessageFocused = useCallback(() => setFocusMessage(null), []);
 
-    return sessionId;
+  const handleSessionUpdated = (session: ChatSession) => {
+    sessionList.update(session);
   };
 
-  // Called when assistant responds
-  const handleAssistantMessage = async (content: string, sessionId: string | null) => {
-    if (sessionId) {
-      await saveMessage(sessionId, 'assistant', content);
+  const handleSessionDeleted = (sessionId: string) => {
+    sessionList.remove(sessionId);
+    if (currentSessionId === sessionId) {
+      handleNewChat();
     }
   };
 
@@ -137,12 +180,18 @@ function ChatApp() {
     <AssistantRuntimeProvider runtime={runtime}>
       <SidebarProvider>
         <AppSidebar
-          sessions={sessions}
+          sessions={sessionList.sessions}
           currentSessionId={currentSessionId}
           onSelectSession={handleSelectSession}
           onNewChat={handleNewChat}
           onSessionDeleted={handleSessionDeleted}
-          isLoading={isLoadingSessions}
+          onSessionUpdated={handleSessionUpdated}
+          onSessionsImported={sessionList.insert}
+          onOpenMessage={handleOpenMessage}
+          isLoading={sessionList.isLoading}
+          hasMore={sessionList.hasMore}
+          isLoadingMore={sessionList.isLoadingMore}
+          onLoadMore={sessionList.loadMore}
         />
         <SidebarInset>
           <div className="fixed top-4 left-4 z-50 lg:hidden">
@@ -151,11 +200,15 @@ function ChatApp() {
           <main className="flex-1 flex flex-col overflow-hidden">
             <AtheronChat
               key={chatKey}
-              loadedMessages={loadedMessages}
-              currentSessionId={currentSessionId}
-              onUserMessage={handleUserMessage}
-              onAssistantMessage={handleAssistantMessage}
+              sessionId={currentSessionId}
               onNewChat={handleNewChat}
+              limitNotice={limitNotice}
+              onDismissLimitNotice={() => setLimitNotice(null)}
+              focusMessage={shouldLoadMessages ? null : focusMessage}
+              onMessageFocused={handleMessageFocused}
+              hasEarlierMessages={!!history?.nextCursor && history.sessionId === currentSessionId}
+              isLoadingEarlier={isLoadingEarlier}
+              onLoadEarlier={handleLoadEarlier}
             />
           </main>
         </SidebarInset>
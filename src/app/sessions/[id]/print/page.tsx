@@ -0,0 +1,77 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import ReactMarkdown from "react-markdown";
+import remarkMath from "remark-math";
+import remarkGfm from "remark-gfm";
+import rehypeKatex from "rehype-katex";
+import "katex/dist/katex.min.css";
+import { authorizeSession } from "@/lib/auth";
+import { getChatStore } from "@/lib/store";
+import { getActiveBranch } from "@/lib/branches";
+import { readableConversation } from "@/lib/export";
+import { ROLE_LABELS, formatTimestamp } from "@/lib/export/format";
+import { PrintToolbar } from "@/components/print-toolbar";
+
+// The PDF export: the active branch rendered with math and sources, printed
+// to PDF by the browser
+
+interface PrintSessionPageProps {
+    params: Promise<{ id: string }>;
+}
+
+// Shared by the metadata and the page within a request
+const loadSession = cache(authorizeSession);
+
+export async function generateMetadata({ params }: PrintSessionPageProps): Promise<Metadata> {
+    const authz = await loadSession((await params).id);
+    return {
+        title: authz.ok ? authz.session.title : "Not found",
+        robots: { index: false },
+    };
+}
+
+export default async function PrintSessionPage({ params }: PrintSessionPageProps) {
+    const { id: sessionId } = await params;
+
+    const authz = await loadSession(sessionId);
+    if (!authz.ok) notFound();
+
+    const { session } = authz;
+    const conversation = readableConversation(getActiveBranch(await getChatStore().listMessages(sessionId)));
+
+    return (
+        <div className="print-view">
+            <main className="print-page">
+                <PrintToolbar />
+                <h1 className="print-title">{session.title}</h1>
+                <p className="print-meta">
+                    Started {formatTimestamp(session.created_at)} · exported from Atheron {formatTimestamp(new Date().toISOString())}
+                </p>
+
+                {conversation.map(message => (
+                    <article key={message.id} className="print-message">
+                        <div className="print-message-meta">
+                            <strong>{ROLE_LABELS[message.role]}</strong>
+                            <time dateTime={message.created_at}>{formatTimestamp(message.created_at)}</time>
+                        </div>
+                        <div className="markdown-content">
+                            <ReactMarkdown remarkPlugins={[remarkMath, remarkGfm]} rehypePlugins={[rehypeKatex]}>
+                                {message.content}
+                            </ReactMarkdown>
+                        </div>
+                        {message.sources && message.sources.length > 0 && (
+                            <ol className="print-sources">
+                                {message.sources.map(source => (
+                                    <li key={source.url}>
+                                        <a href={source.url}>{source.title || source.domain}</a> ({source.domain})
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </article>
+                ))}
+            </main>
+        </div>
+    );
+}
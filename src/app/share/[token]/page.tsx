@@ -0,0 +1,76 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { MarkdownText } from "@/components/markdown-text";
+import { loadSharedConversation } from "@/lib/share";
+import { ROLE_LABELS, formatTimestamp } from "@/lib/export/format";
+
+// A conversation someone published. Public: no account needed to read it.
+
+interface SharePageProps {
+    params: Promise<{ token: string }>;
+}
+
+// Shared by the metadata and the page within a request
+const loadShare = cache(loadSharedConversation);
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+    const shared = await loadShare((await params).token);
+    if (!shared) return { title: "Link not found", robots: { index: false } };
+
+    const question = shared.messages.find(m => m.role === "user");
+    return {
+        title: `${shared.session.title} - Athey`,
+        description: question?.content.slice(0, 160),
+        robots: { index: false },
+    };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+    const shared = await loadShare((await params).token);
+    if (!shared) notFound();
+
+    const { share, session, messages } = shared;
+
+    return (
+        <div className="share-view">
+            <main className="share-page">
+                <header className="share-header">
+                    <Link href="/" className="share-brand">
+                        <Image src="/logo.jpeg" alt="Atheron" width={28} height={28} className="rounded-md" />
+                        <span>Athey</span>
+                    </Link>
+                    <h1 className="share-title">{session.title}</h1>
+                    <p className="share-meta">
+                        Shared conversation · {formatTimestamp(share.created_at)}
+                        {share.expires_at && <> · available until {formatTimestamp(share.expires_at)}</>}
+                    </p>
+                </header>
+
+                {messages.map(message => (
+                    <article key={message.id} className={`share-message share-message-${message.role}`}>
+                        <div className="share-message-meta">
+                            <strong>{ROLE_LABELS[message.role]}</strong>
+                            <time dateTime={message.created_at}>{formatTimestamp(message.created_at)}</time>
+                        </div>
+                        <MarkdownText content={message.content} />
+                        {message.sources && message.sources.length > 0 && (
+                            <ol className="share-sources">
+                                {message.sources.map(source => (
+                                    <li key={source.url}>
+                                        <a href={source.url} target="_blank" rel="noopener noreferrer">
+                                            {source.title || source.domain}
+                                        </a>
+                                        <span className="share-source-domain">{source.domain}</span>
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </article>
+                ))}
+            </main>
+        </div>
+    );
+}
@@ -9,9 +9,32 @@ import {
     MessageSquare,
     Loader2,
     X,
+    MoreHorizontal,
+    Pencil,
+    Pin,
+    PinOff,
+    Archive,
+    ArchiveRestore,
+    ArrowLeft,
+    Download,
+    FileText,
+    FileJson,
+    FileCode,
+    Printer,
+    Upload,
 } from "lucide-react"
 import Image from "next/image"
 
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import {
     Sidebar,
     SidebarContent,
@@ -20,20 +43,206 @@ import {
     SidebarGroupLabel,
     SidebarHeader,
     SidebarMenu,
+    SidebarMenuAction,
     SidebarMenuButton,
     SidebarMenuItem,
     useSidebar,
 } from "@/components/ui/sidebar"
-import { ChatSession } from "@/lib/supabase"
-import { deleteChatSession } from "@/lib/db"
+import { ChatSession } from "@/lib/types"
+import { deleteSession, importSessions, sessionExportUrl, sessionPrintUrl, updateSession } from "@/lib/api-client"
+import { MessageSearchResults } from "@/components/message-search-results"
+import { useSessionList } from "@/hooks/use-session-list"
+import { useLoadMore } from "@/hooks/use-load-more"
 
 interface AppSidebarProps extends React.ComponentProps<typeof Sidebar> {
+    // Active (unarchived) chats loaded so far; archived ones are loaded here on demand
     sessions: ChatSession[]
     currentSessionId: string | null
     onSelectSession: (sessionId: string) => void
     onNewChat: () => void
     onSessionDeleted: (sessionId: string) => void
+    onSessionUpdated: (session: ChatSession) => void
+    // Sessions created from an uploaded archive, active and archived
+    onSessionsImported: (sessions: ChatSession[]) => void
+    // Open a message found by search in its chat
+    onOpenMessage: (sessionId: string, messageId: string) => void
     isLoading?: boolean
+    hasMore?: boolean
+    isLoadingMore?: boolean
+    onLoadMore?: () => void
+}
+
+interface SessionItemProps {
+    session: ChatSession
+    isActive: boolean
+    onSelect: () => void
+    onUpdated: (session: ChatSession) => void
+    onDeleted: (sessionId: string) => void
+}
+
+// One chat in the history list, with inline rename and a menu to pin, archive, export or delete it
+function SessionItem({ session, isActive, onSelect, onUpdated, onDeleted }: SessionItemProps) {
+    const { isMobile } = useSidebar()
+    const [isRenaming, setIsRenaming] = React.useState(false)
+    const [isBusy, setIsBusy] = React.useState(false)
+    const [title, setTitle] = React.useState(session.title)
+    // Escape unmounts the input, which can still fire blur; don't save then
+    const renameCancelled = React.useRef(false)
+
+    const update = async (changes: Parameters<typeof updateSession>[1]) => {
+        setIsBusy(true)
+        try {
+            onUpdated(await updateSession(session.id, changes))
+        } catch (error) {
+            console.error('Error updating chat session:', error)
+        }
+        setIsBusy(false)
+    }
+
+    const handleDelete = async () => {
+        setIsBusy(true)
+        try {
+            await deleteSession(session.id)
+            onDeleted(session.id)
+        } catch (error) {
+            console.error('Error deleting chat session:', error)
+            setIsBusy(false)
+        }
+    }
+
+    const startRename = () => {
+        renameCancelled.current = false
+        setTitle(session.title)
+        setIsRenaming(true)
+    }
+
+    const finishRename = async () => {
+        setIsRenaming(false)
+        if (renameCancelled.current) return
+        const trimmed = title.trim()
+        if (trimmed && trimmed !== session.title) {
+            await update({ title: trimmed })
+        }
+    }
+
+    if (isRenaming) {
+        return (
+            <SidebarMenuItem>
+                <input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onBlur={finishRename}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur()
+                        if (e.key === 'Escape') {
+                            renameCancelled.current = true
+                            setIsRenaming(false)
+                        }
+                    }}
+                    maxLength={200}
+                    aria-label="Chat title"
+                    className="w-full h-10 px-3 text-sm bg-sidebar-accent/50 border border-sidebar-border rounded-lg focus:outline-none focus:ring-1 focus:ring-primary"
+                    autoFocus
+                />
+            </SidebarMenuItem>
+        )
+    }
+
+    return (
+        <SidebarMenuItem>
+            <SidebarMenuButton
+                onClick={onSelect}
+                onDoubleClick={startRename}
+                className={`h-10 gap-3 px-3 pr-10 ${isActive ? 'bg-sidebar-accent' : ''}`}
+            >
+                {session.pinned ? (
+                    <Pin className="!size-4 shrink-0 text-sidebar-foreground/60" />
+                ) : (
+                    <MessageSquare className="!size-4 shrink-0 text-sidebar-foreground/60" />
+                )}
+                <span className="truncate text-sm">
+                    {session.title}
+                </span>
+            </SidebarMenuButton>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <SidebarMenuAction showOnHover className="top-2.5" disabled={isBusy}>
+                        {isBusy ? <Loader2 className="animate-spin" /> : <MoreHorizontal />}
+                        <span className="sr-only">More</span>
+                    </SidebarMenuAction>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent
+                    className="w-48 rounded-lg"
+                    side={isMobile ? "bottom" : "right"}
+                    align={isMobile ? "end" : "start"}
+                    // Leave focus on the rename input instead of returning it to the trigger
+                    onCloseAutoFocus={(e) => e.preventDefault()}
+                >
+                    <DropdownMenuItem onSelect={startRename}>
+                        <Pencil className="text-muted-foreground" />
+                        <span>Rename</span>
+                    </DropdownMenuItem>
+                    {!session.archived && (
+                        <DropdownMenuItem onSelect={() => update({ pinned: !session.pinned })}>
+                            {session.pinned ? (
+                                <PinOff className="text-muted-foreground" />
+                            ) : (
+                                <Pin className="text-muted-foreground" />
+                            )}
+                            <span>{session.pinned ? 'Unpin' : 'Pin'}</span>
+                        </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem
+                        onSelect={() => update(session.archived ? { archived: false } : { archived: true, pinned: false })}
+                    >
+                        {session.archived ? (
+                            <ArchiveRestore className="text-muted-foreground" />
+                        ) : (
+                            <Archive className="text-muted-foreground" />
+                        )}
+                        <span>{session.archived ? 'Unarchive' : 'Archive'}</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>
+                            <Download className="text-muted-foreground" />
+                            <span>Export</span>
+                        </DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent className="w-44 rounded-lg">
+                            <DropdownMenuItem asChild>
+                                <a href={sessionExportUrl(session.id, 'markdown')} download>
+                                    <FileText className="text-muted-foreground" />
+                                    <span>Markdown</span>
+                                </a>
+                            </DropdownMenuItem>
+                            <DropdownMenuItem asChild>
+                                <a href={sessionPrintUrl(session.id)} target="_blank" rel="noopener">
+                                    <Printer className="text-muted-foreground" />
+                                    <span>PDF</span>
+                                </a>
+                            </DropdownMenuItem>
+                            <DropdownMenuItem asChild>
+                                <a href={sessionExportUrl(session.id, 'latex')} download>
+                                    <FileCode className="text-muted-foreground" />
+                                    <span>LaTeX</span>
+                                </a>
+                            </DropdownMenuItem>
+                            <DropdownMenuItem asChild>
+                                <a href={sessionExportUrl(session.id, 'json')} download>
+                                    <FileJson className="text-muted-foreground" />
+                                    <span>JSON</span>
+                                </a>
+                            </DropdownMenuItem>
+                        </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem variant="destructive" onSelect={handleDelete}>
+                        <Trash2 />
+                        <span>Delete</span>
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+        </SidebarMenuItem>
+    )
 }
 
 export function AppSidebar({
@@ -42,33 +251,90 @@ export function AppSidebar({
     onSelectSession,
     onNewChat,
     onSessionDeleted,
+    onSessionUpdated,
+    onSessionsImported,
+    onOpenMessage,
     isLoading = false,
+    hasMore = false,
+    isLoadingMore = false,
+    onLoadMore,
     ...props
 }: AppSidebarProps) {
     const { state, toggleSidebar, isMobile } = useSidebar()
     const isCollapsed = state === "collapsed"
-    const [deletingId, setDeletingId] = React.useState<string | null>(null)
     const [searchQuery, setSearchQuery] = React.useState("")
     const [isSearching, setIsSearching] = React.useState(false)
+    const [showArchived, setShowArchived] = React.useState(false)
+    const archivedList = useSessionList({ archived: true, enabled: showArchived })
+
+    // The list being shown, with its own paging
+    const view = showArchived
+        ? archivedList
+        : { sessions, isLoading, hasMore, isLoadingMore, loadMore: onLoadMore }
+    const loadMoreMarker = useLoadMore(view.loadMore, view.hasMore && !view.isLoadingMore)
+
+    // Keep the archived view in step, then let the page update the main list
+    const handleUpdated = (session: ChatSession) => {
+        archivedList.update(session)
+        onSessionUpdated(session)
+    }
+
+    const handleDeleted = (sessionId: string) => {
+        archivedList.remove(sessionId)
+        onSessionDeleted(sessionId)
+    }
+
+    const [isImporting, setIsImporting] = React.useState(false)
+    const [importStatus, setImportStatus] = React.useState<string | null>(null)
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        // Let the same file be picked again
+        e.target.value = ""
+        if (!file) return
 
-    const handleDelete = async (e: React.MouseEvent, sessionId: string) => {
-        e.stopPropagation()
-        setDeletingId(sessionId)
-        const success = await deleteChatSession(sessionId)
-        if (success) {
-            onSessionDeleted(sessionId)
+        setIsImporting(true)
+        setImportStatus(null)
+        try {
+            const { sessions: imported, skipped } = await importSessions(file)
+            archivedList.insert(imported)
+            onSessionsImported(imported)
+            setImportStatus(
+                `Imported ${imported.length} ${imported.length === 1 ? 'chat' : 'chats'}` +
+                (skipped > 0 ? `, skipped ${skipped} empty` : '')
+            )
+        } catch (error) {
+            console.error('Error importing chats:', error)
+            setImportStatus(error instanceof Error ? error.message : 'Import failed')
         }
-        setDeletingId(null)
+        setIsImporting(false)
     }
 
-    // Filter sessions based on search query
+    // Titles are filtered here; message text is searched on the server
+    const trimmedQuery = searchQuery.trim()
+
+    // Filter sessions based on search query and the current view (active or archived)
     const filteredSessions = React.useMemo(() => {
-        if (!searchQuery.trim()) return sessions
+        if (!searchQuery.trim()) return view.sessions
         const query = searchQuery.toLowerCase()
-        return sessions.filter(session =>
+        return view.sessions.filter(session =>
             session.title.toLowerCase().includes(query)
         )
-    }, [sessions, searchQuery])
+    }, [view.sessions, searchQuery])
+
+    const pinnedSessions = filteredSessions.filter(session => session.pinned)
+    const otherSessions = showArchived ? filteredSessions : filteredSessions.filter(session => !session.pinned)
+
+    const renderSessions = (list: ChatSession[]) => list.map((session) => (
+        <SessionItem
+            key={session.id}
+            session={session}
+            isActive={currentSessionId === session.id}
+            onSelect={() => onSelectSession(session.id)}
+            onUpdated={handleUpdated}
+            onDeleted={handleDeleted}
+        />
+    ))
 
     return (
         <Sidebar
@@ -170,55 +436,102 @@ export function AppSidebar({
                     </div>
                 )}
 
+                {/* Pinned chats */}
+                {!showArchived && !view.isLoading && pinnedSessions.length > 0 && (
+                    <SidebarGroup className="px-2 mt-2 group-data-[collapsible=icon]:hidden">
+                        <SidebarGroupLabel className="px-3 text-xs font-normal text-sidebar-foreground/60">
+                            Pinned
+                        </SidebarGroupLabel>
+                        <SidebarGroupContent>
+                            <SidebarMenu>
+                                {renderSessions(pinnedSessions)}
+                            </SidebarMenu>
+                        </SidebarGroupContent>
+                    </SidebarGroup>
+                )}
+
                 {/* Chat History */}
                 <SidebarGroup className="flex-1 px-2 mt-2 group-data-[collapsible=icon]:hidden overflow-y-auto">
                     <SidebarGroupLabel className="px-3 text-xs font-normal text-sidebar-foreground/60">
-                        {searchQuery ? `Results (${filteredSessions.length})` : 'Your chats'}
+                        {searchQuery
+                            ? `Chats (${filteredSessions.length})`
+                            : showArchived ? 'Archived chats' : 'Your chats'}
                     </SidebarGroupLabel>
                     <SidebarGroupContent>
                         <SidebarMenu>
-                            {isLoading ? (
+                            {view.isLoading ? (
                                 <div className="px-3 py-6 flex items-center justify-center">
                                     <Loader2 className="size-5 animate-spin text-sidebar-foreground/40" />
                                 </div>
                             ) : filteredSessions.length === 0 ? (
                                 <div className="px-3 py-6 text-sm text-sidebar-foreground/40 text-center">
-                                    {searchQuery ? 'No matching chats' : 'No conversations yet'}
+                                    {searchQuery
+                                        ? 'No matching chats'
+                                        : showArchived ? 'No archived chats' : 'No conversations yet'}
                                 </div>
                             ) : (
-                                filteredSessions.map((session) => (
-                                    <SidebarMenuItem key={session.id} className="group/item relative">
-                                        <SidebarMenuButton
-                                            onClick={() => onSelectSession(session.id)}
-                                            className={`h-10 gap-3 px-3 pr-10 ${currentSessionId === session.id
-                                                ? 'bg-sidebar-accent'
-                                                : ''
-                                                }`}
-                                        >
-                                            <MessageSquare className="!size-4 shrink-0 text-sidebar-foreground/60" />
-                                            <span className="truncate text-sm">
-                                                {session.title}
-                                            </span>
-                                        </SidebarMenuButton>
-                                        {/* Delete button positioned absolutely to avoid nesting */}
-                                        <button
-                                            onClick={(e) => handleDelete(e, session.id)}
-                                            className="absolute right-2 top-1/2 -translate-y-1/2 opacity-0 group-hover/item:opacity-100 p-1.5 hover:bg-destructive/20 rounded transition-all z-10"
-                                            title="Delete chat"
-                                            disabled={deletingId === session.id}
-                                        >
-                                            {deletingId === session.id ? (
-                                                <Loader2 className="size-4 animate-spin" />
-                                            ) : (
-                                                <Trash2 className="size-4 text-destructive" />
-                                            )}
-                                        </button>
-                                    </SidebarMenuItem>
-                                ))
+                                renderSessions(otherSessions)
+                            )}
+                            {/* Loads the next page as the end of the list scrolls into view */}
+                            {view.hasMore && !view.isLoading && (
+                                <div ref={loadMoreMarker} className="px-3 py-3 flex items-center justify-center">
+                                    <Loader2 className="size-4 animate-spin text-sidebar-foreground/40" />
+                                </div>
                             )}
                         </SidebarMenu>
                     </SidebarGroupContent>
                 </SidebarGroup>
+
+                {/* Matching messages from every chat */}
+                {trimmedQuery && (
+                    <MessageSearchResults query={trimmedQuery} onOpenMessage={onOpenMessage} />
+                )}
+
+                {/* Switch between the main list and archived chats */}
+                {!isLoading && (
+                    <SidebarGroup className="px-2 pb-3 group-data-[collapsible=icon]:hidden">
+                        <SidebarMenu>
+                            <SidebarMenuItem>
+                                <SidebarMenuButton
+                                    onClick={() => setShowArchived(!showArchived)}
+                                    className="h-10 gap-3 px-3 text-sidebar-foreground/70"
+                                >
+                                    {showArchived ? (
+                                        <ArrowLeft className="!size-4 shrink-0" />
+                                    ) : (
+                                        <Archive className="!size-4 shrink-0" />
+                                    )}
+                                    <span className="text-sm">
+                                        {showArchived ? 'Back to chats' : 'Archived chats'}
+                                    </span>
+                                </SidebarMenuButton>
+                            </SidebarMenuItem>
+                            {/* Restore a backup or bring chats over from ChatGPT */}
+                            <SidebarMenuItem>
+                                <SidebarMenuButton asChild className="h-10 gap-3 px-3 text-sidebar-foreground/70">
+                                    <label className={isImporting ? 'pointer-events-none opacity-60' : 'cursor-pointer'}>
+                                        {isImporting ? (
+                                            <Loader2 className="!size-4 shrink-0 animate-spin" />
+                                        ) : (
+                                            <Upload className="!size-4 shrink-0" />
+                                        )}
+                                        <span className="text-sm">{isImporting ? 'Importing…' : 'Import chats'}</span>
+                                        <input
+                                            type="file"
+                                            accept="application/json,.json"
+                                            className="sr-only"
+                                            onChange={handleImport}
+                                            disabled={isImporting}
+                                        />
+                                    </label>
+                                </SidebarMenuButton>
+                            </SidebarMenuItem>
+                            {importStatus && (
+                                <div className="px-3 pt-1 text-xs text-sidebar-foreground/50">{importStatus}</div>
+                            )}
+                        </SidebarMenu>
+                    </SidebarGroup>
+                )}
             </SidebarContent>
         </Sidebar>
     )
@@ -1,13 +1,18 @@
 "use client";
 
-import { useRef, useEffect, useState, useCallback } from "react";
+import { useRef, useEffect, useState, useCallback, useMemo, createContext, useContext, type ReactNode } from "react";
 import {
     ThreadPrimitive,
     ComposerPrimitive,
     MessagePrimitive,
+    ActionBarPrimitive,
+    BranchPickerPrimitive,
     useThread,
+    useAssistantState,
+    type ThreadMessage,
 } from "@assistant-ui/react";
-import { ArrowRight, Sparkles, RotateCcw, X, ExternalLink, Copy, Share2, Download, RefreshCw, Check, LogOut } from "lucide-react";
+import { ArrowRight, Sparkles, RotateCcw, X, ExternalLink, Copy, Share2, Download, RefreshCw, Check, LogOut, Quote, Pencil, ChevronLeft, ChevronRight, Clock, Loader2 } from "lucide-react";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import ReactMarkdown from "react-markdown";
 import remarkMath from "remark-math";
 import rehypeKatex from "rehype-katex";
@@ -21,16 +26,13 @@ import {
     UserButton,
     useUser,
 } from "@clerk/nextjs";
-import { createChatSession, saveMessage, updateChatSessionTitle, generateChatTitle } from "@/lib/db";
-import { ChatSession, Message } from "@/lib/supabase";
-
-// ============ TYPES ============
-interface Source {
-    domain: string;
-    title: string;
-    url: string;
-    description: string;
-}
+import { Source, toSource, extractLegacySources } from "@/lib/sources";
+import { remarkCitations, stripCitations } from "@/lib/citations";
+import { useCitationMode } from "@/hooks/use-citation-mode";
+import type { LimitExceeded } from "@/lib/schemas";
+import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
+import { ShareMenu } from "@/components/share-menu";
+import { ToolCards } from "@/components/tool-cards";
 
 // ============ VIDEO BACKGROUND ============
 function VideoBackground() {
@@ -135,39 +137,77 @@ function LoadingAnimation() {
     );
 }
 
-// ============ PARSE SOURCES FROM CONTENT ============
-function parseSourcesFromContent(content: string): { cleanContent: string; sources: Source[] } {
-    const sourcesMatch = content.match(/<!-- SOURCES_START -->([\s\S]*?)<!-- SOURCES_END -->/);
-
-    let cleanContent = content;
-    let sources: Source[] = [];
-
-    // Remove the sources block (always strip the markers, even if JSON parse fails)
-    if (sourcesMatch) {
-        const sourcesJson = sourcesMatch[1].trim();
-        // Only parse if there's actual content
-        if (sourcesJson && sourcesJson.startsWith('[')) {
-            try {
-                sources = JSON.parse(sourcesJson) as Source[];
-            } catch (e) {
-                // JSON parse failed, sources remain empty
-            }
+// ============ CLEAN CONTENT ============
+function cleanMarkdown(content: string, keepCitations = false): string {
+    // Strip any legacy sources block left in older messages
+    let cleanContent = extractLegacySources(content).content;
+
+    // Remove citation numbers like [1], [2], [1][2], etc. unless they are shown as chips
+    if (!keepCitations) {
+        cleanContent = stripCitations(cleanContent);
+    }
+    // Clean up any double spaces left behind
+    cleanContent = cleanContent.replace(/  +/g, ' ').trim();
+
+    return cleanContent;
+}
+
+// ============ SOURCES FROM MESSAGE PARTS ============
+function sourcesFromParts(parts: ThreadMessage["content"]): Source[] {
+    const sources: Source[] = [];
+    for (const part of parts) {
+        if (part.type !== "source") continue;
+        const source = toSource(part.url, part.title);
+        if (source && !sources.some(s => s.url === source.url)) {
+            sources.push(source);
         }
     }
+    return sources;
+}
 
-    // Always strip the source markers from content, regardless of whether parsing succeeded
-    cleanContent = cleanContent.replace(/<!-- SOURCES_START -->[\s\S]*?<!-- SOURCES_END -->/g, '').trim();
+// ============ CHAT SESSION CONTEXT ============
+// The stored session being shown, for actions that work on the whole chat;
+// null until the first message creates it
+const ChatSessionContext = createContext<string | null>(null);
+
+// ============ ANSWER SOURCES CONTEXT ============
+// Shared by everything rendered for one answer, so citation chips and the
+// sources button open the same panel
+interface AnswerSourcesValue {
+    sources: Source[];
+    openSources: (index?: number) => void;
+}
 
-    // Remove citation numbers like [1], [2], [1][2], etc.
-    cleanContent = cleanContent.replace(/\[\d+\]/g, '');
-    // Clean up any double spaces left behind
-    cleanContent = cleanContent.replace(/  +/g, ' ').trim();
+const AnswerSourcesContext = createContext<AnswerSourcesValue>({
+    sources: [],
+    openSources: () => { },
+});
+
+function AnswerSourcesProvider({ sources, children }: { sources: Source[]; children: ReactNode }) {
+    // null = closed, otherwise the index to scroll to (if any)
+    const [panel, setPanel] = useState<{ activeIndex?: number } | null>(null);
 
-    return { cleanContent, sources };
+    const openSources = useCallback((index?: number) => setPanel({ activeIndex: index }), []);
+    const value = useMemo(() => ({ sources, openSources }), [sources, openSources]);
+
+    return (
+        <AnswerSourcesContext.Provider value={value}>
+            {children}
+            {panel && sources.length > 0 && (
+                <SourcesPanel sources={sources} activeIndex={panel.activeIndex} onClose={() => setPanel(null)} />
+            )}
+        </AnswerSourcesContext.Provider>
+    );
 }
 
 // ============ SOURCES PANEL ============
-function SourcesPanel({ sources, onClose }: { sources: Source[]; onClose: () => void }) {
+function SourcesPanel({ sources, activeIndex, onClose }: { sources: Source[]; activeIndex?: number; onClose: () => void }) {
+    const activeRef = useRef<HTMLAnchorElement>(null);
+
+    useEffect(() => {
+        activeRef.current?.scrollIntoView({ block: "center" });
+    }, [activeIndex]);
+
     return (
         <div className="sources-overlay" onClick={onClose}>
             <div className="sources-panel" onClick={e => e.stopPropagation()}>
@@ -184,11 +224,13 @@ function SourcesPanel({ sources, onClose }: { sources: Source[]; onClose: () =>
                     {sources.map((source, i) => (
                         <a
                             key={i}
+                            ref={i === activeIndex ? activeRef : undefined}
                             href={source.url}
                             target="_blank"
                             rel="noopener noreferrer"
-                            className="source-item"
+                            className={i === activeIndex ? "source-item source-item-active" : "source-item"}
                         >
+                            <span className="source-number">{i + 1}</span>
                             <div className="source-icon">
                                 <img
                                     src={`https://www.google.com/s2/favicons?domain=${source.domain}&sz=32`}
@@ -201,8 +243,8 @@ function SourcesPanel({ sources, onClose }: { sources: Source[]; onClose: () =>
                             </div>
                             <div className="source-content">
                                 <span className="source-domain">{source.domain}</span>
-                                <span className="source-title">{source.title}</span>
-                                <span className="source-desc">{source.description}</span>
+                                <span className="source-title">{source.title || source.url}</span>
+                                {source.description && <span className="source-desc">{source.description}</span>}
                             </div>
                             <ExternalLink className="w-4 h-4 text-gray-500 flex-shrink-0" />
                         </a>
@@ -214,46 +256,60 @@ function SourcesPanel({ sources, onClose }: { sources: Source[]; onClose: () =>
 }
 
 // ============ SOURCES BUTTON ============
-function SourcesButton({ sources }: { sources: Source[] }) {
-    const [showPanel, setShowPanel] = useState(false);
+function SourcesButton() {
+    const { sources, openSources } = useContext(AnswerSourcesContext);
 
     if (sources.length === 0) return null;
 
     return (
-        <>
-            <button
-                onClick={() => setShowPanel(true)}
-                className="sources-button"
-            >
-                <div className="sources-icons">
-                    {sources.slice(0, 3).map((source, i) => (
-                        <img
-                            key={i}
-                            src={`https://www.google.com/s2/favicons?domain=${source.domain}&sz=32`}
-                            alt=""
-                            className="source-favicon"
-                            style={{ marginLeft: i > 0 ? '-6px' : '0', zIndex: 3 - i }}
-                        />
-                    ))}
-                </div>
-                <span>{sources.length} sources</span>
-            </button>
-            {showPanel && <SourcesPanel sources={sources} onClose={() => setShowPanel(false)} />}
-        </>
+        <button
+            onClick={() => openSources()}
+            className="sources-button"
+        >
+            <div className="sources-icons">
+                {sources.slice(0, 3).map((source, i) => (
+                    <img
+                        key={i}
+                        src={`https://www.google.com/s2/favicons?domain=${source.domain}&sz=32`}
+                        alt=""
+                        className="source-favicon"
+                        style={{ marginLeft: i > 0 ? '-6px' : '0', zIndex: 3 - i }}
+                    />
+                ))}
+            </div>
+            <span>{sources.length} sources</span>
+        </button>
     );
 }
 
-// ============ MARKDOWN RENDERER ============
-function MarkdownContent({ content, onSourcesParsed }: { content: string; onSourcesParsed?: (sources: Source[]) => void }) {
-    const { cleanContent, sources } = parseSourcesFromContent(content);
-    const hasReportedSources = useRef(false);
+// ============ CITATION CHIP ============
+function CitationChip({ index }: { index: number }) {
+    const { sources, openSources } = useContext(AnswerSourcesContext);
+    const source = sources[index - 1];
 
-    useEffect(() => {
-        if (onSourcesParsed && sources.length > 0 && !hasReportedSources.current) {
-            hasReportedSources.current = true;
-            onSourcesParsed(sources);
-        }
-    }, [sources.length, onSourcesParsed]);
+    // Markers without a matching source are dropped
+    if (!source) return null;
+
+    return (
+        <Tooltip>
+            <TooltipTrigger asChild>
+                <button className="citation-chip" onClick={() => openSources(index - 1)}>
+                    {index}
+                </button>
+            </TooltipTrigger>
+            <TooltipContent className="citation-preview" sideOffset={4}>
+                <span className="source-domain">{source.domain}</span>
+                <span className="source-title">{source.title || source.url}</span>
+                {source.description && <span className="source-desc">{source.description}</span>}
+            </TooltipContent>
+        </Tooltip>
+    );
+}
+
+// ============ MARKDOWN RENDERER ============
+function MarkdownContent({ content }: { content: string }) {
+    const [citationMode] = useCitationMode();
+    const cleanContent = cleanMarkdown(content, citationMode);
 
     if (!cleanContent) {
         return <LoadingAnimation />;
@@ -262,8 +318,14 @@ function MarkdownContent({ content, onSourcesParsed }: { content: string; onSour
     return (
         <div className="markdown-content">
             <ReactMarkdown
-                remarkPlugins={[remarkMath, remarkGfm]}
+                remarkPlugins={citationMode ? [remarkMath, remarkGfm, remarkCitations] : [remarkMath, remarkGfm]}
                 rehypePlugins={[rehypeKatex]}
+                components={{
+                    sup: ({ node, children }) => {
+                        const citation = node?.properties?.dataCitation;
+                        return citation ? <CitationChip index={Number(citation)} /> : <sup>{children}</sup>;
+                    }
+                }}
             >
                 {cleanContent}
             </ReactMarkdown>
@@ -314,6 +376,24 @@ function NewChatButton({ onNewChat }: { onNewChat?: () => void }) {
     );
 }
 
+// ============ CITATION MODE TOGGLE ============
+function CitationModeButton() {
+    const [citationMode, setCitationMode] = useCitationMode();
+
+    return (
+        <button
+            onClick={() => setCitationMode(!citationMode)}
+            className={`p-2.5 rounded-xl bg-[#202222] border transition-all ${citationMode
+                ? 'border-[#20b8cd]/50 text-[#20b8cd]'
+                : 'border-[#313333] text-gray-400 hover:text-[#20b8cd] hover:border-[#20b8cd]/50'
+                }`}
+            title={citationMode ? "Hide inline citations" : "Show inline citations"}
+        >
+            <Quote className="w-5 h-5" />
+        </button>
+    );
+}
+
 // ============ USER PROFILE HEADER ============
 function UserProfileHeader() {
     const { user } = useUser();
@@ -383,40 +463,87 @@ function WelcomeScreen() {
     );
 }
 
+// ============ BRANCH PICKER ============
+// Steps between sibling versions of a message (edited questions, regenerated answers)
+function BranchPicker() {
+    return (
+        <BranchPickerPrimitive.Root hideWhenSingleBranch className="branch-picker">
+            <BranchPickerPrimitive.Previous className="action-btn" title="Previous version">
+                <ChevronLeft className="w-4 h-4" />
+            </BranchPickerPrimitive.Previous>
+            <span className="branch-picker-count">
+                <BranchPickerPrimitive.Number /> / <BranchPickerPrimitive.Count />
+            </span>
+            <BranchPickerPrimitive.Next className="action-btn" title="Next version">
+                <ChevronRight className="w-4 h-4" />
+            </BranchPickerPrimitive.Next>
+        </BranchPickerPrimitive.Root>
+    );
+}
+
 // ============ USER MESSAGE - RIGHT ALIGNED ============
 function UserMessage() {
+    const id = useAssistantState(({ message }) => message.id);
+
     return (
-        <div className="user-message-wrapper">
+        <div className="user-message-wrapper" data-message-id={id}>
             <div className="message-container">
                 <div className="user-message-row">
                     <div className="user-message-bubble">
                         <MessagePrimitive.Content />
                     </div>
                 </div>
+                <div className="user-message-actions">
+                    <BranchPicker />
+                    <ActionBarPrimitive.Root hideWhenRunning>
+                        <ActionBarPrimitive.Edit className="action-btn" title="Edit">
+                            <Pencil className="w-4 h-4" />
+                        </ActionBarPrimitive.Edit>
+                    </ActionBarPrimitive.Root>
+                </div>
             </div>
         </div>
     );
 }
 
-// ============ ASSISTANT MESSAGE - LEFT ALIGNED ============
-function TextPartWithSources({ text, onSourcesParsed }: { text: string; onSourcesParsed: (sources: Source[]) => void }) {
-    return <MarkdownContent content={text} onSourcesParsed={onSourcesParsed} />;
+// Replaces a user message while it is being edited; sending creates a new
+// branch from that point and leaves the original conversation reachable
+function EditComposer() {
+    return (
+        <div className="user-message-wrapper">
+            <div className="message-container">
+                <ComposerPrimitive.Root className="composer-box edit-composer">
+                    <ComposerPrimitive.Input className="composer-input" autoFocus />
+                    <div className="edit-composer-actions">
+                        <ComposerPrimitive.Cancel className="action-btn" title="Cancel">
+                            <X className="w-4 h-4" />
+                        </ComposerPrimitive.Cancel>
+                        <ComposerPrimitive.Send className="composer-send" title="Send">
+                            <ArrowRight className="w-4 h-4" />
+                        </ComposerPrimitive.Send>
+                    </div>
+                </ComposerPrimitive.Root>
+            </div>
+        </div>
+    );
 }
+
+// ============ ASSISTANT MESSAGE - LEFT ALIGNED ============
 // ============ ACTION BUTTONS ============
-function ActionButtons({ content, sources }: { content: string; sources: Source[] }) {
+function ActionButtons({ messageId, content }: { messageId: string; content: string }) {
+    const sessionId = useContext(ChatSessionContext);
     const [copied, setCopied] = useState(false);
 
     const handleCopy = async () => {
-        const { cleanContent } = parseSourcesFromContent(content);
-        await navigator.clipboard.writeText(cleanContent);
+        await navigator.clipboard.writeText(cleanMarkdown(content));
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
     };
 
+    // Chats not saved yet can only be shared as text
     const handleShare = async () => {
-        const { cleanContent } = parseSourcesFromContent(content);
         if (navigator.share) {
-            await navigator.share({ text: cleanContent });
+            await navigator.share({ text: cleanMarkdown(content) });
         } else {
             handleCopy();
         }
@@ -428,12 +555,15 @@ function ActionButtons({ content, sources }: { content: string; sources: Source[
                 <button onClick={handleCopy} className="action-btn" title="Copy">
                     {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
                 </button>
-                <button onClick={handleShare} className="action-btn" title="Share">
-                    <Share2 className="w-4 h-4" />
-                </button>
+                {sessionId ? (
+                    <ShareMenu sessionId={sessionId} messageId={messageId} />
+                ) : (
+                    <button onClick={handleShare} className="action-btn" title="Share">
+                        <Share2 className="w-4 h-4" />
+                    </button>
+                )}
                 <button className="action-btn" title="Download" onClick={() => {
-                    const { cleanContent } = parseSourcesFromContent(content);
-                    const blob = new Blob([cleanContent], { type: 'text/plain' });
+                    const blob = new Blob([cleanMarkdown(content)], { type: 'text/plain' });
                     const url = URL.createObjectURL(blob);
                     const a = document.createElement('a');
                     a.href = url;
@@ -442,56 +572,140 @@ function ActionButtons({ content, sources }: { content: string; sources: Source[
                 }}>
                     <Download className="w-4 h-4" />
                 </button>
-                <button className="action-btn" title="Regenerate" onClick={() => window.location.reload()}>
-                    <RefreshCw className="w-4 h-4" />
-                </button>
+                <ActionBarPrimitive.Root hideWhenRunning>
+                    <ActionBarPrimitive.Reload className="action-btn" title="Regenerate">
+                        <RefreshCw className="w-4 h-4" />
+                    </ActionBarPrimitive.Reload>
+                </ActionBarPrimitive.Root>
+                <BranchPicker />
             </div>
             <div className="action-buttons-right">
-                {sources.length > 0 && <SourcesButton sources={sources} />}
+                <SourcesButton />
             </div>
         </div>
     );
 }
 
 function AssistantMessage() {
-    const [sources, setSources] = useState<Source[]>([]);
-    const contentRef = useRef("");
-    const sourcesRef = useRef<Source[]>([]);
-
-    // Memoize callback to prevent infinite loops
-    const handleSourcesParsed = (newSources: Source[]) => {
-        if (newSources.length > 0 && sourcesRef.current.length === 0) {
-            sourcesRef.current = newSources;
-            setSources(newSources);
-        }
-    };
+    const id = useAssistantState(({ message }) => message.id);
+    const parts = useAssistantState(({ message }) => message.content);
+    const sources = useMemo(() => sourcesFromParts(parts), [parts]);
+    const content = useMemo(
+        () => parts.map(part => (part.type === "text" ? part.text : "")).join(""),
+        [parts]
+    );
 
     return (
-        <div className="assistant-message-wrapper">
+        <div className="assistant-message-wrapper" data-message-id={id}>
             <div className="message-container">
-                <div className="assistant-message-content">
-                    <div className="answer-header">
-                        <Sparkles className="w-4 h-4" />
-                        <span>Answer</span>
+                <AnswerSourcesProvider sources={sources}>
+                    <div className="assistant-message-content">
+                        <div className="answer-header">
+                            <Sparkles className="w-4 h-4" />
+                            <span>Answer</span>
+                        </div>
+                        <MessagePrimitive.Content
+                            components={{
+                                Text: ({ text }) => <MarkdownContent content={text} />
+                            }}
+                        />
+                        <ToolCards parts={parts} />
+                        <ActionButtons messageId={id} content={content} />
                     </div>
-                    <MessagePrimitive.Content
-                        components={{
-                            Text: ({ text }) => {
-                                contentRef.current = text;
-                                return <TextPartWithSources text={text} onSourcesParsed={handleSourcesParsed} />;
-                            }
-                        }}
-                    />
-                    <ActionButtons content={contentRef.current} sources={sources} />
-                </div>
+                </AnswerSourcesProvider>
             </div>
         </div>
     );
 }
 
 // ============ MESSAGES ============
-function Messages() {
-    return <ThreadPrimitive.Messages components={{ UserMessage, AssistantMessage }} />;
+export interface MessageFocus {
+    messageId: string;
+    // Flash the message too, e.g. when it was opened from search
+    highlight: boolean;
+}
+
+const MESSAGE_COMPONENTS = { UserMessage, AssistantMessage, EditComposer };
+
+interface MessagesProps {
+    viewport: HTMLElement | null;
+    focus?: MessageFocus | null;
+    onFocused?: () => void;
+}
+
+// Virtualized: only messages near the visible part of the viewport are
+// rendered, so long conversations stay fast. Rows are measured as they render.
+function Messages({ viewport, focus, onFocused }: MessagesProps) {
+    const messages = useAssistantState(({ thread }) => thread.messages);
+    const [list, setList] = useState<HTMLDivElement | null>(null);
+
+    const virtualizer = useVirtualizer({
+        count: messages.length,
+        getScrollElement: () => viewport,
+        estimateSize: () => 200,
+        getItemKey: (index) => messages[index]?.id ?? index,
+        overscan: 4,
+        // The list starts below the viewport's padding (and the load button)
+        scrollMargin: list?.offsetTop ?? 0,
+    });
+
+    // Scroll to the focused message once it is in the thread, after the
+    // viewport's own scroll to the bottom on load
+    useEffect(() => {
+        if (!focus) return;
+        const index = messages.findIndex(m => m.id === focus.messageId);
+        if (index === -1) return;
+
+        let frame = 0;
+        let attempts = 0;
+        const flash = () => {
+            const element = list?.querySelector(`[data-message-id="${CSS.escape(focus.messageId)}"]`);
+            if (!element) {
+                if (++attempts < 60) frame = requestAnimationFrame(flash);
+                return;
+            }
+            element.classList.add("message-focused");
+            setTimeout(() => element.classList.remove("message-focused"), 2000);
+            onFocused?.();
+        };
+
+        frame = requestAnimationFrame(() => {
+            virtualizer.scrollToIndex(index, { align: focus.highlight ? "center" : "start" });
+            if (focus.highlight) {
+                frame = requestAnimationFrame(flash);
+            } else {
+                onFocused?.();
+            }
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [focus, messages, virtualizer, list, onFocused]);
+
+    return (
+        <div ref={setList} className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map((row) => (
+                <div
+                    key={row.key}
+                    data-index={row.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute top-0 left-0 w-full"
+                    style={{ transform: `translateY(${row.start - virtualizer.options.scrollMargin}px)` }}
+                >
+                    <ThreadPrimitive.MessageByIndex index={row.index} components={MESSAGE_COMPONENTS} />
+                </div>
+            ))}
+        </div>
+    );
+}
+
+// Older messages of a resumed chat are fetched on request
+function LoadEarlierButton({ isLoading, onLoad }: { isLoading?: boolean; onLoad?: () => void }) {
+    return (
+        <div className="load-earlier">
+            <button className="load-earlier-btn" onClick={onLoad} disabled={isLoading}>
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load earlier messages"}
+            </button>
+        </div>
+    );
 }
 
 // ============ FOLLOW-UP COMPOSER ============
@@ -513,125 +727,46 @@ function Composer() {
     );
 }
 
+// ============ QUOTA BANNER ============
+function QuotaBanner({ notice, onDismiss }: { notice: LimitExceeded; onDismiss?: () => void }) {
+    return (
+        <div className="quota-banner-wrapper">
+            <div className="quota-banner" role="status">
+                <Clock className="w-4 h-4 flex-shrink-0" />
+                <span>{notice.error}</span>
+                <button className="action-btn" title="Dismiss" onClick={onDismiss}>
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+}
+
 // ============ MAIN COMPONENT ============
 interface AtheronChatProps {
-    loadedMessages?: Message[];
-    currentSessionId: string | null;
-    onUserMessage: (content: string) => Promise<string | null>;
-    onAssistantMessage: (content: string, sessionId: string | null) => Promise<void>;
+    sessionId?: string | null;
     onNewChat?: () => void;
+    limitNotice?: LimitExceeded | null;
+    onDismissLimitNotice?: () => void;
+    focusMessage?: MessageFocus | null;
+    onMessageFocused?: () => void;
+    hasEarlierMessages?: boolean;
+    isLoadingEarlier?: boolean;
+    onLoadEarlier?: () => void;
 }
 
 export function AtheronChat({
-    loadedMessages = [],
-    currentSessionId,
-    onUserMessage,
-    onAssistantMessage,
-    onNewChat
+    sessionId = null,
+    onNewChat,
+    limitNotice,
+    onDismissLimitNotice,
+    focusMessage,
+    onMessageFocused,
+    hasEarlierMessages,
+    isLoadingEarlier,
+    onLoadEarlier
 }: AtheronChatProps) {
-    const [sessionId, setSessionId] = useState<string | null>(currentSessionId);
-    const lastSavedAssistantRef = useRef<string>("");
-    const lastSavedUserRef = useRef<string>("");
-    const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-    const userMessageCountRef = useRef(0);
-
-    // Sync session ID from props
-    useEffect(() => {
-        setSessionId(currentSessionId);
-        // Reset refs when session changes
-        lastSavedAssistantRef.current = "";
-        lastSavedUserRef.current = "";
-        userMessageCountRef.current = loadedMessages.filter(m => m.role === 'user').length;
-    }, [currentSessionId, loadedMessages]);
-
-    // Watch for user messages to save them
-    useEffect(() => {
-        // Initial sync to avoid detecting pre-existing messages (like from reloads) as new
-        const initialUserBubbles = document.querySelectorAll('.user-message-bubble');
-        const initialLiveBubbles = Array.from(initialUserBubbles).filter(
-            el => !el.classList.contains('loaded-user-msg')
-        );
-
-        // If we have live bubbles but count is 0 (or less than actual), update count to ignore them
-        if (initialLiveBubbles.length > userMessageCountRef.current) {
-            userMessageCountRef.current = initialLiveBubbles.length;
-            // Also update the last saved ref to the last message content so we don't save it if it triggers
-            const lastText = initialLiveBubbles[initialLiveBubbles.length - 1]?.textContent?.trim() || "";
-            lastSavedUserRef.current = lastText;
-        }
-
-        const checkUserMessage = async () => {
-            const userBubbles = document.querySelectorAll('.user-message-bubble');
-            const liveUserBubbles = Array.from(userBubbles).filter(
-                el => !el.classList.contains('loaded-user-msg')
-            );
-
-            if (liveUserBubbles.length > userMessageCountRef.current) {
-                const lastUserBubble = liveUserBubbles[liveUserBubbles.length - 1];
-                const text = lastUserBubble?.textContent?.trim() || "";
-
-                if (text && text !== lastSavedUserRef.current) {
-                    lastSavedUserRef.current = text;
-                    userMessageCountRef.current = liveUserBubbles.length;
-
-                    // Call parent to save and potentially create session
-                    const newSessionId = await onUserMessage(text);
-                    if (newSessionId && !sessionId) {
-                        setSessionId(newSessionId);
-                    }
-                }
-            }
-        };
-
-        const observer = new MutationObserver(checkUserMessage);
-        observer.observe(document.body, { childList: true, subtree: true });
-
-        return () => observer.disconnect();
-    }, [sessionId, onUserMessage]);
-
-    // Watch for assistant messages to save them (debounced)
-    useEffect(() => {
-        if (!sessionId) return;
-        // Skip observer if viewing loaded history (check current prop value)
-        const hasHistory = loadedMessages.length > 0;
-        if (hasHistory) return;
-
-        const checkAssistantMessage = () => {
-            // Only look at markdown content NOT inside .loaded-history
-            const allMarkdown = document.querySelectorAll('.markdown-content');
-            const liveMarkdown = Array.from(allMarkdown).filter(
-                el => !el.closest('.loaded-history')
-            );
-
-            if (liveMarkdown.length > 0) {
-                const lastContent = liveMarkdown[liveMarkdown.length - 1];
-                const text = lastContent?.textContent?.trim() || "";
-
-                // Debounce save - wait for streaming to complete
-                if (text && text.length > 50 && !text.includes("Hold on")) {
-                    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
-
-                    saveTimeoutRef.current = setTimeout(() => {
-                        if (text !== lastSavedAssistantRef.current) {
-                            lastSavedAssistantRef.current = text;
-                            console.log('[Chat] Saving assistant message to session:', sessionId);
-                            onAssistantMessage(text, sessionId);
-                        }
-                    }, 3000); // Wait 3 seconds after last change
-                }
-            }
-        };
-
-        const observer = new MutationObserver(checkAssistantMessage);
-        observer.observe(document.body, { childList: true, subtree: true });
-
-        return () => {
-            observer.disconnect();
-            if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
-        };
-    }, [sessionId, onAssistantMessage, loadedMessages.length]);
-
-    const hasLoadedMessages = loadedMessages.length > 0;
+    const [viewport, setViewport] = useState<HTMLDivElement | null>(null);
 
     return (
         <>
@@ -644,62 +779,34 @@ export function AtheronChat({
                         <div /> {/* Empty spacer for flex justify-between */}
                         <div className="flex items-center gap-3">
                             <UserProfileHeader />
+                            <CitationModeButton />
                             <NewChatButton onNewChat={onNewChat} />
                         </div>
                     </div>
 
                     {/* Main Content */}
-                    <ThreadPrimitive.Viewport className="messages-viewport">
-                        {/* Display loaded historical messages */}
-                        {hasLoadedMessages && (
-                            <div className="loaded-history">
-                                {loadedMessages.map((msg, index) => (
-                                    msg.role === 'user' ? (
-                                        <div key={msg.id || index} className="user-message-wrapper">
-                                            <div className="message-container">
-                                                <div className="user-message-row">
-                                                    <div className="user-message-bubble loaded-user-msg">
-                                                        {msg.content}
-                                                    </div>
-                                                </div>
-                                            </div>
-                                        </div>
-                                    ) : (
-                                        <div key={msg.id || index} className="assistant-message-wrapper">
-                                            <div className="message-container">
-                                                <div className="assistant-message-content">
-                                                    <div className="answer-header">
-                                                        <Sparkles className="w-4 h-4" />
-                                                        <span>Answer</span>
-                                                    </div>
-                                                    <MarkdownContent content={msg.content} />
-                                                </div>
-                                            </div>
-                                        </div>
-                                    )
-                                ))}
-                            </div>
-                        )}
-
-                        {/* Welcome screen only when no history */}
-                        {!hasLoadedMessages && (
-                            <ThreadPrimitive.Empty>
-                                <WelcomeScreen />
-                            </ThreadPrimitive.Empty>
+                    <ThreadPrimitive.Viewport ref={setViewport} className="messages-viewport">
+                        {/* Welcome screen until the thread has messages */}
+                        <ThreadPrimitive.Empty>
+                            <WelcomeScreen />
+                        </ThreadPrimitive.Empty>
+
+                        {hasEarlierMessages && (
+                            <LoadEarlierButton isLoading={isLoadingEarlier} onLoad={onLoadEarlier} />
                         )}
 
-                        {/* Live messages - only when NOT viewing history */}
-                        {!hasLoadedMessages && <Messages />}
+                        {/* Live and resumed conversations render the same way */}
+                        <ChatSessionContext.Provider value={sessionId}>
+                            <Messages viewport={viewport} focus={focusMessage} onFocused={onMessageFocused} />
+                        </ChatSessionContext.Provider>
                     </ThreadPrimitive.Viewport>
 
-                    {/* Composer - always show for loaded chats, conditional for new */}
-                    {hasLoadedMessages ? (
+                    {limitNotice && <QuotaBanner notice={limitNotice} onDismiss={onDismissLimitNotice} />}
+
+                    {/* Follow-up composer once the thread has started */}
+                    <ThreadPrimitive.If running={false} empty={false}>
                         <Composer />
-                    ) : (
-                        <ThreadPrimitive.If running={false} empty={false}>
-                            <Composer />
-                        </ThreadPrimitive.If>
-                    )}
+                    </ThreadPrimitive.If>
                 </ThreadPrimitive.Root>
             </div>
         </>
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { Calculator, ChevronDown } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import "katex/dist/katex.min.css";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { CalculationSchema, type Quantity } from "@/lib/calculation";
+
+// Plain digits where they read well, scientific notation where they don't
+function formatValue(value: number): string {
+    const magnitude = Math.abs(value);
+    if (value !== 0 && (magnitude < 1e-3 || magnitude >= 1e9)) {
+        return value.toExponential(4).replace(/\.?0+e/, "e");
+    }
+    return value.toLocaleString("en-US", { maximumSignificantDigits: 6 });
+}
+
+function QuantityRows({ heading, quantities }: { heading: string; quantities: Quantity[] }) {
+    if (quantities.length === 0) return null;
+    return (
+        <>
+            <tr>
+                <th colSpan={2} className="tool-card-heading">{heading}</th>
+            </tr>
+            {quantities.map((q, i) => (
+                <tr key={i}>
+                    <td className="tool-card-label">{q.label}</td>
+                    <td className="tool-card-value">
+                        {formatValue(q.value)}{q.unit && <span className="tool-card-unit"> {q.unit}</span>}
+                    </td>
+                </tr>
+            ))}
+        </>
+    );
+}
+
+// One calculator tool call, collapsed to its title until opened
+export function CalculationCard({ result }: { result: unknown }) {
+    const [open, setOpen] = useState(false);
+
+    const parsed = CalculationSchema.safeParse(result);
+    if (!parsed.success) return null;
+    const calculation = parsed.data;
+
+    return (
+        <Collapsible open={open} onOpenChange={setOpen} className="tool-card">
+            <CollapsibleTrigger className="tool-card-trigger">
+                <Calculator className="w-4 h-4" />
+                <span className="tool-card-title">{calculation.title}</span>
+                <ChevronDown className={`w-4 h-4 tool-card-chevron${open ? " open" : ""}`} />
+            </CollapsibleTrigger>
+            <CollapsibleContent className="tool-card-body">
+                <table className="tool-card-table">
+                    <tbody>
+                        <QuantityRows heading="Inputs" quantities={calculation.inputs} />
+                        <QuantityRows heading="Results" quantities={calculation.results} />
+                    </tbody>
+                </table>
+                {calculation.formulas.length > 0 && (
+                    <div className="calculation-formulas">
+                        <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                            {calculation.formulas.map(formula => `$$\n${formula}\n$$`).join("\n\n")}
+                        </ReactMarkdown>
+                    </div>
+                )}
+                {calculation.notes?.map((note, i) => (
+                    <p key={i} className="tool-card-note">{note}</p>
+                ))}
+            </CollapsibleContent>
+        </Collapsible>
+    );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, Telescope } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { EphemerisSchema, type BodyPosition } from "@/lib/ephemeris";
+
+const AU_KM = 149597870.7;
+
+function formatTime(iso: string | null | undefined): string {
+    if (!iso) return "–";
+    return new Date(iso).toLocaleString(undefined, { weekday: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+function formatDate(iso: string): string {
+    return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+// Right ascension as 12h 34m
+function formatRightAscension(hours: number): string {
+    const minutes = Math.round(hours * 60) % 1440;
+    return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function formatDegrees(degrees: number): string {
+    return `${degrees < 0 ? "−" : "+"}${Math.abs(degrees).toFixed(1)}°`;
+}
+
+// The Moon in km, everything else in AU
+function formatDistance(au: number): string {
+    return au < 0.01 ? `${Math.round(au * AU_KM).toLocaleString("en-US")} km` : `${au.toFixed(3)} AU`;
+}
+
+function riseAndSet(position: BodyPosition): [string, string] {
+    if (position.circumpolar === "up") return ["Always up", ""];
+    if (position.circumpolar === "down") return ["Never rises", ""];
+    return [formatTime(position.rise), formatTime(position.set)];
+}
+
+// An ephemeris tool call: a table of where the bodies are, or of the
+// conjunctions and oppositions found, collapsed to its title until opened
+export function EphemerisCard({ result }: { result: unknown }) {
+    const [open, setOpen] = useState(false);
+
+    const parsed = EphemerisSchema.safeParse(result);
+    if (!parsed.success) return null;
+    const { title, time, observer, positions, alignments, notes } = parsed.data;
+
+    return (
+        <Collapsible open={open} onOpenChange={setOpen} className="tool-card">
+            <CollapsibleTrigger className="tool-card-trigger">
+                <Telescope className="w-4 h-4" />
+                <span className="tool-card-title">{title}</span>
+                <ChevronDown className={`w-4 h-4 tool-card-chevron${open ? " open" : ""}`} />
+            </CollapsibleTrigger>
+            <CollapsibleContent className="tool-card-body">
+                {positions && (
+                    <div className="ephemeris-scroll">
+                        <table className="tool-card-table ephemeris-table">
+                            <thead>
+                                <tr>
+                                    <th className="tool-card-heading">{formatDate(time)}</th>
+                                    <th className="tool-card-heading">RA</th>
+                                    <th className="tool-card-heading">Dec</th>
+                                    <th className="tool-card-heading">Distance</th>
+                                    <th className="tool-card-heading">Mag</th>
+                                    {observer && (
+                                        <>
+                                            <th className="tool-card-heading">Alt</th>
+                                            <th className="tool-card-heading">Az</th>
+                                            <th className="tool-card-heading">Rises</th>
+                                            <th className="tool-card-heading">Sets</th>
+                                        </>
+                                    )}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {positions.map(position => {
+                                    const [rise, set] = riseAndSet(position);
+                                    return (
+                                        <tr key={position.name}>
+                                            <td className="tool-card-label">
+                                                {position.name}
+                                                {position.phase && (
+                                                    <span className="tool-card-unit"> {position.phase}, {Math.round(position.illumination * 100)}% lit</span>
+                                                )}
+                                            </td>
+                                            <td className="tool-card-value">{formatRightAscension(position.rightAscension)}</td>
+                                            <td className="tool-card-value">{formatDegrees(position.declination)}</td>
+                                            <td className="tool-card-value">{formatDistance(position.distance)}</td>
+                                            <td className="tool-card-value">{position.magnitude.toFixed(1)}</td>
+                                            {observer && position.altitude !== undefined && (
+                                                <>
+                                                    <td className="tool-card-value">{formatDegrees(position.altitude)}</td>
+                                                    <td className="tool-card-value">{Math.round(position.azimuth ?? 0)}°</td>
+                                                    <td className="tool-card-value">{rise}</td>
+                                                    <td className="tool-card-value">{set}</td>
+                                                </>
+                                            )}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {alignments && (
+                    <table className="tool-card-table">
+                        <tbody>
+                            <tr>
+                                <th colSpan={3} className="tool-card-heading">
+                                    {alignments.length > 0 ? `From ${formatDate(time)}` : "None in this window"}
+                                </th>
+                            </tr>
+                            {alignments.map(alignment => (
+                                <tr key={alignment.time}>
+                                    <td className="tool-card-label">{alignment.event}</td>
+                                    <td className="tool-card-value">{formatDate(alignment.time)}</td>
+                                    <td className="tool-card-value">
+                                        {formatDistance(alignment.distance)}
+                                        <span className="tool-card-unit"> from Earth</span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                {notes?.map((note, i) => (
+                    <p key={i} className="tool-card-note">{note}</p>
+                ))}
+            </CollapsibleContent>
+        </Collapsible>
+    );
+}
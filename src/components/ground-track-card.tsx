@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, Satellite } from "lucide-react";
+import { geoEquirectangular, geoGraticule, geoPath } from "d3-geo";
+import { feature } from "topojson-client";
+import type { GeometryCollection, Topology } from "topojson-specification";
+import land110m from "world-atlas/land-110m.json";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { GroundTrackSchema } from "@/lib/ground-track";
+
+// Equirectangular map, one unit per degree, clipped at the antimeridian
+const MAP_WIDTH = 360;
+const MAP_HEIGHT = 180;
+const projection = geoEquirectangular().scale(180 / Math.PI).translate([MAP_WIDTH / 2, MAP_HEIGHT / 2]);
+const path = geoPath(projection);
+
+// Coastlines at 1:110m and a 30° grid, built once
+let background: { land: string; graticule: string } | null = null;
+function getBackground() {
+    if (background === null) {
+        const topology = land110m as unknown as Topology<{ land: GeometryCollection }>;
+        background = {
+            land: path(feature(topology, topology.objects.land)) ?? "",
+            graticule: path(geoGraticule().step([30, 30])()) ?? "",
+        };
+    }
+    return background;
+}
+
+// Map coordinates of a [longitude, latitude] point
+function point(longitude: number, latitude: number): [number, number] {
+    return projection([longitude, latitude]) ?? [0, 0];
+}
+
+function formatTime(iso: string): string {
+    return new Date(iso).toLocaleString(undefined, { weekday: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+function formatAngle(degrees: number | null): string {
+    return degrees === null ? "–" : `${Math.round(degrees)}°`;
+}
+
+function formatLatLon(latitude: number, longitude: number): string {
+    return `${Math.abs(latitude).toFixed(2)}°${latitude < 0 ? "S" : "N"}, ${Math.abs(longitude).toFixed(2)}°${longitude < 0 ? "W" : "E"}`;
+}
+
+// A satelliteTracker call: the ground track on a world map, where the
+// satellite is, and its passes over the observer when one was given
+export function GroundTrackCard({ result }: { result: unknown }) {
+    const [open, setOpen] = useState(true);
+
+    const parsed = GroundTrackSchema.safeParse(result);
+    if (!parsed.success) return null;
+    const { satellite, position, track, observer, passes, notes } = parsed.data;
+
+    const { land, graticule } = getBackground();
+    const [satelliteX, satelliteY] = point(position.longitude, position.latitude);
+    const [observerX, observerY] = observer ? point(observer.longitude, observer.latitude) : [0, 0];
+
+    return (
+        <Collapsible open={open} onOpenChange={setOpen} className="tool-card">
+            <CollapsibleTrigger className="tool-card-trigger">
+                <Satellite className="w-4 h-4" />
+                <span className="tool-card-title">Ground track: {satellite.name}</span>
+                <ChevronDown className={`w-4 h-4 tool-card-chevron${open ? " open" : ""}`} />
+            </CollapsibleTrigger>
+            <CollapsibleContent className="tool-card-body">
+                <svg
+                    className="ground-track-map"
+                    viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+                    role="img"
+                    aria-label={`Ground track of ${satellite.name}, now over ${formatLatLon(position.latitude, position.longitude)}`}
+                >
+                    <rect className="ground-track-ocean" width={MAP_WIDTH} height={MAP_HEIGHT} />
+                    <path className="ground-track-graticule" d={graticule} />
+                    <path className="ground-track-land" d={land} />
+                    <path className="ground-track-line" d={path({ type: "LineString", coordinates: track }) ?? ""} />
+                    {observer && (
+                        <rect
+                            className="ground-track-observer"
+                            x={observerX - 2.5}
+                            y={observerY - 2.5}
+                            width={5}
+                            height={5}
+                            transform={`rotate(45 ${observerX} ${observerY})`}
+                        />
+                    )}
+                    <circle className="ground-track-satellite" cx={satelliteX} cy={satelliteY} r={3.5} />
+                </svg>
+
+                <table className="tool-card-table">
+                    <tbody>
+                        <tr>
+                            <td className="tool-card-label">Over</td>
+                            <td className="tool-card-value">{formatLatLon(position.latitude, position.longitude)}</td>
+                        </tr>
+                        <tr>
+                            <td className="tool-card-label">Altitude</td>
+                            <td className="tool-card-value">{position.altitude.toLocaleString("en-US")}<span className="tool-card-unit"> km</span></td>
+                        </tr>
+                        <tr>
+                            <td className="tool-card-label">Speed</td>
+                            <td className="tool-card-value">{position.speed.toLocaleString("en-US")}<span className="tool-card-unit"> km/s</span></td>
+                        </tr>
+                        {observer && (
+                            <tr>
+                                <td className="tool-card-label">From the observer</td>
+                                <td className="tool-card-value">
+                                    az {formatAngle(observer.azimuth)}, el {formatAngle(observer.elevation)}
+                                    {observer.elevation < 0 && <span className="tool-card-unit"> (below the horizon)</span>}
+                                </td>
+                            </tr>
+                        )}
+                        <tr>
+                            <td className="tool-card-label">Elements from</td>
+                            <td className="tool-card-value">{formatTime(satellite.epoch)} (NORAD {satellite.noradId})</td>
+                        </tr>
+                    </tbody>
+                </table>
+
+                {passes && (
+                    <table className="tool-card-table">
+                        <tbody>
+                            <tr>
+                                <th colSpan={3} className="tool-card-heading">
+                                    {passes.length > 0 ? "Next passes" : "No passes high enough in this window"}
+                                </th>
+                            </tr>
+                            {passes.map(pass => (
+                                <tr key={pass.culmination}>
+                                    <td className="tool-card-label">
+                                        {pass.rise ? formatTime(pass.rise) : "Up now"}
+                                        {pass.riseAzimuth !== null && <span className="tool-card-unit"> from {formatAngle(pass.riseAzimuth)}</span>}
+                                    </td>
+                                    <td className="tool-card-value">max {formatAngle(pass.maxElevation)}</td>
+                                    <td className="tool-card-value">
+                                        {pass.set ? formatTime(pass.set) : "still up"}
+                                        {pass.setAzimuth !== null && <span className="tool-card-unit"> to {formatAngle(pass.setAzimuth)}</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                {notes?.map((note, i) => (
+                    <p key={i} className="tool-card-note">{note}</p>
+                ))}
+            </CollapsibleContent>
+        </Collapsible>
+    );
+}
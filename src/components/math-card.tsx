@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, Sigma } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import "katex/dist/katex.min.css";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { MathResultSchema } from "@/lib/math-result";
+
+function Formula({ latex }: { latex: string }) {
+    return (
+        <div className="calculation-formulas">
+            <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                {`$$\n${latex}\n$$`}
+            </ReactMarkdown>
+        </div>
+    );
+}
+
+// One math tool call: the problem, each step of the working and the answer,
+// collapsed to its title until opened
+export function MathCard({ result }: { result: unknown }) {
+    const [open, setOpen] = useState(false);
+
+    const parsed = MathResultSchema.safeParse(result);
+    if (!parsed.success) return null;
+    const math = parsed.data;
+
+    return (
+        <Collapsible open={open} onOpenChange={setOpen} className="tool-card">
+            <CollapsibleTrigger className="tool-card-trigger">
+                <Sigma className="w-4 h-4" />
+                <span className="tool-card-title">{math.title}</span>
+                <ChevronDown className={`w-4 h-4 tool-card-chevron${open ? " open" : ""}`} />
+            </CollapsibleTrigger>
+            <CollapsibleContent className="tool-card-body">
+                <p className="tool-card-heading">Problem</p>
+                <Formula latex={math.problem} />
+                {math.steps.map((step, i) => (
+                    <div key={i}>
+                        <p className="tool-card-heading">{step.label}</p>
+                        <Formula latex={step.latex} />
+                    </div>
+                ))}
+                <p className="tool-card-heading">Answer</p>
+                <Formula latex={math.answer.latex} />
+                {math.notes?.map((note, i) => (
+                    <p key={i} className="tool-card-note">{note}</p>
+                ))}
+            </CollapsibleContent>
+        </Collapsible>
+    );
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import * as React from "react"
+import { Loader2 } from "lucide-react"
+
+import {
+    SidebarGroup,
+    SidebarGroupContent,
+    SidebarGroupLabel,
+    SidebarMenu,
+    SidebarMenuItem,
+} from "@/components/ui/sidebar"
+import { searchMessages } from "@/lib/api-client"
+import type { SearchResponse } from "@/lib/schemas"
+
+// Wait for typing to pause before asking the server
+const SEARCH_DELAY_MS = 300
+
+interface MessageSearchResultsProps {
+    query: string
+    onOpenMessage: (sessionId: string, messageId: string) => void
+}
+
+// Messages from any chat matching the sidebar search, best match first
+export function MessageSearchResults({ query, onOpenMessage }: MessageSearchResultsProps) {
+    const [results, setResults] = React.useState<SearchResponse["results"]>([])
+    const [total, setTotal] = React.useState(0)
+    const [nextOffset, setNextOffset] = React.useState<number | null>(null)
+    const [isLoading, setIsLoading] = React.useState(false)
+    const [failed, setFailed] = React.useState(false)
+
+    React.useEffect(() => {
+        const controller = new AbortController()
+        const timer = setTimeout(async () => {
+            setIsLoading(true)
+            try {
+                const page = await searchMessages(query, 0, controller.signal)
+                setResults(page.results)
+                setTotal(page.total)
+                setNextOffset(page.nextOffset)
+                setFailed(false)
+            } catch (error) {
+                if (controller.signal.aborted) return
+                console.error('Error searching messages:', error)
+                setFailed(true)
+            }
+            setIsLoading(false)
+        }, SEARCH_DELAY_MS)
+
+        return () => {
+            clearTimeout(timer)
+            controller.abort()
+        }
+    }, [query])
+
+    const loadMore = async () => {
+        if (nextOffset === null) return
+        setIsLoading(true)
+        try {
+            const page = await searchMessages(query, nextOffset)
+            setResults(prev => [...prev, ...page.results])
+            setTotal(page.total)
+            setNextOffset(page.nextOffset)
+        } catch (error) {
+            console.error('Error searching messages:', error)
+        }
+        setIsLoading(false)
+    }
+
+    return (
+        <SidebarGroup className="px-2 mt-2 group-data-[collapsible=icon]:hidden">
+            <SidebarGroupLabel className="px-3 text-xs font-normal text-sidebar-foreground/60">
+                {`Messages (${total})`}
+            </SidebarGroupLabel>
+            <SidebarGroupContent>
+                <SidebarMenu>
+                    {results.map((hit) => (
+                        <SidebarMenuItem key={hit.message_id}>
+                            <button
+                                onClick={() => onOpenMessage(hit.session_id, hit.message_id)}
+                                className="w-full px-3 py-2 text-left rounded-lg hover:bg-sidebar-accent transition-colors"
+                            >
+                                <span className="block truncate text-xs text-sidebar-foreground/60">
+                                    {hit.session_title}
+                                </span>
+                                <span className="block text-sm line-clamp-2">
+                                    {hit.snippet.map((segment, i) => segment.highlight ? (
+                                        <mark key={i} className="bg-sidebar-primary/40 text-inherit rounded-sm">
+                                            {segment.text}
+                                        </mark>
+                                    ) : (
+                                        <React.Fragment key={i}>{segment.text}</React.Fragment>
+                                    ))}
+                                </span>
+                            </button>
+                        </SidebarMenuItem>
+                    ))}
+                    {isLoading ? (
+                        <div className="px-3 py-3 flex items-center justify-center">
+                            <Loader2 className="size-4 animate-spin text-sidebar-foreground/40" />
+                        </div>
+                    ) : failed ? (
+                        <div className="px-3 py-3 text-sm text-sidebar-foreground/40 text-center">
+                            Search failed
+                        </div>
+                    ) : results.length === 0 ? (
+                        <div className="px-3 py-3 text-sm text-sidebar-foreground/40 text-center">
+                            No matching messages
+                        </div>
+                    ) : nextOffset !== null && (
+                        <button
+                            onClick={loadMore}
+                            className="w-full px-3 py-2 text-sm text-sidebar-foreground/70 rounded-lg hover:bg-sidebar-accent"
+                        >
+                            Load more
+                        </button>
+                    )}
+                </SidebarMenu>
+            </SidebarGroupContent>
+        </SidebarGroup>
+    )
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Opens the print dialog once the page (and its KaTeX fonts) have loaded, so
+// "Export as PDF" lands straight on "Save as PDF"
+export function PrintToolbar() {
+    useEffect(() => {
+        let cancelled = false;
+        document.fonts.ready.then(() => {
+            if (!cancelled) window.print();
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return (
+        <div className="print-toolbar">
+            <button type="button" onClick={() => window.print()}>
+                Print / Save as PDF
+            </button>
+        </div>
+    );
+}
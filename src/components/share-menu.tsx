@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Link2, Loader2, RefreshCw, Share2, Trash2 } from "lucide-react";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getSessionShare, revokeSessionShare, saveSessionShare, shareUrl } from "@/lib/api-client";
+import type { SessionShare } from "@/lib/types";
+
+// How long a new link (or a changed one) stays up, in days; 0 for no expiry
+const EXPIRY_DAYS = [0, 1, 7, 30] as const;
+
+function expiryLabel(days: number): string {
+    if (days === 0) return "Never expires";
+    return days === 1 ? "Expires in 1 day" : `Expires in ${days} days`;
+}
+
+function expiresAt(days: number): string | null {
+    return days === 0 ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function shareStatus(share: SessionShare): string {
+    if (!share.expires_at) return "Public link, never expires";
+    const expiry = new Date(share.expires_at);
+    return expiry <= new Date()
+        ? "Link expired; pick a new expiry to turn it back on"
+        : `Public link until ${expiry.toLocaleDateString()}`;
+}
+
+interface ShareMenuProps {
+    sessionId: string;
+    // The answer the menu was opened from; a new link shows the chat up to it
+    messageId: string;
+}
+
+// Publishes the chat as a read-only page at /share/[token], or manages the
+// link it already has: copy it, move it to this answer, change the expiry, revoke it
+export function ShareMenu({ sessionId, messageId }: ShareMenuProps) {
+    // undefined until loaded; null when the chat isn't shared
+    const [share, setShare] = useState<SessionShare | null | undefined>(undefined);
+    // The selected preset; null when an existing link's expiry matches none of them
+    const [expiryDays, setExpiryDays] = useState<number | null>(7);
+    const [isBusy, setIsBusy] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    const handleOpenChange = async (open: boolean) => {
+        if (!open) return;
+        setCopied(false);
+        try {
+            const current = await getSessionShare(sessionId);
+            setShare(current);
+            setExpiryDays(!current ? 7 : current.expires_at ? null : 0);
+        } catch (error) {
+            console.error("Error fetching share link:", error);
+            setShare(null);
+        }
+    };
+
+    const copyLink = async (link: SessionShare) => {
+        await navigator.clipboard.writeText(shareUrl(link));
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const save = async (changes: Parameters<typeof saveSessionShare>[1], copy = false) => {
+        setIsBusy(true);
+        try {
+            const saved = await saveSessionShare(sessionId, changes);
+            setShare(saved);
+            if (copy) await copyLink(saved);
+        } catch (error) {
+            console.error("Error saving share link:", error);
+        }
+        setIsBusy(false);
+    };
+
+    const revoke = async () => {
+        setIsBusy(true);
+        try {
+            await revokeSessionShare(sessionId);
+            setShare(null);
+        } catch (error) {
+            console.error("Error revoking share link:", error);
+        }
+        setIsBusy(false);
+    };
+
+    const handleExpiryChange = (value: string) => {
+        const days = Number(value);
+        setExpiryDays(days);
+        // An existing link changes straight away; a new one uses it when created
+        if (share) save({ expires_at: expiresAt(days) });
+    };
+
+    return (
+        <DropdownMenu onOpenChange={handleOpenChange}>
+            <DropdownMenuTrigger asChild>
+                <button className="action-btn" title="Share">
+                    {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />}
+                </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="w-64 rounded-lg" side="top" align="start">
+                {share === undefined ? (
+                    <div className="flex justify-center py-3">
+                        <Loader2 className="size-4 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <>
+                        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                            {share ? shareStatus(share) : "Anyone with the link can read this chat up to this answer, without an account"}
+                        </DropdownMenuLabel>
+                        {share ? (
+                            <>
+                                <DropdownMenuItem onSelect={(e) => { e.preventDefault(); copyLink(share); }}>
+                                    {copied ? <Check className="text-green-500" /> : <Link2 className="text-muted-foreground" />}
+                                    <span>{copied ? "Link copied" : "Copy link"}</span>
+                                </DropdownMenuItem>
+                                {share.message_id !== messageId && (
+                                    <DropdownMenuItem disabled={isBusy} onSelect={() => save({ message_id: messageId })}>
+                                        <RefreshCw className="text-muted-foreground" />
+                                        <span>Show the chat up to this answer</span>
+                                    </DropdownMenuItem>
+                                )}
+                            </>
+                        ) : (
+                            <DropdownMenuItem
+                                disabled={isBusy}
+                                onSelect={(e) => {
+                                    e.preventDefault();
+                                    save({ message_id: messageId, expires_at: expiresAt(expiryDays ?? 0) }, true);
+                                }}
+                            >
+                                {copied ? <Check className="text-green-500" /> : <Link2 className="text-muted-foreground" />}
+                                <span>{copied ? "Link copied" : "Create and copy link"}</span>
+                            </DropdownMenuItem>
+                        )}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuRadioGroup value={expiryDays === null ? "" : String(expiryDays)} onValueChange={handleExpiryChange}>
+                            {EXPIRY_DAYS.map(days => (
+                                <DropdownMenuRadioItem
+                                    key={days}
+                                    value={String(days)}
+                                    disabled={isBusy}
+                                    onSelect={(e) => e.preventDefault()}
+                                >
+                                    {expiryLabel(days)}
+                                </DropdownMenuRadioItem>
+                            ))}
+                        </DropdownMenuRadioGroup>
+                        {share && (
+                            <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem variant="destructive" disabled={isBusy} onSelect={revoke}>
+                                    <Trash2 />
+                                    <span>Stop sharing</span>
+                                </DropdownMenuItem>
+                            </>
+                        )}
+                    </>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
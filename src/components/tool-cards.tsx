@@ -0,0 +1,50 @@
+"use client";
+
+import type { ComponentType } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import type { ThreadMessage } from "@assistant-ui/react";
+import { CalculationCard } from "@/components/calculation-card";
+import { EphemerisCard } from "@/components/ephemeris-card";
+import { GroundTrackCard } from "@/components/ground-track-card";
+import { MathCard } from "@/components/math-card";
+
+interface ToolCardType {
+    Card: ComponentType<{ result: unknown }>;
+    // Shown while the tool runs, and before its error message when it fails
+    pending: string;
+    failed: string;
+}
+
+// Tools whose calls are shown under the answer; the rest (e.g. webSearch)
+// only show through what the answer cites
+const TOOL_CARDS: Record<string, ToolCardType> = {
+    orbitalMechanics: { Card: CalculationCard, pending: "Calculating…", failed: "Calculation not possible" },
+    satelliteTracker: { Card: GroundTrackCard, pending: "Tracking satellite…", failed: "Tracking not possible" },
+    ephemeris: { Card: EphemerisCard, pending: "Computing positions…", failed: "Ephemeris not possible" },
+    math: { Card: MathCard, pending: "Calculating…", failed: "Calculation not possible" },
+};
+
+function isToolError(result: unknown): result is { error: string } {
+    return typeof result === "object" && result !== null && typeof (result as { error?: unknown }).error === "string";
+}
+
+// A card for each of the answer's tool calls that has one, in call order
+export function ToolCards({ parts }: { parts: ThreadMessage["content"] }) {
+    return parts.map(part => {
+        if (part.type !== "tool-call") return null;
+        const type = TOOL_CARDS[part.toolName];
+        if (!type) return null;
+
+        if (part.result === undefined || isToolError(part.result)) {
+            return (
+                <div key={part.toolCallId} className="tool-card">
+                    <div className="tool-card-trigger">
+                        {part.result === undefined ? <Loader2 className="w-4 h-4 animate-spin" /> : <AlertCircle className="w-4 h-4" />}
+                        <span>{part.result === undefined ? type.pending : `${type.failed}: ${part.result.error}`}</span>
+                    </div>
+                </div>
+            );
+        }
+        return <type.Card key={part.toolCallId} result={part.result} />;
+    });
+}
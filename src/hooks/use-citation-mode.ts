@@ -0,0 +1,34 @@
+import * as React from "react"
+
+const STORAGE_KEY = "athey:citation-mode"
+
+const listeners = new Set<() => void>()
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  window.addEventListener("storage", listener)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener("storage", listener)
+  }
+}
+
+function getSnapshot() {
+  return window.localStorage.getItem(STORAGE_KEY) === "on"
+}
+
+function getServerSnapshot() {
+  return false
+}
+
+// Whether inline [n] citations are shown as chips, remembered per browser
+export function useCitationMode() {
+  const enabled = React.useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+
+  const setEnabled = React.useCallback((value: boolean) => {
+    window.localStorage.setItem(STORAGE_KEY, value ? "on" : "off")
+    listeners.forEach(listener => listener())
+  }, [])
+
+  return [enabled, setEnabled] as const
+}
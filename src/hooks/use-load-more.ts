@@ -0,0 +1,24 @@
+import * as React from "react"
+
+// Infinite scroll: returns a ref for a marker element at the loading end of a
+// list, and calls onLoadMore whenever that marker is (or stays) in view.
+// onLoadMore should change identity after each page, so a marker that is
+// still visible once the page arrives asks for the next one.
+export function useLoadMore(onLoadMore: (() => void) | undefined, enabled: boolean) {
+  const [marker, setMarker] = React.useState<HTMLElement | null>(null)
+
+  React.useEffect(() => {
+    if (!marker || !enabled || !onLoadMore) return
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMore()
+      },
+      { rootMargin: "200px" }
+    )
+    observer.observe(marker)
+    return () => observer.disconnect()
+  }, [marker, enabled, onLoadMore])
+
+  return setMarker
+}
@@ -0,0 +1,102 @@
+import * as React from "react"
+import { listSessions } from "@/lib/api-client"
+import { compareSessions } from "@/lib/pagination"
+import type { ChatSession } from "@/lib/types"
+
+interface SessionListOptions {
+  // Which view this is: archived chats or everything else
+  archived: boolean
+  // Wait for sign-in (or for the view to be opened) before loading
+  enabled?: boolean
+}
+
+// One view of the user's chats, loaded a page at a time as the list is scrolled.
+// Local changes are merged in place so pages already loaded stay put.
+export function useSessionList({ archived, enabled = true }: SessionListOptions) {
+  const [sessions, setSessions] = React.useState<ChatSession[]>([])
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false)
+
+  // Add or replace sessions, dropping ones that no longer belong in this view
+  const merge = React.useCallback((changed: ChatSession[]) => {
+    setSessions(prev => {
+      const byId = new Map(prev.map(session => [session.id, session]))
+      for (const session of changed) {
+        if (session.archived === archived) byId.set(session.id, session)
+        else byId.delete(session.id)
+      }
+      return [...byId.values()].sort(compareSessions)
+    })
+  }, [archived])
+
+  // First page
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let cancelled = false
+    listSessions({ archived })
+      .then(page => {
+        if (cancelled) return
+        setSessions(page.sessions)
+        setNextCursor(page.nextCursor)
+      })
+      .catch(error => console.error('Error fetching chat sessions:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [archived, enabled])
+
+  const loadMore = React.useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return
+
+    setIsLoadingMore(true)
+    try {
+      const page = await listSessions({ archived, cursor: nextCursor })
+      merge(page.sessions)
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Error fetching chat sessions:', error)
+    }
+    setIsLoadingMore(false)
+  }, [archived, nextCursor, isLoadingMore, merge])
+
+  // Pick up titles and ordering the server changed. Only the first page can
+  // have changed (activity moves a chat to the top), so the cursor into the
+  // rest of the list stays valid.
+  const refresh = React.useCallback(async () => {
+    try {
+      merge((await listSessions({ archived })).sessions)
+    } catch (error) {
+      console.error('Error fetching chat sessions:', error)
+    }
+  }, [archived, merge])
+
+  const update = React.useCallback((session: ChatSession) => merge([session]), [merge])
+
+  // New sessions that can sort anywhere (imported ones keep their dates).
+  // Ones past the pages loaded so far are left for loadMore to bring in.
+  const insert = React.useCallback((added: ChatSession[]) => {
+    const last = sessions[sessions.length - 1]
+    merge(nextCursor && last ? added.filter(session => compareSessions(session, last) < 0) : added)
+  }, [sessions, nextCursor, merge])
+
+  const remove = React.useCallback((sessionId: string) => {
+    setSessions(prev => prev.filter(session => session.id !== sessionId))
+  }, [])
+
+  return {
+    sessions,
+    isLoading,
+    isLoadingMore,
+    hasMore: nextCursor !== null,
+    loadMore,
+    refresh,
+    update,
+    insert,
+    remove,
+  }
+}
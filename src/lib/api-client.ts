@@ -0,0 +1,222 @@
+import { z } from 'zod';
+import type { ChatSession, Message, SessionShare } from './types';
+import type { Source } from './sources';
+import {
+    ApiErrorSchema,
+    ChatSessionSchema,
+    DeleteSessionResponseSchema,
+    ImportResponseSchema,
+    LimitExceededSchema,
+    MessagePageSchema,
+    MessageSchema,
+    SearchResponseSchema,
+    SessionPageSchema,
+    SessionShareSchema,
+    ShareResponseSchema,
+    UsageSummarySchema,
+    type ApiErrorBody,
+    type CreateMessageRequest,
+    type CreateSessionRequest,
+    type ExportFormat,
+    type ImportResponse,
+    type UpdateSessionRequest,
+    type LimitExceeded,
+    type SaveShareRequest,
+    type MessagePage,
+    type SearchResponse,
+    type SessionPage,
+    type UsageSummary,
+} from './schemas';
+
+// =============================================
+// API CLIENT
+// =============================================
+// Browser-side access to chat data. Everything goes through the authenticated
+// Next.js API routes; the browser never talks to Supabase directly. Responses
+// are checked against the schemas in ./schemas before they reach the UI.
+
+export class ApiError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string,
+        public readonly issues: NonNullable<ApiErrorBody['issues']> = []
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+async function request<T extends z.ZodType>(url: string, schema: T, init?: RequestInit): Promise<z.output<T>> {
+    const res = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+    const body = await res.json().catch(() => null);
+
+    if (!res.ok) {
+        const error = ApiErrorSchema.safeParse(body);
+        throw error.success
+            ? new ApiError(res.status, error.data.error, error.data.issues)
+            : new ApiError(res.status, res.statusText);
+    }
+
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+        throw new ApiError(res.status, `Unexpected response from ${url}`);
+    }
+    return parsed.data;
+}
+
+function jsonBody<T>(body: T): string {
+    return JSON.stringify(body);
+}
+
+// The chat runtime reports a failed /api/chat response as an Error whose
+// message is the response body; pick out rate limit and quota rejections
+export function parseLimitExceeded(error: unknown): LimitExceeded | null {
+    if (!(error instanceof Error)) return null;
+
+    try {
+        const parsed = LimitExceededSchema.safeParse(JSON.parse(error.message));
+        return parsed.success ? parsed.data : null;
+    } catch {
+        return null;
+    }
+}
+
+// =============================================
+// SESSIONS
+// =============================================
+
+// Query string for the given parameters, leaving out unset ones
+function query(params: Record<string, string | number | boolean | null | undefined>): string {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null) search.set(key, String(value));
+    }
+    const text = search.toString();
+    return text ? `?${text}` : '';
+}
+
+export interface ListSessionsOptions {
+    archived?: boolean;
+    // nextCursor of the previous page
+    cursor?: string | null;
+    limit?: number;
+}
+
+// One page of the list: pinned first, then most recently updated
+export function listSessions(options: ListSessionsOptions = {}): Promise<SessionPage> {
+    return request(`/api/sessions${query({ ...options })}`, SessionPageSchema);
+}
+
+export function createSession(title?: string): Promise<ChatSession> {
+    return request('/api/sessions', ChatSessionSchema, {
+        method: 'POST',
+        body: jsonBody<CreateSessionRequest>({ title }),
+    });
+}
+
+export function updateSession(sessionId: string, changes: UpdateSessionRequest): Promise<ChatSession> {
+    return request(`/api/sessions/${encodeURIComponent(sessionId)}`, ChatSessionSchema, {
+        method: 'PATCH',
+        body: jsonBody<UpdateSessionRequest>(changes),
+    });
+}
+
+// Swaps the placeholder title for a generated one after the first exchange;
+// returns the session unchanged if it was already titled or renamed
+export function generateSessionTitle(sessionId: string): Promise<ChatSession> {
+    return request(`/api/sessions/${encodeURIComponent(sessionId)}/title`, ChatSessionSchema, {
+        method: 'POST',
+    });
+}
+
+export function deleteSession(sessionId: string): Promise<{ success: true }> {
+    return request(`/api/sessions?id=${encodeURIComponent(sessionId)}`, DeleteSessionResponseSchema, {
+        method: 'DELETE',
+    });
+}
+
+// Uploads an archive file as is: one of our JSON exports or a ChatGPT conversations.json
+export function importSessions(archive: File): Promise<ImportResponse> {
+    return request('/api/sessions/import', ImportResponseSchema, {
+        method: 'POST',
+        body: archive,
+    });
+}
+
+// Downloads are plain navigations, so these return URLs rather than fetching
+export function sessionExportUrl(sessionId: string, format: ExportFormat): string {
+    return `/api/sessions/${encodeURIComponent(sessionId)}/export${query({ format })}`;
+}
+
+// The PDF export: a printable page that opens the print dialog
+export function sessionPrintUrl(sessionId: string): string {
+    return `/sessions/${encodeURIComponent(sessionId)}/print`;
+}
+
+// =============================================
+// MESSAGES
+// =============================================
+
+// The latest messages; pass nextCursor back for the ones before them
+export function getSessionMessages(sessionId: string, cursor?: string | null): Promise<MessagePage> {
+    return request(`/api/sessions/${encodeURIComponent(sessionId)}/messages${query({ cursor })}`, MessagePageSchema);
+}
+
+export function saveSessionMessage(
+    sessionId: string,
+    role: Message['role'],
+    content: string,
+    sources: Source[] = [],
+    parentId: string | null = null
+): Promise<Message> {
+    return request(`/api/sessions/${encodeURIComponent(sessionId)}/messages`, MessageSchema, {
+        method: 'POST',
+        body: jsonBody<CreateMessageRequest>({ role, content, sources, parent_id: parentId }),
+    });
+}
+
+// =============================================
+// SHARE LINKS
+// =============================================
+
+export async function getSessionShare(sessionId: string): Promise<SessionShare | null> {
+    const { share } = await request(`/api/sessions/${encodeURIComponent(sessionId)}/share`, ShareResponseSchema);
+    return share;
+}
+
+// Creates the link, or changes the message it ends at and its expiry
+export function saveSessionShare(sessionId: string, changes: SaveShareRequest): Promise<SessionShare> {
+    return request(`/api/sessions/${encodeURIComponent(sessionId)}/share`, SessionShareSchema, {
+        method: 'PUT',
+        body: jsonBody<SaveShareRequest>(changes),
+    });
+}
+
+export function revokeSessionShare(sessionId: string): Promise<{ success: true }> {
+    return request(`/api/sessions/${encodeURIComponent(sessionId)}/share`, DeleteSessionResponseSchema, {
+        method: 'DELETE',
+    });
+}
+
+export function shareUrl(share: SessionShare): string {
+    return `${window.location.origin}/share/${encodeURIComponent(share.token)}`;
+}
+
+// =============================================
+// SEARCH
+// =============================================
+
+export function searchMessages(q: string, offset = 0, signal?: AbortSignal): Promise<SearchResponse> {
+    return request(`/api/search${query({ q, offset })}`, SearchResponseSchema, { signal });
+}
+
+// =============================================
+// USAGE
+// =============================================
+
+export function getUsage(): Promise<UsageSummary> {
+    return request('/api/usage', UsageSummarySchema);
+}
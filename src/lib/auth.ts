@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getChatStore } from './store';
+import type { ChatSession } from './types';
+
+// =============================================
+// AUTHORIZATION
+// =============================================
+// Every session and message route starts with one of these helpers. They
+// return either the caller's identity or the response to send back, so a
+// route can bail out with `if (!authz.ok) return authz.response`.
+
+export type Authorized<T> = ({ ok: true } & T) | { ok: false; response: NextResponse };
+
+// Ensure user exists in the chat store, synced with Clerk
+export async function ensureUser(clerkId: string): Promise<string> {
+    const existingUser = await getChatStore().getUserByClerkId(clerkId);
+    if (existingUser) return existingUser.id;
+
+    const user = await currentUser();
+    const newUser = await getChatStore().createUser({
+        clerk_id: clerkId,
+        email: user?.emailAddresses?.[0]?.emailAddress || null,
+        name: user?.firstName ? `${user.firstName} ${user.lastName || ''}`.trim() : null,
+        avatar_url: user?.imageUrl || null,
+    });
+    return newUser.id;
+}
+
+// Require a signed-in Clerk user and resolve their database id
+export async function authorizeUser(): Promise<Authorized<{ userId: string }>> {
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+        return { ok: false, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+    }
+
+    return { ok: true, userId: await ensureUser(clerkId) };
+}
+
+// Require that the signed-in user owns the session. Sessions owned by someone
+// else get the same 404 as missing ones, so ids can't be probed.
+export async function authorizeSession(sessionId: string): Promise<Authorized<{ userId: string; session: ChatSession }>> {
+    const user = await authorizeUser();
+    if (!user.ok) return user;
+
+    const session = await getChatStore().getChatSession(sessionId);
+    if (!session || session.user_id !== user.userId) {
+        return { ok: false, response: NextResponse.json({ error: 'Session not found' }, { status: 404 }) };
+    }
+
+    return { ok: true, userId: user.userId, session };
+}
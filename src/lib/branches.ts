@@ -0,0 +1,52 @@
+import type { Message } from './types';
+
+// Messages in a session form a tree through parent_id: editing a question or
+// regenerating an answer adds a sibling instead of replacing the original.
+
+// Sessions stored before branching existed have no parents at all; treat
+// them as the linear conversation they were
+export function withParents(messages: Message[]): Message[] {
+    if (messages.some(m => m.parent_id !== null)) return messages;
+    return messages.map((m, i) => ({ ...m, parent_id: i > 0 ? messages[i - 1].id : null }));
+}
+
+// The newest message ends the branch the user last saw
+export function getHeadMessage(messages: Message[]): Message | undefined {
+    return messages.reduce<Message | undefined>(
+        (latest, m) => (!latest || m.created_at > latest.created_at ? m : latest),
+        undefined
+    );
+}
+
+// The path from the root to `messageId`; empty if it isn't one of the messages
+export function getBranchTo(messages: Message[], messageId: string): Message[] {
+    const linked = withParents(messages);
+    const byId = new Map(linked.map(m => [m.id, m]));
+
+    const branch: Message[] = [];
+    for (let m = byId.get(messageId); m; m = m.parent_id ? byId.get(m.parent_id) : undefined) {
+        branch.unshift(m);
+    }
+    return branch;
+}
+
+// The path from the root to the newest message
+export function getActiveBranch(messages: Message[]): Message[] {
+    const head = getHeadMessage(messages);
+    return head ? getBranchTo(messages, head.id) : [];
+}
+
+// The newest message on any branch through `messageId`, so a message opened
+// from search is shown along with its latest follow-ups
+export function getHeadThrough(messages: Message[], messageId: string): Message | undefined {
+    const linked = withParents(messages);
+    const byId = new Map(linked.map(m => [m.id, m]));
+
+    const passesThrough = (start: Message): boolean => {
+        for (let m: Message | undefined = start; m; m = m.parent_id ? byId.get(m.parent_id) : undefined) {
+            if (m.id === messageId) return true;
+        }
+        return false;
+    };
+    return getHeadMessage(linked.filter(passesThrough));
+}
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// =============================================
+// CALCULATIONS
+// =============================================
+// What calculator tools (see ./tools) return: the numbers that went in and
+// came out, and the formulas in between. The model quotes the results; the
+// chat shows the whole thing as a card under the answer.
+
+export const QuantitySchema = z.object({
+    label: z.string(),
+    value: z.number(),
+    // Empty for dimensionless values
+    unit: z.string(),
+});
+
+export type Quantity = z.infer<typeof QuantitySchema>;
+
+export const CalculationSchema = z.object({
+    title: z.string(),
+    inputs: z.array(QuantitySchema),
+    results: z.array(QuantitySchema),
+    // LaTeX, one equation each
+    formulas: z.array(z.string()),
+    notes: z.array(z.string()).optional(),
+});
+
+export type Calculation = z.infer<typeof CalculationSchema>;
+
+// A calculation, or why it couldn't be done (e.g. an orbit below the surface)
+export const CalculationResultSchema = z.union([
+    CalculationSchema,
+    z.object({ error: z.string() }),
+]);
+
+export type CalculationResult = z.infer<typeof CalculationResultSchema>;
+
+// Enough digits for any engineering answer, without float noise
+export function quantity(label: string, value: number, unit = ''): Quantity {
+    return { label, value: Number(value.toPrecision(6)), unit };
+}
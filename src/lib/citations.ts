@@ -0,0 +1,67 @@
+// =============================================
+// INLINE CITATIONS
+// =============================================
+// Answers cite sources with `[n]` markers that point at `sources[n - 1]`.
+// The remark plugin turns each marker in plain text into a <sup data-citation="n">
+// element (code and math are left alone) so the renderer can draw a chip for it.
+
+interface MarkdownNode {
+    type: string;
+    value?: string;
+    children?: MarkdownNode[];
+    data?: Record<string, unknown>;
+}
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+const HAS_CITATION = /\[\d+\]/;
+
+function citationNode(index: number): MarkdownNode {
+    return {
+        type: 'citation',
+        data: {
+            hName: 'sup',
+            hProperties: { dataCitation: index },
+            hChildren: [{ type: 'text', value: String(index) }],
+        },
+    };
+}
+
+function splitCitations(value: string): MarkdownNode[] {
+    const nodes: MarkdownNode[] = [];
+    let lastIndex = 0;
+
+    for (const match of value.matchAll(CITATION_PATTERN)) {
+        const start = match.index ?? 0;
+        if (start > lastIndex) {
+            nodes.push({ type: 'text', value: value.slice(lastIndex, start) });
+        }
+        nodes.push(citationNode(Number(match[1])));
+        lastIndex = start + match[0].length;
+    }
+
+    if (lastIndex < value.length) {
+        nodes.push({ type: 'text', value: value.slice(lastIndex) });
+    }
+    return nodes;
+}
+
+function transform(node: MarkdownNode) {
+    if (!node.children) return;
+
+    node.children = node.children.flatMap(child => {
+        if (child.type === 'text' && child.value && HAS_CITATION.test(child.value)) {
+            return splitCitations(child.value);
+        }
+        transform(child);
+        return [child];
+    });
+}
+
+export function remarkCitations() {
+    return (tree: MarkdownNode) => transform(tree);
+}
+
+// Remove citation markers entirely, for plain-text output and when citation mode is off
+export function stripCitations(content: string): string {
+    return content.replace(CITATION_PATTERN, '');
+}
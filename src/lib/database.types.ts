@@ -0,0 +1,273 @@
+// Generated by scripts/generate-db-types.mjs from supabase/migrations.
+// Do not edit by hand: change the migrations and run `npm run db:types`.
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+    public: {
+        Tables: {
+            chat_sessions: {
+                Row: {
+                    id: string;
+                    user_id: string;
+                    title: string;
+                    created_at: string;
+                    updated_at: string;
+                    pinned: boolean;
+                    archived: boolean;
+                };
+                Insert: {
+                    id?: string;
+                    user_id: string;
+                    title?: string;
+                    created_at?: string;
+                    updated_at?: string;
+                    pinned?: boolean;
+                    archived?: boolean;
+                };
+                Update: {
+                    id?: string;
+                    user_id?: string;
+                    title?: string;
+                    created_at?: string;
+                    updated_at?: string;
+                    pinned?: boolean;
+                    archived?: boolean;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "chat_sessions_user_id_fkey";
+                        columns: ["user_id"];
+                        isOneToOne: false;
+                        referencedRelation: "users";
+                        referencedColumns: ["id"];
+                    },
+                ];
+            };
+            messages: {
+                Row: {
+                    id: string;
+                    session_id: string;
+                    role: "user" | "assistant";
+                    content: string;
+                    sources: Json | null;
+                    created_at: string;
+                    parent_id: string | null;
+                    tool_calls: Json | null;
+                };
+                Insert: {
+                    id?: string;
+                    session_id: string;
+                    role: "user" | "assistant";
+                    content: string;
+                    sources?: Json | null;
+                    created_at?: string;
+                    parent_id?: string | null;
+                    tool_calls?: Json | null;
+                };
+                Update: {
+                    id?: string;
+                    session_id?: string;
+                    role?: "user" | "assistant";
+                    content?: string;
+                    sources?: Json | null;
+                    created_at?: string;
+                    parent_id?: string | null;
+                    tool_calls?: Json | null;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "messages_session_id_fkey";
+                        columns: ["session_id"];
+                        isOneToOne: false;
+                        referencedRelation: "chat_sessions";
+                        referencedColumns: ["id"];
+                    },
+                    {
+                        foreignKeyName: "messages_parent_id_fkey";
+                        columns: ["parent_id"];
+                        isOneToOne: false;
+                        referencedRelation: "messages";
+                        referencedColumns: ["id"];
+                    },
+                ];
+            };
+            rate_limit_counters: {
+                Row: {
+                    key: string;
+                    window_start: string;
+                    count: number;
+                    expires_at: string;
+                };
+                Insert: {
+                    key: string;
+                    window_start: string;
+                    count?: number;
+                    expires_at: string;
+                };
+                Update: {
+                    key?: string;
+                    window_start?: string;
+                    count?: number;
+                    expires_at?: string;
+                };
+                Relationships: [];
+            };
+            session_shares: {
+                Row: {
+                    session_id: string;
+                    token: string;
+                    message_id: string;
+                    created_at: string;
+                    expires_at: string | null;
+                };
+                Insert: {
+                    session_id: string;
+                    token: string;
+                    message_id: string;
+                    created_at?: string;
+                    expires_at?: string | null;
+                };
+                Update: {
+                    session_id?: string;
+                    token?: string;
+                    message_id?: string;
+                    created_at?: string;
+                    expires_at?: string | null;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "session_shares_session_id_fkey";
+                        columns: ["session_id"];
+                        isOneToOne: false;
+                        referencedRelation: "chat_sessions";
+                        referencedColumns: ["id"];
+                    },
+                    {
+                        foreignKeyName: "session_shares_message_id_fkey";
+                        columns: ["message_id"];
+                        isOneToOne: false;
+                        referencedRelation: "messages";
+                        referencedColumns: ["id"];
+                    },
+                ];
+            };
+            usage_records: {
+                Row: {
+                    id: string;
+                    user_id: string;
+                    session_id: string | null;
+                    model: string;
+                    prompt_tokens: number;
+                    completion_tokens: number;
+                    total_tokens: number;
+                    latency_ms: number;
+                    cost_usd: number;
+                    finish_reason: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    user_id: string;
+                    session_id?: string | null;
+                    model: string;
+                    prompt_tokens?: number;
+                    completion_tokens?: number;
+                    total_tokens?: number;
+                    latency_ms: number;
+                    cost_usd?: number;
+                    finish_reason?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    user_id?: string;
+                    session_id?: string | null;
+                    model?: string;
+                    prompt_tokens?: number;
+                    completion_tokens?: number;
+                    total_tokens?: number;
+                    latency_ms?: number;
+                    cost_usd?: number;
+                    finish_reason?: string | null;
+                    created_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "usage_records_user_id_fkey";
+                        columns: ["user_id"];
+                        isOneToOne: false;
+                        referencedRelation: "users";
+                        referencedColumns: ["id"];
+                    },
+                    {
+                        foreignKeyName: "usage_records_session_id_fkey";
+                        columns: ["session_id"];
+                        isOneToOne: false;
+                        referencedRelation: "chat_sessions";
+                        referencedColumns: ["id"];
+                    },
+                ];
+            };
+            users: {
+                Row: {
+                    id: string;
+                    clerk_id: string;
+                    email: string | null;
+                    name: string | null;
+                    avatar_url: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    clerk_id: string;
+                    email?: string | null;
+                    name?: string | null;
+                    avatar_url?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    clerk_id?: string;
+                    email?: string | null;
+                    name?: string | null;
+                    avatar_url?: string | null;
+                    created_at?: string;
+                };
+                Relationships: [];
+            };
+        };
+        Views: { [_ in never]: never };
+        Functions: {
+            increment_rate_limit: {
+                Args: {
+                    counter_key: string;
+                    counter_window_start: string;
+                    counter_expires_at: string;
+                    amount: number;
+                };
+                Returns: number;
+            };
+            search_messages: {
+                Args: {
+                    search_user_id: string;
+                    search_query: string;
+                    result_limit: number;
+                    result_offset: number;
+                };
+                Returns: {
+                    message_id: string;
+                    session_id: string;
+                    session_title: string;
+                    role: string;
+                    created_at: string;
+                    rank: number;
+                    snippet: string;
+                    total_count: number;
+                }[];
+            };
+        };
+        Enums: { [_ in never]: never };
+        CompositeTypes: { [_ in never]: never };
+    };
+};
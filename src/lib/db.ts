@@ -1,55 +1,43 @@
-import { supabase, User, ChatSession, Message } from './supabase'
-export type { ChatSession } from './supabase'
+import 'server-only'
+import { getChatStore } from './store'
+import { User, ChatSession, Message } from './types'
+import { Source } from './sources'
+import { ToolCall } from './tool-calls'
+import { estimateCost } from './usage'
+export type { ChatSession } from './types'
 
 // =============================================
 // USER FUNCTIONS
 // =============================================
 
 export async function getOrCreateUser(clerkId: string, email: string, name?: string, avatarUrl?: string): Promise<User | null> {
-    // First, try to find existing user
-    const { data: existingUser, error: findError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('clerk_id', clerkId)
-        .single()
-
-    if (existingUser) {
-        return existingUser as User
-    }
-
-    // Create new user if not found
-    const { data: newUser, error: createError } = await supabase
-        .from('users')
-        .insert({
+    try {
+        // First, try to find existing user
+        const existingUser = await getChatStore().getUserByClerkId(clerkId)
+        if (existingUser) {
+            return existingUser
+        }
+
+        // Create new user if not found
+        return await getChatStore().createUser({
             clerk_id: clerkId,
             email,
             name: name || null,
             avatar_url: avatarUrl || null,
         })
-        .select()
-        .single()
-
-    if (createError) {
-        console.error('Error creating user:', createError)
+    } catch (error) {
+        console.error('Error creating user:', error)
         return null
     }
-
-    return newUser as User
 }
 
 export async function getUserByClerkId(clerkId: string): Promise<User | null> {
-    const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('clerk_id', clerkId)
-        .single()
-
-    if (error) {
+    try {
+        return await getChatStore().getUserByClerkId(clerkId)
+    } catch (error) {
         console.error('Error fetching user:', error)
         return null
     }
-
-    return data as User
 }
 
 // =============================================
@@ -57,108 +45,132 @@ export async function getUserByClerkId(clerkId: string): Promise<User | null> {
 // =============================================
 
 export async function createChatSession(userId: string, title: string = 'New Chat'): Promise<ChatSession | null> {
-    const { data, error } = await supabase
-        .from('chat_sessions')
-        .insert({
-            user_id: userId,
-            title,
-        })
-        .select()
-        .single()
-
-    if (error) {
+    try {
+        return await getChatStore().createChatSession(userId, title)
+    } catch (error) {
         console.error('Error creating chat session:', error)
         return null
     }
-
-    return data as ChatSession
 }
 
 export async function getChatSessions(userId: string): Promise<ChatSession[]> {
-    const { data, error } = await supabase
-        .from('chat_sessions')
-        .select('*')
-        .eq('user_id', userId)
-        .order('updated_at', { ascending: false })
-
-    if (error) {
+    try {
+        return await getChatStore().listChatSessions(userId)
+    } catch (error) {
         console.error('Error fetching chat sessions:', error)
         return []
     }
-
-    return data as ChatSession[]
 }
 
 export async function updateChatSessionTitle(sessionId: string, title: string): Promise<boolean> {
-    const { error } = await supabase
-        .from('chat_sessions')
-        .update({ title, updated_at: new Date().toISOString() })
-        .eq('id', sessionId)
-
-    if (error) {
+    try {
+        await getChatStore().updateChatSession(sessionId, { title, updated_at: new Date().toISOString() })
+        return true
+    } catch (error) {
         console.error('Error updating chat session title:', error)
         return false
     }
-
-    return true
 }
 
 export async function deleteChatSession(sessionId: string): Promise<boolean> {
-    const { error } = await supabase
-        .from('chat_sessions')
-        .delete()
-        .eq('id', sessionId)
-
-    if (error) {
+    try {
+        await getChatStore().deleteChatSession(sessionId)
+        return true
+    } catch (error) {
         console.error('Error deleting chat session:', error)
         return false
     }
-
-    return true
 }
 
 // =============================================
 // MESSAGE FUNCTIONS
 // =============================================
 
-export async function saveMessage(sessionId: string, role: 'user' | 'assistant', content: string): Promise<Message | null> {
-    const { data, error } = await supabase
-        .from('messages')
-        .insert({
+// Messages form a tree per session: parentId is the message this one follows
+// (null for the first), so regenerated answers and edited questions become
+// siblings. Pass id to store the message under the id the chat UI already uses.
+export async function saveMessage(
+    sessionId: string,
+    role: 'user' | 'assistant',
+    content: string,
+    sources: Source[] = [],
+    options: { id?: string; parentId?: string | null; toolCalls?: ToolCall[] } = {}
+): Promise<Message | null> {
+    try {
+        const message = await getChatStore().createMessage({
+            id: options.id,
             session_id: sessionId,
+            parent_id: options.parentId ?? null,
             role,
             content,
+            sources: sources.length > 0 ? sources : null,
+            tool_calls: options.toolCalls?.length ? options.toolCalls : null,
         })
-        .select()
-        .single()
 
-    if (error) {
+        // Update session's updated_at timestamp
+        await getChatStore().updateChatSession(sessionId, { updated_at: new Date().toISOString() })
+
+        return message
+    } catch (error) {
         console.error('Error saving message:', error)
         return null
     }
-
-    // Update session's updated_at timestamp
-    await supabase
-        .from('chat_sessions')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', sessionId)
-
-    return data as Message
 }
 
 export async function getMessages(sessionId: string): Promise<Message[]> {
-    const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('session_id', sessionId)
-        .order('created_at', { ascending: true })
-
-    if (error) {
+    try {
+        return await getChatStore().listMessages(sessionId)
+    } catch (error) {
         console.error('Error fetching messages:', error)
         return []
     }
+}
+
+// A session is new until its first message is saved, and only a new session
+// takes its title from the question. On error it counts as not new, so a
+// title the user chose is never overwritten.
+export async function isNewChatSession(sessionId: string): Promise<boolean> {
+    try {
+        return !(await getChatStore().hasMessages(sessionId))
+    } catch (error) {
+        console.error('Error checking for messages:', error)
+        return false
+    }
+}
 
-    return data as Message[]
+// =============================================
+// USAGE FUNCTIONS
+// =============================================
+
+interface UsageEntry {
+    userId: string
+    sessionId: string | null
+    model: string
+    promptTokens: number
+    completionTokens: number
+    latencyMs: number
+    finishReason: string | null
+}
+
+// Write one completed chat request to the usage ledger, with its estimated cost
+export async function recordUsage(entry: UsageEntry): Promise<boolean> {
+    try {
+        await getChatStore().createUsageRecord({
+            user_id: entry.userId,
+            session_id: entry.sessionId,
+            model: entry.model,
+            prompt_tokens: entry.promptTokens,
+            completion_tokens: entry.completionTokens,
+            total_tokens: entry.promptTokens + entry.completionTokens,
+            latency_ms: Math.round(entry.latencyMs),
+            cost_usd: estimateCost(entry.model, entry.promptTokens, entry.completionTokens),
+            finish_reason: entry.finishReason,
+        })
+        return true
+    } catch (error) {
+        console.error('Error recording usage:', error)
+        return false
+    }
 }
 
 // =============================================
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+
+// =============================================
+// EPHEMERIDES
+// =============================================
+// What the ephemeris tool (see ./tools) returns: where the Sun, Moon and
+// planets are in the sky, and when they line up. The chat shows it as a table
+// card under the answer; the model gets the same numbers to quote.
+
+export const BodyPositionSchema = z.object({
+    name: z.string(),
+    // Hours and degrees, equinox of date
+    rightAscension: z.number(),
+    declination: z.number(),
+    // From Earth, AU
+    distance: z.number(),
+    magnitude: z.number(),
+    // Degrees from the Sun, and the lit fraction of the disc (0-1)
+    elongation: z.number(),
+    illumination: z.number(),
+    // The Moon's phase, e.g. "Waxing gibbous"
+    phase: z.string().optional(),
+    // From the observer, degrees, when one was given
+    azimuth: z.number().optional(),
+    altitude: z.number().optional(),
+    // In the 24 hours from `time`; null when it doesn't happen in them
+    rise: z.string().nullable().optional(),
+    transit: z.string().nullable().optional(),
+    set: z.string().nullable().optional(),
+    // Why rise and set are missing: above or below the horizon all day
+    circumpolar: z.enum(['up', 'down']).nullable().optional(),
+});
+
+export type BodyPosition = z.infer<typeof BodyPositionSchema>;
+
+export const AlignmentSchema = z.object({
+    time: z.string(),
+    // As almanacs name it, e.g. "Mars at opposition" or "Full Moon"
+    event: z.string(),
+    // Degrees between the two bodies, and the body's distance from Earth in AU
+    separation: z.number(),
+    distance: z.number(),
+});
+
+export const EphemerisSchema = z.object({
+    title: z.string(),
+    // When the positions are for, or when the alignment search started
+    time: z.string(),
+    observer: z.object({
+        latitude: z.number(),
+        longitude: z.number(),
+        // km above the ellipsoid
+        altitude: z.number(),
+    }).optional(),
+    positions: z.array(BodyPositionSchema).optional(),
+    alignments: z.array(AlignmentSchema).optional(),
+    notes: z.array(z.string()).optional(),
+});
+
+export type Ephemeris = z.infer<typeof EphemerisSchema>;
+
+// An ephemeris, or why there isn't one (e.g. an opposition of Venus)
+export const EphemerisResultSchema = z.union([
+    EphemerisSchema,
+    z.object({ error: z.string() }),
+]);
+
+export type EphemerisResult = z.infer<typeof EphemerisResultSchema>;
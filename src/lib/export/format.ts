@@ -0,0 +1,27 @@
+import type { Message } from '../types';
+
+// Helpers shared by the export formats
+
+export const ROLE_LABELS: Record<Message['role'], string> = {
+    user: 'You',
+    assistant: 'Athey',
+};
+
+// "2026-10-19 14:03 UTC"
+export function formatTimestamp(iso: string): string {
+    const date = new Date(iso);
+    if (Number.isNaN(date.getTime())) return iso;
+    return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+// "Orbital Mechanics Basics" exported on 2026-10-19 -> "orbital-mechanics-basics-2026-10-19"
+export function exportFileName(title: string, exportedAt: string): string {
+    const slug = title
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .replace(/[^\p{L}\p{N}]+/gu, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60) || 'chat';
+    return `${slug}-${exportedAt.slice(0, 10)}`;
+}
@@ -0,0 +1,90 @@
+import type { ChatSession, Message } from '../types';
+import type { ExportFormat, SessionExport } from '../schemas';
+import { getActiveBranch } from '../branches';
+import { extractLegacySources } from '../sources';
+import { exportFileName } from './format';
+import { toMarkdown } from './markdown';
+import { toLatex } from './latex';
+
+// =============================================
+// SESSION EXPORT
+// =============================================
+// Whole-session downloads for GET /api/sessions/[id]/export. Markdown and
+// LaTeX are for reading, so they follow the branch the user last saw; JSON is
+// for backups and re-import, so it keeps every branch exactly as stored. PDF
+// is the print view at /sessions/[id]/print.
+
+export interface ExportFile {
+    filename: string;
+    contentType: string;
+    body: string;
+}
+
+// A branch as it reads: sources from older messages' inline block moved to
+// where newer messages keep them
+export function readableConversation(branch: Message[]): Message[] {
+    return branch.map(message => {
+        const legacy = extractLegacySources(message.content);
+        return {
+            ...message,
+            content: legacy.content,
+            sources: message.sources?.length ? message.sources : legacy.sources,
+        };
+    });
+}
+
+export function toSessionExport(session: ChatSession, messages: Message[], exportedAt: string): SessionExport {
+    // Lossless apart from the owner, which means nothing outside this account
+    return {
+        format: 'atheron-session',
+        version: 1,
+        exported_at: exportedAt,
+        session: {
+            id: session.id,
+            title: session.title,
+            created_at: session.created_at,
+            updated_at: session.updated_at,
+            pinned: session.pinned,
+            archived: session.archived,
+        },
+        messages: messages.map(message => ({
+            id: message.id,
+            parent_id: message.parent_id,
+            role: message.role,
+            content: message.content,
+            sources: message.sources,
+            tool_calls: message.tool_calls,
+            created_at: message.created_at,
+        })),
+    };
+}
+
+export function exportSession(
+    session: ChatSession,
+    messages: Message[],
+    format: ExportFormat,
+    exportedAt = new Date().toISOString()
+): ExportFile {
+    const name = exportFileName(session.title, exportedAt);
+
+    switch (format) {
+        case 'markdown':
+            return {
+                filename: `${name}.md`,
+                contentType: 'text/markdown; charset=utf-8',
+                body: toMarkdown(session, readableConversation(getActiveBranch(messages)), exportedAt),
+            };
+        case 'latex':
+            return {
+                filename: `${name}.tex`,
+                contentType: 'application/x-tex; charset=utf-8',
+                body: toLatex(session, readableConversation(getActiveBranch(messages)), exportedAt),
+            };
+        case 'json':
+            return {
+                filename: `${name}.json`,
+                contentType: 'application/json; charset=utf-8',
+                body: `${JSON.stringify(toSessionExport(session, messages, exportedAt), null, 2)}\n`,
+            };
+    }
+}
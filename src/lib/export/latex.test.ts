@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { escapeLatex, markdownToLatex, toLatex } from './latex';
+import type { ChatSession, Message } from '../types';
+
+// Outside math, pdflatex with inputenc only takes ASCII and the Latin characters T1 covers
+const NOT_LATIN = /[^\x00-\u017F]/u;
+
+describe('escapeLatex', () => {
+    it('turns the symbols STEM answers use into LaTeX commands', () => {
+        const prose = 'Δv ≈ 3.9 km/s → GEO at ≥ 35 786 km, 5 μm ± 0.1, 90° east, 10⁻³ kg of H₂O, ∂E/∂t ∝ ω²';
+        const latex = escapeLatex(prose);
+
+        expect(latex).not.toMatch(NOT_LATIN);
+        expect(latex).toContain('\\ensuremath{\\Delta}v \\ensuremath{\\approx} 3.9 km/s \\ensuremath{\\rightarrow} GEO');
+        expect(latex).toContain('90\\ensuremath{^{\\circ}} east');
+        expect(latex).toContain('10\\textsuperscript{-3} kg of H\\textsubscript{2}O');
+        expect(latex).toContain('\\ensuremath{\\omega}\\textsuperscript{2}');
+    });
+
+    it('escapes LaTeX\'s special characters', () => {
+        expect(escapeLatex('50% of $5 & #1_a^b~{x}\\')).toBe(
+            '50\\% of \\$5 \\& \\#1\\_a\\textasciicircum{}b\\textasciitilde{}\\{x\\}\\textbackslash{}',
+        );
+    });
+});
+
+describe('markdownToLatex', () => {
+    it('keeps plain code blocks verbatim', () => {
+        expect(markdownToLatex('```\nx = [1, 2]\n```')).toBe('\\begin{verbatim}\nx = [1, 2]\n\\end{verbatim}');
+    });
+
+    it('sets code that would end verbatim early line by line instead', () => {
+        const latex = markdownToLatex('```latex\n\\begin{verbatim}\n  [x]\n\\end{verbatim}\n```');
+
+        expect(latex).not.toContain('\\end{verbatim}');
+        expect(latex).toBe(
+            '{\\ttfamily\\noindent \\textbackslash{}begin\\{verbatim\\}\\\\{}\n~~[x]\\\\{}\n\\textbackslash{}end\\{verbatim\\}\\par}',
+        );
+    });
+
+    it('maps symbols in code too, where verbatim would pass them through', () => {
+        const latex = markdownToLatex('```\nθ = 30°\n```');
+
+        expect(latex).not.toMatch(NOT_LATIN);
+        expect(latex).toContain('\\ensuremath{\\theta}~=~30\\ensuremath{^{\\circ}}');
+    });
+
+    it('passes math through untouched', () => {
+        expect(markdownToLatex('So $\\Delta v = 3.9$ and\n\n$$\nv = \\sqrt{\\mu / r}\n$$'))
+            .toBe('So $\\Delta v = 3.9$ and\n\n\\[\nv = \\sqrt{\\mu / r}\n\\]');
+    });
+});
+
+describe('toLatex', () => {
+    it('loads inputenc for pdflatex and fontspec for the Unicode engines', () => {
+        const session: ChatSession = {
+            id: 's', user_id: 'u', title: 'Δv to GEO', pinned: false, archived: false,
+            created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z',
+        };
+        const message = { id: 'm', session_id: 's', parent_id: null, role: 'user', content: 'Δv → GEO?', created_at: '2025-01-01T00:00:00Z', sources: null, tool_calls: null } as Message;
+        const latex = toLatex(session, [message], '2025-01-02T00:00:00Z');
+
+        expect(latex).toMatch(/\\ifPDFTeX\n\\usepackage\[utf8\]\{inputenc\}\n\\usepackage\[T1\]\{fontenc\}\n\\else\n\\usepackage\{fontspec\}\n\\fi/);
+        expect(latex).not.toMatch(NOT_LATIN);
+    });
+});
@@ -0,0 +1,199 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import type { Nodes, Parents, Root } from 'mdast';
+import type { ChatSession, Message } from '../types';
+import { ROLE_LABELS, formatTimestamp } from './format';
+
+// =============================================
+// LATEX EXPORT
+// =============================================
+// A standalone article: each message is a section, its markdown converted to
+// LaTeX and its math passed through untouched, so derivations can be pasted
+// into a report as they are. Compiles with pdflatex, xelatex or lualatex:
+// the symbols answers use most (Greek letters, arrows, relations, degrees,
+// super- and subscripts) become LaTeX commands, so pdflatex only needs the
+// Latin characters inputenc knows. Other scripts need xelatex or lualatex.
+
+const PREAMBLE = String.raw`\documentclass[11pt]{article}
+\usepackage{iftex}
+\ifPDFTeX
+\usepackage[utf8]{inputenc}
+\usepackage[T1]{fontenc}
+\else
+\usepackage{fontspec}
+\fi
+\usepackage{amsmath,amssymb}
+\usepackage[margin=2.5cm]{geometry}
+\usepackage{hyperref}
+\setlength{\parindent}{0pt}
+\setlength{\parskip}{0.6em}`;
+
+const ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '{': '\\{',
+    '}': '\\}',
+    '$': '\\$',
+    '&': '\\&',
+    '#': '\\#',
+    '%': '\\%',
+    '_': '\\_',
+    '^': '\\textasciicircum{}',
+    '~': '\\textasciitilde{}',
+};
+
+// Symbols as math-mode commands, which every engine's fonts have
+const MATH_SYMBOLS: Record<string, string> = {
+    α: '\\alpha', β: '\\beta', γ: '\\gamma', δ: '\\delta', ε: '\\epsilon', ζ: '\\zeta', η: '\\eta', θ: '\\theta',
+    ι: '\\iota', κ: '\\kappa', λ: '\\lambda', μ: '\\mu', ν: '\\nu', ξ: '\\xi', π: '\\pi', ρ: '\\rho',
+    σ: '\\sigma', ς: '\\varsigma', τ: '\\tau', υ: '\\upsilon', φ: '\\phi', χ: '\\chi', ψ: '\\psi', ω: '\\omega',
+    Γ: '\\Gamma', Δ: '\\Delta', Θ: '\\Theta', Λ: '\\Lambda', Ξ: '\\Xi', Π: '\\Pi', Σ: '\\Sigma', Υ: '\\Upsilon',
+    Φ: '\\Phi', Ψ: '\\Psi', Ω: '\\Omega',
+    'µ': '\\mu', '∆': '\\Delta', 'Ω': '\\Omega',
+    '→': '\\rightarrow', '←': '\\leftarrow', '↔': '\\leftrightarrow', '↑': '\\uparrow', '↓': '\\downarrow',
+    '⇒': '\\Rightarrow', '⇐': '\\Leftarrow', '⇔': '\\Leftrightarrow', '↦': '\\mapsto',
+    '≈': '\\approx', '≠': '\\neq', '≤': '\\leq', '≥': '\\geq', '≡': '\\equiv', '∼': '\\sim', '≃': '\\simeq',
+    '≪': '\\ll', '≫': '\\gg', '∝': '\\propto',
+    '±': '\\pm', '∓': '\\mp', '×': '\\times', '÷': '\\div', '·': '\\cdot', '⋅': '\\cdot', '−': '-', '∗': '\\ast',
+    '√': '\\surd', '∞': '\\infty', '∑': '\\sum', '∏': '\\prod', '∫': '\\int', '∮': '\\oint', '∂': '\\partial',
+    '∇': '\\nabla', '′': '\\prime', '″': '\\prime\\prime', '°': '^{\\circ}', 'ℏ': '\\hbar', '∅': '\\emptyset',
+    '∈': '\\in', '∉': '\\notin', '⊂': '\\subset', '⊆': '\\subseteq', '∪': '\\cup', '∩': '\\cap',
+    '∀': '\\forall', '∃': '\\exists', '¬': '\\neg', '∧': '\\wedge', '∨': '\\vee', '⊥': '\\perp', '∥': '\\parallel',
+    '⊙': '\\odot', '⊕': '\\oplus', '⊗': '\\otimes', '†': '\\dagger', '•': '\\bullet', '∘': '\\circ',
+    '½': '\\tfrac{1}{2}', '⅓': '\\tfrac{1}{3}', '¼': '\\tfrac{1}{4}', '¾': '\\tfrac{3}{4}',
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+    '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁺': '+', '⁻': '-', 'ⁿ': 'n',
+};
+
+const SUBSCRIPTS: Record<string, string> = {
+    '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9', '₊': '+', '₋': '-',
+};
+
+const MATH_SYMBOL_PATTERN = new RegExp(`[${Object.keys(MATH_SYMBOLS).join('')}]`, 'gu');
+const SUPERSCRIPT_PATTERN = new RegExp(`[${Object.keys(SUPERSCRIPTS).join('')}]+`, 'gu');
+const SUBSCRIPT_PATTERN = new RegExp(`[${Object.keys(SUBSCRIPTS).join('')}]+`, 'gu');
+
+export function escapeLatex(text: string): string {
+    return text
+        .replace(/[\\{}$&#%_^~]/g, char => ESCAPES[char])
+        .replace(SUPERSCRIPT_PATTERN, run => `\\textsuperscript{${[...run].map(char => SUPERSCRIPTS[char]).join('')}}`)
+        .replace(SUBSCRIPT_PATTERN, run => `\\textsubscript{${[...run].map(char => SUBSCRIPTS[char]).join('')}}`)
+        .replace(MATH_SYMBOL_PATTERN, char => `\\ensuremath{${MATH_SYMBOLS[char]}}`);
+}
+
+// verbatim can't hold its own end marker, and passes characters through
+// unmapped; such blocks are set line by line in typewriter type instead
+function codeBlock(code: string): string {
+    if (!/\\end\{verbatim\}|[^\x00-\x7F]/.test(code)) return `\\begin{verbatim}\n${code}\n\\end{verbatim}`;
+    const lines = code.split('\n').map(line => escapeLatex(line).replace(/ /g, '~') || '~');
+    return `{\\ttfamily\\noindent ${lines.join('\\\\{}\n')}\\par}`;
+}
+
+// Inside \href and \url only these need escaping
+function escapeUrl(url: string): string {
+    return url.replace(/[\\#%{}]/g, char => `\\${char}`);
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkMath);
+
+function inline(node: Parents): string {
+    return node.children.map(convert).join('');
+}
+
+function blocks(node: Parents): string {
+    return node.children.map(convert).join('\n\n');
+}
+
+function convert(node: Nodes): string {
+    switch (node.type) {
+        case 'root':
+        case 'blockquote':
+            return node.type === 'root' ? blocks(node) : `\\begin{quote}\n${blocks(node)}\n\\end{quote}`;
+        case 'paragraph':
+            return inline(node);
+        case 'heading':
+            // Messages are sections already, so their headings sit below that
+            return node.depth <= 2 ? `\\subsubsection*{${inline(node)}}` : `\\paragraph{${inline(node)}}`;
+        case 'text':
+            return escapeLatex(node.value);
+        case 'emphasis':
+            return `\\emph{${inline(node)}}`;
+        case 'strong':
+            return `\\textbf{${inline(node)}}`;
+        case 'delete':
+            return inline(node);
+        case 'inlineCode':
+            return `\\texttt{${escapeLatex(node.value)}}`;
+        case 'code':
+            return codeBlock(node.value);
+        case 'inlineMath':
+            return `$${node.value}$`;
+        case 'math':
+            return `\\[\n${node.value}\n\\]`;
+        case 'list': {
+            const env = node.ordered ? 'enumerate' : 'itemize';
+            const items = node.children.map(item => `\\item ${blocks(item)}`).join('\n');
+            return `\\begin{${env}}\n${items}\n\\end{${env}}`;
+        }
+        case 'link':
+            return `\\href{${escapeUrl(node.url)}}{${inline(node)}}`;
+        case 'image':
+            return `\\url{${escapeUrl(node.url)}}`;
+        case 'break':
+            return '\\newline\n';
+        case 'thematicBreak':
+            return '\\medskip\\hrule\\medskip';
+        case 'table': {
+            const columns = node.children[0]?.children.length ?? 0;
+            const rows = node.children.map(row => `${row.children.map(inline).join(' & ')} \\\\ \\hline`);
+            return `\\begin{tabular}{|${'l|'.repeat(columns)}}\n\\hline\n${rows.join('\n')}\n\\end{tabular}`;
+        }
+        case 'html':
+            return escapeLatex(node.value);
+        default:
+            if ('children' in node) return inline(node);
+            if ('value' in node) return escapeLatex(node.value);
+            return '';
+    }
+}
+
+export function markdownToLatex(markdown: string): string {
+    return convert(parser.parse(markdown) as Root);
+}
+
+export function toLatex(session: ChatSession, conversation: Message[], exportedAt: string): string {
+    const body: string[] = [];
+
+    for (const message of conversation) {
+        body.push(
+            `\\section*{${ROLE_LABELS[message.role]}\\hfill{\\small\\normalfont ${formatTimestamp(message.created_at)}}}`,
+            markdownToLatex(message.content),
+        );
+
+        const sources = message.sources ?? [];
+        if (sources.length > 0) {
+            const items = sources.map(source =>
+                `\\item \\href{${escapeUrl(source.url)}}{${escapeLatex(source.title || source.domain)}} (${escapeLatex(source.domain)})`
+            );
+            body.push(`\\paragraph{Sources}\n\\begin{enumerate}\n${items.join('\n')}\n\\end{enumerate}`);
+        }
+    }
+
+    return [
+        PREAMBLE,
+        '',
+        `\\title{${escapeLatex(session.title)}}`,
+        `\\date{Started ${formatTimestamp(session.created_at)}, exported from Atheron ${formatTimestamp(exportedAt)}}`,
+        '',
+        '\\begin{document}',
+        '\\maketitle',
+        '',
+        body.join('\n\n'),
+        '',
+        '\\end{document}',
+        '',
+    ].join('\n');
+}
@@ -0,0 +1,27 @@
+import type { ChatSession, Message } from '../types';
+import { ROLE_LABELS, formatTimestamp } from './format';
+
+// Messages keep their original markdown, so $...$ and $$...$$ math renders
+// wherever KaTeX does (Obsidian, Typora, GitHub, ...)
+export function toMarkdown(session: ChatSession, conversation: Message[], exportedAt: string): string {
+    const lines = [
+        `# ${session.title}`,
+        '',
+        `_Started ${formatTimestamp(session.created_at)} · exported from Atheron ${formatTimestamp(exportedAt)}_`,
+    ];
+
+    for (const message of conversation) {
+        lines.push('', '---', '', `### ${ROLE_LABELS[message.role]} · ${formatTimestamp(message.created_at)}`, '', message.content.trim());
+
+        const sources = message.sources ?? [];
+        if (sources.length > 0) {
+            lines.push('', '**Sources**', '');
+            sources.forEach((source, i) => {
+                const label = (source.title || source.domain).replace(/[[\]]/g, '\\$&');
+                lines.push(`${i + 1}. [${label}](${source.url}) (${source.domain})`);
+            });
+        }
+    }
+
+    return `${lines.join('\n')}\n`;
+}
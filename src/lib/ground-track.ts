@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+// =============================================
+// GROUND TRACKS
+// =============================================
+// What the satelliteTracker tool (see ./tools) returns: where a satellite is,
+// the path it traces over the ground, and optionally how it looks from an
+// observer. The chat draws it as a map card under the answer; the model gets
+// everything but the track itself.
+
+const LatLonSchema = z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+});
+
+export const SatellitePassSchema = z.object({
+    rise: z.string().nullable(),
+    riseAzimuth: z.number().nullable(),
+    culmination: z.string(),
+    maxElevation: z.number(),
+    set: z.string().nullable(),
+    setAzimuth: z.number().nullable(),
+});
+
+export const GroundTrackSchema = z.object({
+    satellite: z.object({
+        name: z.string(),
+        noradId: z.number(),
+        // When the elements were issued, and how old they are at `time`
+        epoch: z.string(),
+        elementAgeDays: z.number(),
+    }),
+    time: z.string(),
+    position: LatLonSchema.extend({
+        // km above the ellipsoid, and km/s
+        altitude: z.number(),
+        speed: z.number(),
+    }),
+    // [longitude, latitude] pairs in degrees, oldest first, around `time`
+    track: z.array(z.tuple([z.number(), z.number()])),
+    observer: LatLonSchema.extend({
+        // km above the ellipsoid
+        altitude: z.number(),
+        // Degrees, and km to the satellite
+        azimuth: z.number(),
+        elevation: z.number(),
+        range: z.number(),
+    }).optional(),
+    passes: z.array(SatellitePassSchema).optional(),
+    notes: z.array(z.string()).optional(),
+});
+
+export type GroundTrack = z.infer<typeof GroundTrackSchema>;
+
+// A ground track, or why there isn't one (e.g. an unknown satellite)
+export const GroundTrackResultSchema = z.union([
+    GroundTrackSchema,
+    z.object({ error: z.string() }),
+]);
+
+export type GroundTrackResult = z.infer<typeof GroundTrackResultSchema>;
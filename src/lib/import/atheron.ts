@@ -0,0 +1,33 @@
+import { randomUUID } from 'crypto';
+import type { SessionExport } from '../schemas';
+import type { ImportedChatSession } from '../store/types';
+import { importTimestamp, importTitle, parentsFirst } from './normalize';
+
+// Our own JSON export, every branch included. Ids are replaced so the same
+// archive can be imported twice, or into the deployment it came from.
+export function fromSessionExport(archive: SessionExport): ImportedChatSession {
+    const now = new Date().toISOString();
+    const createdAt = importTimestamp(archive.session.created_at, now);
+    // A repeated id would collide once replaced; keep the last copy
+    const unique = [...new Map(archive.messages.map(m => [m.id, m])).values()];
+    const ids = new Map(unique.map(m => [m.id, randomUUID()]));
+
+    const messages = unique.map(m => ({
+        id: ids.get(m.id)!,
+        parent_id: m.parent_id ? ids.get(m.parent_id) ?? null : null,
+        role: m.role,
+        content: m.content,
+        sources: m.sources,
+        tool_calls: m.tool_calls,
+        created_at: importTimestamp(m.created_at, createdAt),
+    }));
+
+    return {
+        title: importTitle(archive.session.title),
+        created_at: createdAt,
+        updated_at: importTimestamp(archive.session.updated_at, createdAt),
+        pinned: archive.session.pinned,
+        archived: archive.session.archived,
+        messages: parentsFirst(messages),
+    };
+}
@@ -0,0 +1,79 @@
+import { randomUUID } from 'crypto';
+import type { ChatGptConversation } from '../schemas';
+import type { ImportedChatSession, ImportedMessage } from '../store/types';
+import { importTimestamp, importTitle, parentsFirst } from './normalize';
+
+type ChatGptNode = ChatGptConversation['mapping'][string];
+
+// Unix seconds, as ChatGPT stores them
+function fromSeconds(seconds: number | null | undefined): number | null {
+    return typeof seconds === 'number' ? seconds * 1000 : null;
+}
+
+// The text the user saw: user and assistant text parts, without system
+// prompts, tool calls and their output, or attachments
+function readableText(node: ChatGptNode): { role: ImportedMessage['role']; content: string } | null {
+    const message = node.message;
+    if (!message || message.metadata?.is_visually_hidden_from_conversation) return null;
+
+    const role = message.author.role;
+    if (role !== 'user' && role !== 'assistant') return null;
+    if (message.recipient && message.recipient !== 'all') return null;
+
+    const { content_type, parts } = message.content;
+    if (content_type !== 'text' && content_type !== 'multimodal_text') return null;
+
+    const content = (parts ?? [])
+        .filter((part): part is string => typeof part === 'string')
+        .join('\n\n')
+        .trim();
+    return content ? { role, content } : null;
+}
+
+// One conversation from conversations.json, or null if it has no readable
+// messages. The tree is kept: skipped nodes are bridged by attaching their
+// children to the nearest message that was kept.
+export function fromChatGptConversation(conversation: ChatGptConversation): ImportedChatSession | null {
+    const now = new Date().toISOString();
+    const createdAt = importTimestamp(fromSeconds(conversation.create_time), now);
+    const nodes = conversation.mapping;
+
+    const kept = new Map<string, ImportedMessage>();
+    for (const [nodeId, node] of Object.entries(nodes)) {
+        const text = readableText(node);
+        if (!text) continue;
+
+        kept.set(nodeId, {
+            id: randomUUID(),
+            parent_id: null,
+            role: text.role,
+            content: text.content,
+            sources: null,
+            tool_calls: null,
+            created_at: importTimestamp(fromSeconds(node.message?.create_time), createdAt),
+        });
+    }
+    if (kept.size === 0) return null;
+
+    // The step limit guards against a malformed mapping that loops
+    const maxSteps = Object.keys(nodes).length;
+    for (const [nodeId, message] of kept) {
+        let parentId = nodes[nodeId].parent;
+        for (let steps = 0; parentId && !kept.has(parentId) && steps < maxSteps; steps++) {
+            parentId = nodes[parentId]?.parent;
+        }
+        message.parent_id = parentId ? kept.get(parentId)?.id ?? null : null;
+    }
+
+    const messages = parentsFirst([...kept.values()]);
+    const lastActivity = messages.reduce((latest, m) => (m.created_at > latest ? m.created_at : latest), createdAt);
+
+    return {
+        title: importTitle(conversation.title),
+        created_at: createdAt,
+        updated_at: importTimestamp(fromSeconds(conversation.update_time), lastActivity),
+        pinned: false,
+        archived: conversation.is_archived ?? false,
+        messages,
+    };
+}
@@ -0,0 +1,33 @@
+import type { ImportArchive } from '../schemas';
+import type { ImportedChatSession } from '../store/types';
+import { fromSessionExport } from './atheron';
+import { fromChatGptConversation } from './chatgpt';
+
+// =============================================
+// SESSION IMPORT
+// =============================================
+// Turns an uploaded archive into sessions for ChatStore.importChatSession:
+// our own JSON export (see ../export) for backups and moving between
+// deployments, or a ChatGPT conversations.json for users coming from there.
+
+export interface ReadArchiveResult {
+    sessions: ImportedChatSession[];
+    // Conversations with nothing importable in them
+    skipped: number;
+}
+
+export function readArchive(archive: ImportArchive): ReadArchiveResult {
+    const sessions: ImportedChatSession[] = [];
+    let skipped = 0;
+
+    for (const conversation of Array.isArray(archive) ? archive : [archive]) {
+        const session = 'mapping' in conversation
+            ? fromChatGptConversation(conversation)
+            : fromSessionExport(conversation);
+
+        if (session) sessions.push(session);
+        else skipped++;
+    }
+
+    return { sessions, skipped };
+}
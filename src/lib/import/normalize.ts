@@ -0,0 +1,51 @@
+import type { ImportedMessage } from '../store/types';
+
+// Helpers shared by the archive readers
+
+const MAX_TITLE_LENGTH = 200;
+
+export function importTitle(title: string | null | undefined): string {
+    const trimmed = title?.trim().replace(/\s+/g, ' ');
+    return trimmed ? trimmed.slice(0, MAX_TITLE_LENGTH) : 'Imported chat';
+}
+
+// ISO timestamp for an archive date, or the fallback if it doesn't parse
+export function importTimestamp(value: string | number | null | undefined, fallback: string): string {
+    if (value === null || value === undefined) return fallback;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? fallback : date.toISOString();
+}
+
+// Archives are untrusted: order messages so each parent comes before its
+// children (the database checks parent_id), detaching any message whose
+// parent is missing or that sits on a cycle
+export function parentsFirst(messages: ImportedMessage[]): ImportedMessage[] {
+    const byId = new Map(messages.map(m => [m.id, { ...m }]));
+    const placed = new Set<string>();
+    const ordered: ImportedMessage[] = [];
+
+    const oldestFirst = [...byId.values()].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    for (const start of oldestFirst) {
+        // Climb to the first ancestor already placed, then place the path back down
+        const path: ImportedMessage[] = [];
+        const onPath = new Set<string>();
+        for (let m: ImportedMessage | undefined = start; m && !placed.has(m.id);) {
+            path.push(m);
+            onPath.add(m.id);
+
+            const parent: ImportedMessage | undefined = m.parent_id ? byId.get(m.parent_id) : undefined;
+            if (!parent || onPath.has(parent.id)) {
+                m.parent_id = null;
+                break;
+            }
+            m = parent;
+        }
+
+        for (const m of path.reverse()) {
+            placed.add(m.id);
+            ordered.push(m);
+        }
+    }
+
+    return ordered;
+}
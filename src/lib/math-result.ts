@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+// =============================================
+// MATH RESULTS
+// =============================================
+// What the math tool (see ./tools) returns: the problem, the working, and the
+// answer both as a number and as LaTeX. The model quotes the answer (the
+// LaTeX goes in $$...$$ as is); the chat shows the working as a card.
+
+export const MathStepSchema = z.object({
+    label: z.string(),
+    latex: z.string(),
+});
+
+export const MathResultSchema = z.object({
+    title: z.string(),
+    // The problem as LaTeX, e.g. \int x^2\,dx
+    problem: z.string(),
+    steps: z.array(MathStepSchema),
+    answer: z.object({
+        latex: z.string(),
+        text: z.string(),
+        // The answer as a number, when it is a single real value
+        value: z.number().nullable(),
+        unit: z.string().nullable(),
+    }),
+    notes: z.array(z.string()).optional(),
+});
+
+export type MathResult = z.infer<typeof MathResultSchema>;
+
+// A result, or why there isn't one (e.g. an expression that doesn't parse)
+export const MathToolResultSchema = z.union([
+    MathResultSchema,
+    z.object({ error: z.string() }),
+]);
+
+export type MathToolResult = z.infer<typeof MathToolResultSchema>;
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { differentiate, integrate } from './calculus';
+
+const definite = (expression: string, lower: string, upper: string) => integrate(expression, { bounds: [lower, upper] }).value!.value!;
+
+describe('differentiate', () => {
+    it('differentiates and evaluates at a point', () => {
+        const { result, value } = differentiate('x^3 + sin(x)', { at: '0' });
+
+        expect(result.toString()).toBe('3 * x ^ 2 + cos(x)');
+        expect(value!.value).toBe(1);
+    });
+});
+
+describe('integrate', () => {
+    it('finds antiderivatives and checks them', () => {
+        expect(integrate('x * exp(x)').latex).toMatch(/\+ C$/);
+        expect(definite('x^2', '0', '3')).toBeCloseTo(9, 12);
+        expect(definite('1/(1 + x^2)', '-Infinity', 'Infinity')).toBeCloseTo(Math.PI, 12);
+    });
+
+    it('integrates numerically when there is no antiderivative', () => {
+        expect(definite('exp(-x^2)', '-5', '5')).toBeCloseTo(Math.sqrt(Math.PI), 9);
+        // Removable: sin(x)/x has no value at 0, but a limit
+        expect(definite('sin(x)/x', '-1', '1')).toBeCloseTo(1.892166141, 9);
+    });
+
+    it('reports divergence across a pole instead of applying F(b) - F(a)', () => {
+        expect(() => integrate('1/x^2', { bounds: ['-1', '1'] })).toThrow(/diverges.*x = 0/);
+        expect(() => integrate('1/x', { bounds: ['-1', '1'] })).toThrow(/diverges/);
+        expect(() => integrate('tan(x)', { bounds: ['0', 'pi'] })).toThrow(/diverges.*x = 1\.570796327/);
+        expect(() => integrate('1/(x - 1/3)^2', { bounds: ['0', '1'] })).toThrow(/diverges/);
+    });
+
+    it('integrates singularities that enclose a finite area', () => {
+        expect(definite('1/sqrt(x)', '0', '1')).toBeCloseTo(2, 9);
+        expect(definite('log(x)', '0', '1')).toBeCloseTo(-1, 9);
+        expect(definite('1/sqrt(1 - x^2)', '-1', '1')).toBeCloseTo(Math.PI, 9);
+        // No antiderivative, so tanh-sinh quadrature: sqrt(pi) erf(1)
+        expect(definite('exp(-x)/sqrt(x)', '0', '1')).toBeCloseTo(1.493648266, 8);
+    });
+
+    it('maps infinite bounds onto a finite interval when there is no antiderivative', () => {
+        expect(definite('exp(-x^2)', '-Infinity', 'Infinity')).toBeCloseTo(Math.sqrt(Math.PI), 9);
+        expect(definite('exp(-x^2)', '0', 'Infinity')).toBeCloseTo(Math.sqrt(Math.PI) / 2, 9);
+        expect(definite('exp(-x^2)', 'Infinity', '0')).toBeCloseTo(-Math.sqrt(Math.PI) / 2, 9);
+        // Γ(1/2) = sqrt(pi), with a singularity at 0 as well
+        expect(definite('exp(-x)/sqrt(x)', '0', 'Infinity')).toBeCloseTo(Math.sqrt(Math.PI), 8);
+    });
+
+    it('reports divergence toward an infinite bound', () => {
+        expect(() => integrate('1/x', { bounds: ['1', 'Infinity'] })).toThrow(/diverges.*x → ∞/);
+        expect(() => integrate('1/sqrt(-x)', { bounds: ['-Infinity', '-1'] })).toThrow(/diverges.*x → -∞/);
+    });
+
+    it('refuses integrands that aren\'t real over the interval', () => {
+        expect(() => integrate('sqrt(x)', { bounds: ['-1', '1'] })).toThrow(/isn't real/);
+    });
+});
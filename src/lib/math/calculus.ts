@@ -0,0 +1,717 @@
+import type { MathNode } from 'mathjs';
+import {
+    MathError,
+    derivative,
+    evaluateNode,
+    freeVariables,
+    parse,
+    parseExpression,
+    rationalize,
+    simplify,
+    toTex,
+    type Step,
+} from './sandbox';
+import { describeValue, type Evaluated } from './evaluate';
+
+// =============================================
+// CALCULUS
+// =============================================
+// Derivatives come from mathjs. Antiderivatives come from the table of rules
+// below (linearity, powers, elementary functions of ax + b, f'/f,
+// substitution, parts for a polynomial times exp/sin/cos, and quadratics
+// under a constant). Each one is checked by differentiating it numerically
+// before it's returned. Definite integrals with no antiderivative found are
+// done numerically. Either way, points where the integrand is unbounded are
+// found first, and the integral is split there and checked for divergence.
+
+const MAX_ORDER = 5;
+// Away from the poles of tan and friends, and from 0
+const CHECK_POINTS = [0.31, 0.77, 1.43, 2.19, -0.63, -1.21, 3.7];
+
+// The one variable in `node`, or x when it has none
+function variableOf(node: MathNode, given: string | undefined): string {
+    if (given) return given;
+    const free = freeVariables(node);
+    if (free.length > 1) throw new MathError(`Say which of ${free.join(', ')} to use as the variable`);
+    return free[0] ?? 'x';
+}
+
+function valueAt(node: MathNode, x: string, at: number): number {
+    const value = evaluateNode(node, new Map([[x, at]]));
+    return typeof value === 'number' ? value : NaN;
+}
+
+// ---------------------------------------------
+// Differentiation
+// ---------------------------------------------
+
+export function differentiate(
+    expression: string,
+    options: { variable?: string; order?: number; at?: string } = {},
+): { problem: string; steps: Step[]; result: MathNode; latex: string; value: Evaluated | null } {
+    const node = parseExpression(expression);
+    const x = variableOf(node, options.variable);
+    const order = options.order ?? 1;
+    if (!Number.isInteger(order) || order < 1 || order > MAX_ORDER) throw new MathError(`The order must be a whole number from 1 to ${MAX_ORDER}`);
+
+    const operatorOf = (k: number) => (k === 1 ? `\\frac{d}{d${x}}` : `\\frac{d^{${k}}}{d${x}^{${k}}}`);
+    const problem = `${operatorOf(order)}\\left[${toTex(node)}\\right]`;
+    const steps: Step[] = [];
+    let current = node;
+    for (let k = 1; k <= order; k++) {
+        let next: MathNode;
+        try {
+            next = simplify(derivative(current, x));
+        } catch (error) {
+            throw new MathError(`Can't differentiate ${current.toString()}: ${(error as Error).message}`);
+        }
+        steps.push({ label: k === 1 ? 'Differentiate' : 'Differentiate again', latex: `${operatorOf(k)}\\left[${toTex(node)}\\right] = ${toTex(next)}` });
+        current = next;
+    }
+
+    let value: Evaluated | null = null;
+    if (options.at !== undefined) {
+        const at = evaluateNode(parseExpression(options.at));
+        value = describeValue(evaluateNode(current, new Map([[x, at]])));
+        steps.push({ label: `At ${x} = ${options.at}`, latex: `${toTex(current)}\\Big|_{${x} = ${toTex(parse(options.at))}} = ${value.latex}` });
+    }
+    return { problem, steps, result: current, latex: toTex(current), value };
+}
+
+// ---------------------------------------------
+// Antiderivatives
+// ---------------------------------------------
+
+// Builds an expression from text with the given nodes substituted in, each in
+// parentheses so precedence survives
+function build(template: string, nodes: Record<string, MathNode>): MathNode {
+    return parse(template.replace(/\{(\w+)\}/g, (_, name: string) => `(${nodes[name].toString()})`));
+}
+
+function dependsOn(node: MathNode, x: string): boolean {
+    return freeVariables(node).includes(x);
+}
+
+// The constant a when `u` is a·x + b
+function linearCoefficient(u: MathNode, x: string): MathNode | null {
+    if (!dependsOn(u, x)) return null;
+    const a = simplify(derivative(u, x));
+    return dependsOn(a, x) ? null : a;
+}
+
+function isPolynomial(node: MathNode, x: string): boolean {
+    try {
+        const { variables, denominator } = rationalize(node, {}, true) as unknown as { variables: string[]; denominator: MathNode | null };
+        return !denominator && variables.every(v => v === x);
+    } catch {
+        return false;
+    }
+}
+
+function unwrap(node: MathNode): MathNode {
+    return node.type === 'ParenthesisNode' ? unwrap((node as MathNode & { content: MathNode }).content) : node;
+}
+
+function factorsOf(node: MathNode): MathNode[] {
+    if (node.type === 'ParenthesisNode') return factorsOf((node as MathNode & { content: MathNode }).content);
+    const op = node as MathNode & { op?: string; args?: MathNode[] };
+    return op.type === 'OperatorNode' && op.op === '*' ? op.args!.flatMap(factorsOf) : [node];
+}
+
+function product(nodes: MathNode[]): MathNode {
+    return nodes.length === 0 ? parse('1') : parse(nodes.map(n => `(${n.toString()})`).join(' * '));
+}
+
+// Antiderivatives of f(u) for u = ax + b, as templates in u and a
+const FUNCTION_RULES: Record<string, string> = {
+    exp: 'exp({u}) / {a}',
+    sin: '-cos({u}) / {a}',
+    cos: 'sin({u}) / {a}',
+    tan: '-log(abs(cos({u}))) / {a}',
+    sinh: 'cosh({u}) / {a}',
+    cosh: 'sinh({u}) / {a}',
+    tanh: 'log(cosh({u})) / {a}',
+    sqrt: '2 / 3 * {u}^(3/2) / {a}',
+    log: '({u} * log({u}) - {u}) / {a}',
+    atan: '({u} * atan({u}) - log(1 + {u}^2) / 2) / {a}',
+    asin: '({u} * asin({u}) + sqrt(1 - {u}^2)) / {a}',
+    acos: '({u} * acos({u}) - sqrt(1 - {u}^2)) / {a}',
+};
+
+class Integrator {
+    // Names of the rules used, for the working
+    readonly rules = new Set<string>();
+
+    constructor(private readonly x: string) {}
+
+    integrate(node: MathNode): MathNode | null {
+        const { x } = this;
+        if (!dependsOn(node, x)) {
+            this.rules.add('constant rule');
+            return build(`{c} * ${x}`, { c: node });
+        }
+
+        switch (node.type) {
+            case 'ParenthesisNode':
+                return this.integrate((node as MathNode & { content: MathNode }).content);
+            case 'SymbolNode':
+                this.rules.add('power rule');
+                return parse(`${x}^2 / 2`);
+            case 'FunctionNode':
+                return this.func(node as MathNode & { fn: { name: string }; args: MathNode[] });
+            case 'OperatorNode':
+                return this.operator(node as MathNode & { op: string; fn: string; args: MathNode[] });
+            default:
+                return null;
+        }
+    }
+
+    private operator(node: MathNode & { op: string; fn: string; args: MathNode[] }): MathNode | null {
+        const [left, right] = node.args;
+        switch (node.fn) {
+            case 'unaryPlus':
+                return this.integrate(left);
+            case 'unaryMinus': {
+                const F = this.integrate(left);
+                return F && build('-{F}', { F });
+            }
+            case 'add':
+            case 'subtract': {
+                this.rules.add('linearity');
+                const [F, G] = [this.integrate(left), this.integrate(right)];
+                return F && G && build(`{F} ${node.op} {G}`, { F, G });
+            }
+            case 'multiply':
+                return this.multiply(node);
+            case 'divide':
+                return this.divide(left, right);
+            case 'pow':
+                return this.power(left, right) ?? this.expanded(node);
+            default:
+                return null;
+        }
+    }
+
+    private multiply(node: MathNode): MathNode | null {
+        const { x } = this;
+        const factors = factorsOf(node);
+        const constants = factors.filter(f => !dependsOn(f, x));
+        const variable = factors.filter(f => dependsOn(f, x));
+
+        if (constants.length > 0) {
+            this.rules.add('constant multiple');
+            const F = this.integrate(product(variable));
+            return F && build('{c} * {F}', { c: product(constants), F });
+        }
+        return this.substitution(variable) ?? this.byParts(variable) ?? this.expanded(node);
+    }
+
+    private divide(numerator: MathNode, denominator: MathNode): MathNode | null {
+        const { x } = this;
+        if (!dependsOn(denominator, x)) {
+            this.rules.add('constant multiple');
+            const F = this.integrate(numerator);
+            return F && build('{F} / {d}', { F, d: denominator });
+        }
+
+        // f'(x) / f(x), up to a constant
+        const ratio = simplify(build('{n} / {d}', { n: numerator, d: derivative(denominator, x) }));
+        if (!dependsOn(ratio, x)) {
+            this.rules.add("f'/f = ln|f|");
+            return build('{k} * log(abs({f}))', { k: ratio, f: denominator });
+        }
+
+        if (!dependsOn(numerator, x)) {
+            const quadratic = this.overQuadratic(numerator, denominator) ?? this.overSqrtQuadratic(numerator, denominator);
+            if (quadratic) return quadratic;
+        }
+
+        // n / g^e as n·g^(-e), so g can be substituted
+        const d = unwrap(denominator) as MathNode & { fn?: string; args?: MathNode[] };
+        if (d.type === 'OperatorNode' && d.fn === 'pow' && !dependsOn(d.args![1], x)) {
+            return this.multiply(build('{n} * {g}^(-{e})', { n: numerator, g: d.args![0], e: d.args![1] }));
+        }
+        return this.multiply(build('{n} * {d}^(-1)', { n: numerator, d: denominator }));
+    }
+
+    // ax² + bx + c as [c, b, a], when `node` is a quadratic in x
+    private quadraticCoefficients(node: MathNode): number[] | null {
+        try {
+            const result = rationalize(node, {}, true) as unknown as { coefficients: number[]; variables: string[] };
+            if (result.variables.length !== 1 || result.variables[0] !== this.x || result.coefficients.length !== 3) return null;
+            return result.coefficients;
+        } catch {
+            return null;
+        }
+    }
+
+    // k / sqrt(ax² + bx + c): an arcsine when a < 0, a logarithm when a > 0
+    private overSqrtQuadratic(k: MathNode, denominator: MathNode): MathNode | null {
+        const d = unwrap(denominator) as MathNode & { fn?: { name: string }; args?: MathNode[] };
+        if (d.type !== 'FunctionNode' || d.fn!.name !== 'sqrt' || d.args!.length !== 1) return null;
+        const coefficients = this.quadraticCoefficients(d.args![0]);
+        if (!coefficients) return null;
+
+        const [c, b, a] = coefficients;
+        const discriminant = b * b - 4 * a * c;
+        this.rules.add('completing the square');
+        if (a < 0) {
+            if (discriminant <= 0) return null;
+            return build(`{k} / ${Math.sqrt(-a)} * asin((${-2 * a} * ${this.x} - ${b}) / ${Math.sqrt(discriminant)})`, { k });
+        }
+        return build(`{k} / ${Math.sqrt(a)} * log(abs(2 * ${Math.sqrt(a)} * {q} + ${2 * a} * ${this.x} + ${b}))`, { k, q: d });
+    }
+
+    // k / (ax² + bx + c), by completing the square
+    private overQuadratic(k: MathNode, denominator: MathNode): MathNode | null {
+        const coefficients = this.quadraticCoefficients(denominator);
+        if (!coefficients) return null;
+
+        const [c, b, a] = coefficients;
+        const discriminant = b * b - 4 * a * c;
+        const linear = parse(`2 * ${a} * ${this.x} + ${b}`);
+        this.rules.add('completing the square');
+        if (discriminant < 0) {
+            const root = Math.sqrt(-discriminant);
+            return build(`{k} * 2 / ${root} * atan({l} / ${root})`, { k, l: linear });
+        }
+        if (discriminant > 0) {
+            const root = Math.sqrt(discriminant);
+            return build(`{k} / ${root} * log(abs(({l} - ${root}) / ({l} + ${root})))`, { k, l: linear });
+        }
+        return build('-2 * {k} / {l}', { k, l: linear });
+    }
+
+    private power(base: MathNode, exponent: MathNode): MathNode | null {
+        const { x } = this;
+        if (!dependsOn(exponent, x)) {
+            const a = linearCoefficient(base, x);
+            if (a) {
+                this.rules.add('power rule');
+                const n = evaluateNode(exponent);
+                if (n === -1) return build('log(abs({u})) / {a}', { u: base, a });
+                return build('{u}^({n} + 1) / (({n} + 1) * {a})', { u: base, n: exponent, a });
+            }
+            // sin²(u) and cos²(u) by the half-angle formulas
+            const fn = base as MathNode & { fn?: { name: string }; args?: MathNode[] };
+            const a2 = fn.type === 'FunctionNode' && fn.args?.length === 1 ? linearCoefficient(fn.args[0], x) : null;
+            if (a2 && evaluateNode(exponent) === 2 && (fn.fn!.name === 'sin' || fn.fn!.name === 'cos')) {
+                this.rules.add('half-angle formula');
+                const sign = fn.fn!.name === 'sin' ? '-' : '+';
+                return build(`({u} / 2 ${sign} sin(2 * {u}) / 4) / {a}`, { u: fn.args![0], a: a2 });
+            }
+            return null;
+        }
+        if (!dependsOn(base, x)) {
+            const a = linearCoefficient(exponent, x);
+            if (!a) return this.substitution([build('{b}^{e}', { b: base, e: exponent })]);
+            this.rules.add('exponential rule');
+            return build('{b}^{e} / ({a} * log({b}))', { b: base, e: exponent, a });
+        }
+        return null;
+    }
+
+    private func(node: MathNode & { fn: { name: string }; args: MathNode[] }): MathNode | null {
+        const { x } = this;
+        const name = node.fn.name;
+        // log(u, b) = ln(u) / ln(b)
+        if (name === 'log' && node.args.length === 2) {
+            return this.divide(parse(`log(${node.args[0].toString()})`), parse(`log(${node.args[1].toString()})`));
+        }
+        if (node.args.length !== 1 || !FUNCTION_RULES[name]) return null;
+
+        const u = node.args[0];
+        const a = linearCoefficient(u, x);
+        if (a) {
+            this.rules.add(`integral of ${name}`);
+            return build(FUNCTION_RULES[name], { u, a });
+        }
+        return this.substitution([node]);
+    }
+
+    // ∫ k·g'(x)·f(g(x)) dx = k·F(g(x)), trying each factor's inner expression as g
+    private substitution(factors: MathNode[]): MathNode | null {
+        const { x } = this;
+        for (let i = 0; i < factors.length; i++) {
+            const factor = factors[i];
+            const rest = product(factors.filter((_, j) => j !== i));
+            const f = factor as MathNode & { fn?: { name: string } | string; args?: MathNode[] };
+
+            // g itself, or the argument of a function or the base of a power
+            const candidates: { g: MathNode; outer: (u: MathNode) => MathNode }[] = [{ g: factor, outer: u => u }];
+            if (f.type === 'FunctionNode' && f.args?.length === 1) {
+                candidates.push({ g: f.args[0], outer: u => build(`${(f.fn as { name: string }).name}({u})`, { u }) });
+            }
+            if (f.type === 'OperatorNode' && f.fn === 'pow' && !dependsOn(f.args![1], x)) {
+                candidates.push({ g: f.args![0], outer: u => build('{u}^{n}', { u, n: f.args![1] }) });
+            }
+            if (f.type === 'OperatorNode' && f.fn === 'pow' && !dependsOn(f.args![0], x)) {
+                candidates.push({ g: f.args![1], outer: u => build('{b}^{u}', { b: f.args![0], u }) });
+            }
+
+            for (const { g, outer } of candidates) {
+                if (linearCoefficient(g, x)) continue;
+                const k = simplify(build('{r} / {d}', { r: rest, d: derivative(g, x) }));
+                if (dependsOn(k, x)) continue;
+
+                // Integrate f(u) in a fresh variable, then put g back for it
+                const inner = new Integrator('u_');
+                const F = inner.integrate(outer(parse('u_')));
+                if (!F) continue;
+                this.rules.add(`substitution u = ${g.toString()}`);
+                inner.rules.forEach(rule => this.rules.add(rule));
+                return build('{k} * {F}', { k, F: F.transform(n => (n.type === 'SymbolNode' && (n as MathNode & { name: string }).name === 'u_' ? parse(`(${g.toString()})`) : n)) });
+            }
+        }
+        return null;
+    }
+
+    // ∫ p(x)·g(ax + b) dx for a polynomial p and g = exp, sin or cos, by
+    // repeated integration by parts (the tabular method)
+    private byParts(factors: MathNode[]): MathNode | null {
+        const { x } = this;
+        if (factors.length !== 2) return null;
+        for (const [p, g] of [factors, [factors[1], factors[0]]]) {
+            const fn = g as MathNode & { fn?: { name: string }; args?: MathNode[] };
+            if (fn.type !== 'FunctionNode' || !['exp', 'sin', 'cos'].includes(fn.fn!.name) || !isPolynomial(p, x)) continue;
+            const u = fn.args![0];
+            const a = linearCoefficient(u, x);
+            if (!a) continue;
+
+            // Successive antiderivatives of g, and derivatives of p
+            const antiderivatives = fn.fn!.name === 'exp'
+                ? ['exp({u}) / {a}^{k}']
+                : fn.fn!.name === 'sin'
+                    ? ['-cos({u}) / {a}^{k}', '-sin({u}) / {a}^{k}', 'cos({u}) / {a}^{k}', 'sin({u}) / {a}^{k}']
+                    : ['sin({u}) / {a}^{k}', '-cos({u}) / {a}^{k}', '-sin({u}) / {a}^{k}', 'cos({u}) / {a}^{k}'];
+
+            const terms: string[] = [];
+            let derivativeOfP = p;
+            for (let k = 1; dependsOn(derivativeOfP, x) || derivativeOfP.toString() !== '0'; k++) {
+                const G = build(antiderivatives[(k - 1) % antiderivatives.length], { u, a, k: parse(String(k)) });
+                terms.push(`${k % 2 === 1 ? '+' : '-'} (${derivativeOfP.toString()}) * (${G.toString()})`);
+                derivativeOfP = simplify(derivative(derivativeOfP, x));
+                if (k > 20) return null;
+            }
+            this.rules.add('integration by parts');
+            return parse(terms.join(' '));
+        }
+        return null;
+    }
+
+    // Polynomials multiplied out, then term by term
+    private expanded(node: MathNode): MathNode | null {
+        if (!isPolynomial(node, this.x)) return null;
+        const expanded = rationalize(node);
+        if (expanded.toString() === node.toString()) return null;
+        this.rules.add('expanding');
+        return this.integrate(expanded);
+    }
+}
+
+// Whether d/dx F matches f at most of the check points, where both are real
+function checkAntiderivative(F: MathNode, f: MathNode, x: string): boolean {
+    const [cF, cf] = [F.compile(), f.compile()];
+    const at = (compiled: typeof cF, value: number) => {
+        const result = compiled.evaluate({ [x]: value });
+        return typeof result === 'number' ? result : NaN;
+    };
+
+    let matched = 0;
+    for (const point of CHECK_POINTS) {
+        const h = 1e-5 * Math.max(1, Math.abs(point));
+        const slope = (at(cF, point + h) - at(cF, point - h)) / (2 * h);
+        const expected = at(cf, point);
+        if (!Number.isFinite(slope) || !Number.isFinite(expected)) continue;
+        if (Math.abs(slope - expected) > 1e-4 * Math.max(1, Math.abs(expected))) return false;
+        matched++;
+    }
+    return matched >= 2;
+}
+
+export function antiderivative(node: MathNode, x: string): { result: MathNode; rules: string[] } | null {
+    const integrator = new Integrator(x);
+    let F: MathNode | null;
+    try {
+        F = integrator.integrate(simplify(node));
+    } catch {
+        return null;
+    }
+    if (!F) return null;
+    const result = simplify(F);
+    return checkAntiderivative(result, node, x) ? { result, rules: [...integrator.rules] } : null;
+}
+
+// ---------------------------------------------
+// Integration
+// ---------------------------------------------
+
+// Adaptive Simpson's rule, to about ten significant digits
+function integrateNumerically(f: (x: number) => number, a: number, b: number): number {
+    const simpson = (l: number, r: number, fl: number, fm: number, fr: number) => (r - l) / 6 * (fl + 4 * fm + fr);
+    const recurse = (l: number, r: number, fl: number, fm: number, fr: number, whole: number, tolerance: number, depth: number): number => {
+        const m = (l + r) / 2;
+        const [lm, rm] = [(l + m) / 2, (m + r) / 2];
+        const [flm, frm] = [f(lm), f(rm)];
+        const left = simpson(l, m, fl, flm, fm);
+        const right = simpson(m, r, fm, frm, fr);
+        if (depth <= 0 || Math.abs(left + right - whole) <= 15 * tolerance) return left + right + (left + right - whole) / 15;
+        return recurse(l, m, fl, flm, fm, left, tolerance / 2, depth - 1) + recurse(m, r, fm, frm, fr, right, tolerance / 2, depth - 1);
+    };
+    const [fa, fm, fb] = [f(a), f((a + b) / 2), f(b)];
+    const whole = simpson(a, b, fa, fm, fb);
+    const result = recurse(a, b, fa, fm, fb, whole, 1e-10 * Math.max(1, Math.abs(whole)), 40);
+    if (!Number.isFinite(result)) throw new MathError('The integral doesn\'t converge numerically over that interval');
+    return result;
+}
+
+// Tanh-sinh quadrature, for pieces with an integrable singularity at an end:
+// substituting x = (l + r) / 2 + h tanh(π/2 sinh t) crowds the nodes toward both ends
+// while their weights fall off faster than the singularity grows. f is never
+// evaluated at the ends themselves.
+function integrateTanhSinh(f: (x: number) => number, l: number, r: number): number {
+    const h = (r - l) / 2;
+    const term = (t: number) => {
+        const u = Math.PI / 2 * Math.sinh(t);
+        // Distance from the nearer end, computed directly so it doesn't round to 0
+        const gap = 2 * h / (Math.exp(2 * Math.abs(u)) + 1);
+        const at = u < 0 ? l + gap : r - gap;
+        if (at <= l || at >= r) return 0;
+        const value = f(at) * h * Math.PI / 2 * Math.cosh(t) / Math.cosh(u) ** 2;
+        return Number.isFinite(value) ? value : 0;
+    };
+
+    const reach = 4;
+    let sum = term(0);
+    for (let k = 1; k <= reach; k++) sum += term(k) + term(-k);
+    let result = sum;
+    for (let level = 1; level <= 8; level++) {
+        const step = 2 ** -level;
+        for (let t = step; t <= reach; t += 2 * step) sum += term(t) + term(-t);
+        const next = sum * step;
+        if (level >= 3 && Math.abs(next - result) <= 1e-12 * Math.max(1, Math.abs(next))) return next;
+        result = next;
+    }
+    return result;
+}
+
+// ---------------------------------------------
+// Singularities
+// ---------------------------------------------
+
+const SINGULARITY_SAMPLES = 1000;
+// How many times its typical size an integrand must reach for a peak to count
+// as a pole, and how many times its size a millionth of the interval away
+const POLE_FACTOR = 1e6;
+const POLE_STEEPNESS = 1e3;
+
+// Whether f has a limit at `at` from the side `side` (+1 or -1) of it,
+// judged by its values 1e-6 and 1e-9 away: sin(x)/x does at 0, log(x) doesn't
+function hasLimit(f: (x: number) => number, at: number, side: number): boolean {
+    const step = side * Math.max(1, Math.abs(at));
+    const [near, nearer] = [f(at + 1e-6 * step), f(at + 1e-9 * step)];
+    return Number.isFinite(near) && Number.isFinite(nearer) && Math.abs(nearer - near) <= 1e-3 * Math.max(1, Math.abs(near));
+}
+
+// The points of [a, b] where f is unbounded: where it isn't finite, unless it
+// has a limit from both sides (like sin(x)/x at 0), and sharp peaks that keep
+// growing as they're narrowed down to floating-point precision, like tan at
+// pi/2. Infinite bounds are sampled through x = tan(t), and don't count.
+function singularities(f: (x: number) => number, a: number, b: number, expression: string): number[] {
+    const infinite = !Number.isFinite(a) || !Number.isFinite(b);
+    const toX = infinite ? Math.tan : (t: number) => t;
+    const [ta, tb] = infinite ? [Math.atan(a), Math.atan(b)] : [a, b];
+    const size = (t: number) => Math.abs(f(toX(t)));
+
+    const ts = Array.from({ length: SINGULARITY_SAMPLES + 1 }, (_, k) => ta + (tb - ta) * k / SINGULARITY_SAMPLES);
+    const sizes = ts.map(size);
+    const finite = sizes.filter(Number.isFinite).sort((p, q) => p - q);
+    const typical = Math.max(1, finite[Math.floor(finite.length / 2)] ?? 1);
+
+    const found: number[] = [];
+    ts.forEach((t, k) => {
+        const sides = [k > 0 ? -1 : 0, k < SINGULARITY_SAMPLES ? 1 : 0].filter(Boolean);
+        if (!Number.isFinite(sizes[k])) {
+            const x = toX(t);
+            if (Number.isNaN(sizes[k]) && sides.every(side => Number.isNaN(f(x + side * 1e-9 * Math.max(1, Math.abs(x)))))) {
+                throw new MathError(`${expression} isn't real everywhere between the bounds`);
+            }
+            if (!sides.every(side => hasLimit(f, x, side))) found.push(t);
+            return;
+        }
+
+        // Narrow a local peak down, keeping the larger half each time
+        const neighbours = sides.map(side => sizes[k + side]);
+        if (sizes[k] <= 10 * typical || neighbours.some(n => !(sizes[k] >= n))) return;
+        let [lo, hi] = [ts[Math.max(0, k - 1)], ts[Math.min(SINGULARITY_SAMPLES, k + 1)]];
+        let peak = sizes[k];
+        for (let step = 0; step < 60 && Number.isFinite(peak); step++) {
+            const [m1, m2] = [lo + (hi - lo) / 3, hi - (hi - lo) / 3];
+            const [s1, s2] = [size(m1), size(m2)];
+            if (!(s1 <= s2)) hi = m2;
+            else lo = m1;
+            peak = Math.max(peak, Number.isNaN(s1) ? 0 : s1, Number.isNaN(s2) ? 0 : s2);
+        }
+        const at = (lo + hi) / 2;
+        const shoulder = Math.max(...[at - 1e-6 * (tb - ta), at + 1e-6 * (tb - ta)].filter(t => t >= ta && t <= tb).map(size));
+        if (!Number.isFinite(peak) || (peak > POLE_FACTOR * typical && peak > POLE_STEEPNESS * shoulder)) found.push(at);
+    });
+
+    const tolerance = 1e-9 * (tb - ta);
+    return found
+        .sort((p, q) => p - q)
+        .filter((t, k, all) => k === 0 || t - all[k - 1] > tolerance)
+        .map(t => Math.abs(t - ta) <= tolerance ? a : Math.abs(t - tb) <= tolerance ? b : toX(t))
+        .filter(Number.isFinite);
+}
+
+// How g(ε) behaves as ε shrinks toward 0, from width/100 to width/1e12 in
+// steps of 100: it converges if each step changes it by at most 0.9 times
+// as much as the one before. Undefined values give 'unknown'.
+function limitBehaviour(g: (epsilon: number) => number, width: number): 'converges' | 'diverges' | 'unknown' {
+    const values = [2, 4, 6, 8, 10, 12].map(k => g(width * 10 ** -k));
+    if (values.some(Number.isNaN)) return 'unknown';
+    if (values.some(value => !Number.isFinite(value))) return 'diverges';
+
+    const scale = Math.max(1, ...values.map(Math.abs));
+    const changes = values.slice(1).map((value, k) => Math.abs(value - values[k]));
+    const settling = changes.every((change, k) => k === 0 || change <= 0.9 * changes[k - 1] || change <= 1e-10 * scale);
+    return settling ? 'converges' : 'diverges';
+}
+
+// x = t / (1 - t²) maps (-1, 1) onto the whole real line, so an integral out
+// to infinity becomes one over a finite interval in t, with
+// dx = (1 + t²) / (1 - t²)² dt. The integrand is never needed at t = ±1.
+const fromCompact = (t: number) => t / (1 - t * t);
+const toCompact = (x: number) => (Number.isFinite(x) ? 2 * x / (1 + Math.hypot(1, 2 * x)) : Math.sign(x));
+const compactified = (f: (x: number) => number) => (t: number) => f(fromCompact(t)) * (1 + t * t) / (1 - t * t) ** 2;
+
+interface Piece {
+    l: number;
+    r: number;
+    // Whether the integrand is unbounded at each end
+    openL: boolean;
+    openR: boolean;
+}
+
+// One piece of an improper integral, from the antiderivative's limits at its
+// open ends when they exist, otherwise numerically. Infinite bounds are open
+// ends of the same integral over t (see fromCompact). Throws if it diverges.
+function integratePiece(f: (x: number) => number, F: ((x: number) => number) | null, piece: Piece, describe: (at: number) => string): { value: number; numeric: boolean } {
+    const { l, r, openL, openR } = piece;
+    const ends = [{ at: l, open: openL, side: 1 }, { at: r, open: openR, side: -1 }].filter(end => end.open);
+    const diverges = (at: number) => new MathError(`The integral diverges: the area near ${describe(at)} isn't finite`);
+
+    if (F) {
+        const behaviours = ends.map(({ at, side }) => limitBehaviour(epsilon => F(at + side * epsilon), r - l));
+        const divergent = behaviours.indexOf('diverges');
+        if (divergent >= 0) throw diverges(ends[divergent].at);
+        const value = F(r) - F(l);
+        if (!behaviours.includes('unknown') && Number.isFinite(value)) return { value, numeric: false };
+    }
+
+    if (!Number.isFinite(l) || !Number.isFinite(r)) {
+        const compact = { l: toCompact(l), r: toCompact(r), openL: openL || !Number.isFinite(l), openR: openR || !Number.isFinite(r) };
+        return integratePiece(compactified(f), null, compact, t => describe(fromCompact(t)));
+    }
+    const m = (l + r) / 2;
+    for (const { at, side } of ends) {
+        const behaviour = limitBehaviour(epsilon => side > 0 ? integrateTanhSinh(f, at + epsilon, m) : integrateTanhSinh(f, m, at - epsilon), r - l);
+        if (behaviour !== 'converges') throw diverges(at);
+    }
+    return { value: ends.length ? integrateTanhSinh(f, l, r) : integrateNumerically(f, l, r), numeric: true };
+}
+
+export function integrate(
+    expression: string,
+    options: { variable?: string; bounds?: [string, string] } = {},
+): { problem: string; steps: Step[]; result: MathNode | null; latex: string | null; value: Evaluated | null } {
+    const node = parseExpression(expression);
+    const x = variableOf(node, options.variable);
+    const integrand = `${toTex(node)}\\,d${x}`;
+    const found = antiderivative(node, x);
+    const latex = found && `${toTex(found.result)} + C`;
+    const steps: Step[] = [];
+
+    if (found) {
+        steps.push(
+            { label: `Rules: ${found.rules.join(', ')}`, latex: `\\int ${integrand} = ${latex}` },
+            { label: 'Check by differentiating', latex: `\\frac{d}{d${x}}\\left[${toTex(found.result)}\\right] = ${toTex(node)}` },
+        );
+    } else if (!options.bounds) {
+        throw new MathError(`No antiderivative found for ${expression}; give bounds to integrate it numerically`);
+    }
+
+    if (!options.bounds) return { problem: `\\int ${integrand}`, steps, result: found?.result ?? null, latex, value: null };
+
+    const [lower, upper] = options.bounds.map(bound => parseExpression(bound));
+    const [a, b] = [lower, upper].map(bound => evaluateNode(bound));
+    if (typeof a !== 'number' || typeof b !== 'number' || Number.isNaN(a) || Number.isNaN(b)) {
+        throw new MathError('The bounds must be real numbers');
+    }
+    const definite = `\\int_{${toTex(lower)}}^{${toTex(upper)}} ${integrand}`;
+
+    // f with removable holes like sin(x)/x at 0 filled in from either side
+    const compiled = node.compile();
+    const raw = (t: number) => {
+        const result = compiled.evaluate({ [x]: t });
+        return typeof result === 'number' ? result : NaN;
+    };
+    const f = (t: number) => {
+        const value = raw(t);
+        if (Number.isFinite(value)) return value;
+        const nudge = 1e-9 * Math.max(1, Math.abs(t));
+        return (raw(t - nudge) + raw(t + nudge)) / 2;
+    };
+
+    // Where the integrand is unbounded, the fundamental theorem doesn't apply
+    // across the point: each side is an improper integral of its own
+    const [lo, hi] = a <= b ? [a, b] : [b, a];
+    const describe = (at: number) => (Number.isFinite(at)
+        ? `${x} = ${describeValue(Math.abs(at) < 1e-12 * Math.max(1, hi - lo) ? 0 : at).text}`
+        : `${x} → ${at > 0 ? '∞' : '-∞'}`);
+    const poles = singularities(raw, lo, hi, expression);
+    if (poles.length) {
+        const F = found && ((t: number) => valueAt(found.result, x, t));
+        const points = [...new Set([lo, ...poles, hi])];
+        let total = 0;
+        let numeric = false;
+        for (let k = 1; k < points.length; k++) {
+            const [l, r] = [points[k - 1], points[k]];
+            const piece = integratePiece(f, F, { l, r, openL: poles.includes(l), openR: poles.includes(r) }, describe);
+            total += piece.value;
+            numeric ||= piece.numeric;
+        }
+        const value = describeValue(a <= b ? total : -total);
+        steps.push({
+            label: `Improper integral: unbounded at ${poles.map(describe).join(', ')}, where the limits exist`,
+            latex: `${definite} ${numeric ? '\\approx' : '='} ${value.latex}`,
+        });
+        return { problem: definite, steps, result: found?.result ?? null, latex, value };
+    }
+
+    if (found) {
+        const value = valueAt(found.result, x, b) - valueAt(found.result, x, a);
+        if (Number.isFinite(value)) {
+            const evaluated = describeValue(value);
+            steps.push({
+                label: 'Evaluate between the bounds',
+                latex: `${definite} = \\Big[${toTex(found.result)}\\Big]_{${toTex(lower)}}^{${toTex(upper)}} = ${evaluated.latex}`,
+            });
+            return { problem: definite, steps, result: found.result, latex, value: evaluated };
+        }
+    }
+
+    if (!Number.isFinite(a) || !Number.isFinite(b)) {
+        const { value: total } = integratePiece(f, null, { l: lo, r: hi, openL: false, openR: false }, describe);
+        const value = describeValue(a <= b ? total : -total);
+        steps.push({
+            label: `Substitute ${x} = t/(1 - t^2) for a finite interval, then tanh-sinh quadrature`,
+            latex: `${definite} \\approx ${value.latex}`,
+        });
+        return { problem: definite, steps, result: found?.result ?? null, latex, value };
+    }
+    const value = describeValue(integrateNumerically(f, a, b));
+    steps.push({ label: "Adaptive Simpson's rule", latex: `${definite} \\approx ${value.latex}` });
+    return { problem: definite, steps, result: found?.result ?? null, latex, value };
+}
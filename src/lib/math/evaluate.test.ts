@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './evaluate';
+import { MathError } from './sandbox';
+
+describe('evaluateExpression', () => {
+    it('converts units with "to"', () => {
+        const { result } = evaluateExpression('5 km/h to m/s');
+
+        expect(result.value).toBeCloseTo(1.388888889, 9);
+        expect(result.unit).toBe('m / s');
+    });
+
+    it('carries definitions from one statement to the next', () => {
+        const { steps, result } = evaluateExpression('v = 7.8 km/s; v * 90 minute to km');
+
+        expect(steps.map(step => step.label)).toEqual(['Define', 'Evaluate']);
+        expect(result.value).toBeCloseTo(42120, 6);
+        expect(result.unit).toBe('km');
+    });
+
+    it('gives ten significant digits', () => {
+        expect(evaluateExpression('sqrt(2)').result.text).toBe('1.414213562');
+        expect(evaluateExpression('det([1, 2; 3, 4])').result.value).toBeCloseTo(-2, 12);
+    });
+
+    it('reports what it can\'t read as a MathError', () => {
+        expect(() => evaluateExpression('2 +')).toThrow(MathError);
+        expect(() => evaluateExpression('undefinedSymbol + 1')).toThrow(MathError);
+    });
+});
@@ -0,0 +1,53 @@
+import type { MathNode } from 'mathjs';
+import { MathError, evaluateNode, formatValue, isUnit, parseExpression, toTex, type MathValue, type Step } from './sandbox';
+
+// =============================================
+// EVALUATION
+// =============================================
+
+// A value as the tool reports it: text and LaTeX for showing, and the number
+// with its unit when it is a real quantity
+export interface Evaluated {
+    text: string;
+    latex: string;
+    value: number | null;
+    unit: string | null;
+}
+
+export function describeValue(value: MathValue): Evaluated {
+    const formatted = formatValue(value);
+    if (typeof value === 'number') return { ...formatted, value, unit: null };
+    if (isUnit(value)) {
+        const unit = value.formatUnits();
+        return { ...formatted, value: unit ? value.toNumber(unit) : value.toNumber(), unit: unit || null };
+    }
+    return { ...formatted, value: null, unit: null };
+}
+
+// Statements separated by newlines or semicolons, e.g. "v = 7.8 km/s; v to mi/h".
+// Each one is a step; the last one's value is the result.
+export function evaluateExpression(text: string): { problem: string; steps: Step[]; result: Evaluated } {
+    const root = parseExpression(text);
+    const statements: MathNode[] = root.type === 'BlockNode'
+        ? (root as MathNode & { blocks: { node: MathNode }[] }).blocks.map(block => block.node)
+        : [root];
+
+    const scope = new Map<string, unknown>();
+    const steps: Step[] = [];
+    let last: Evaluated | null = null;
+
+    for (const statement of statements) {
+        const value = evaluateNode(statement, scope);
+        if (value === undefined) continue;
+        last = describeValue(value);
+        // "v = 7.8 km/s" needs no "= 7.8 km/s" after it
+        const assigned = statement.type === 'AssignmentNode' ? (statement as MathNode & { value: MathNode }).value : null;
+        steps.push({
+            label: assigned ? 'Define' : 'Evaluate',
+            latex: assigned && toTex(assigned) === last.latex ? toTex(statement) : `${toTex(statement)} = ${last.latex}`,
+        });
+    }
+
+    if (!last) throw new MathError('There is nothing to evaluate');
+    return { problem: statements.map(toTex).join(';\\quad '), steps, result: last };
+}
@@ -0,0 +1,4 @@
+export { MathError, MAX_EXPRESSION_LENGTH, withinTimeLimit, type Step } from './sandbox';
+export { evaluateExpression, describeValue, type Evaluated } from './evaluate';
+export { solveEquations, type Solution } from './solve';
+export { differentiate, integrate, antiderivative } from './calculus';
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './evaluate';
+import { MathError, parseExpression, withinTimeLimit } from './sandbox';
+
+// Each escape is a short expression that, unchecked, would reconfigure the
+// shared instance, allocate without bound or run for minutes
+
+const refused = (expression: string) => expect(() => evaluateExpression(expression)).toThrow(MathError);
+
+describe('parseExpression', () => {
+    it('refuses function definitions, ranges, method calls and element assignment', () => {
+        for (const text of ['f(x) = x^2', '1:1e9', 'a = [1]; a.resize([1e9])', 'a = [1]; a[1e9] = 1', 'a = 1 cm; a.units = 2']) {
+            expect(() => parseExpression(text), text).toThrow(MathError);
+        }
+    });
+
+    it('refuses expressions over the length limit', () => {
+        expect(() => parseExpression('1+'.repeat(300) + '1')).toThrow(/limited to 500 characters/);
+    });
+});
+
+describe('disabled functions', () => {
+    it('keeps config from changing the instance for later callers', () => {
+        refused('config({number: "Fraction"})');
+        expect(evaluateExpression('1/4').result.text).toBe('0.25');
+    });
+
+    it('refuses the parser, arbitrary precision and size-driven functions', () => {
+        for (const expression of ['evaluate("1")', 'bigint(3)^bigint(1e8)', 'fraction(3)^1e6', 'bignumber(1e6)', 'nthRoots(8, 1e7)']) {
+            refused(expression);
+        }
+    });
+
+    it('leaves mathjs\'s own uses of them working', () => {
+        // expm and qr build identity matrices, eigs bignumbers and setCartesian uses subset
+        expect(evaluateExpression('expm([0, 1; 0, 0])').result.text).toBe('[[1, 1], [0, 1]]');
+        expect(evaluateExpression('qr([3, 0; 4, 5]).R').result.text).toBe('[[5, 4], [0, 3]]');
+        expect(evaluateExpression('eigs([2, 0; 0, 3]).values').result.text).toBe('[2, 3]');
+        expect(evaluateExpression('setCartesian([1, 2], [3])').result.text).toBe('[[1, 3], [2, 3]]');
+    });
+});
+
+describe('capped functions', () => {
+    it('refuses arguments that would loop for minutes', () => {
+        for (const expression of ['combinations(1e9, 5e8)', 'combinationsWithRep(1e9, 5e8)', 'permutations(1e9, 5e8)', 'catalan(1e8)', 'factorial(1e9)', 'isPrime(9007199254740881)']) {
+            refused(expression);
+        }
+    });
+
+    it('still answers within the caps', () => {
+        expect(evaluateExpression('combinations(52, 5)').result.value).toBe(2598960);
+        expect(evaluateExpression('factorial(10)').result.value).toBe(3628800);
+        expect(evaluateExpression('isPrime(999999999989)').result.text).toBe('true');
+    });
+
+});
+
+describe('sized functions', () => {
+    // 512 elements, under the limit
+    const vector = 'a = [1, 2]' + '; a = concat(a, a)'.repeat(8);
+    const tooLarge = (expression: string) => expect(() => evaluateExpression(expression), expression).toThrow(/limited to 1000 elements/);
+
+    it('stops matrices from being doubled past the element limit', () => {
+        tooLarge('a = [1, 2]' + '; a = concat(a, a)'.repeat(10));
+        expect(evaluateExpression('concat([1, 2], [3])').result.text).toBe('[1, 2, 3]');
+    });
+
+    it('refuses products and broadcasts before they are built', () => {
+        for (const operation of ['*', '.*', '+', '.^']) {
+            tooLarge(`${vector}; reshape(a, [512, 1]) ${operation} reshape(a, [1, 512])`);
+        }
+        tooLarge(`${vector}; diag(a)`);
+        tooLarge(`${vector}; setCartesian(a, a)`);
+        tooLarge(`${vector}; kron(a, a)`);
+        tooLarge('setPowerset([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11])');
+    });
+
+    it('refuses sizes past the element limit', () => {
+        for (const expression of ['zeros(1e5, 1e5)', 'ones([1e4, 1e4])', 'identity(1e5)', 'range(0, 1e9)', 'range("0:1e9")', 'resize([1], [1e9])', 'diag([1], 1e6)', 'zeros(NaN)']) {
+            tooLarge(expression);
+        }
+    });
+
+    it('still builds matrices within the limit', () => {
+        expect(evaluateExpression('[1; 2] * [[3, 4]]').result.text).toBe('[[3, 4], [6, 8]]');
+        expect(evaluateExpression('[1; 2] .* [3, 4]').result.text).toBe('[[3, 4], [6, 8]]');
+        expect(evaluateExpression('zeros(2, 3)').result.text).toBe('[[0, 0, 0], [0, 0, 0]]');
+        expect(evaluateExpression('identity(2)').result.text).toBe('[[1, 0], [0, 1]]');
+        expect(evaluateExpression('kron([1, 2], [1, 10])').result.text).toBe('[1, 10, 2, 20]');
+        expect(evaluateExpression('range(0, 3)').result.text).toBe('[0, 1, 2]');
+    });
+});
+
+describe('withinTimeLimit', () => {
+    it('stops a calculation that runs too long', () => {
+        expect(() => withinTimeLimit(() => {
+            for (;;);
+        })).toThrow(/took longer than 2 seconds/);
+    });
+
+    it('passes results and MathErrors through', () => {
+        expect(withinTimeLimit(() => 42)).toBe(42);
+        expect(() => withinTimeLimit(() => evaluateExpression('config({})'))).toThrow(MathError);
+    });
+});
@@ -0,0 +1,265 @@
+import vm from 'node:vm';
+import { all, create, type MathNode, type Unit } from 'mathjs';
+
+// =============================================
+// SANDBOXED EXPRESSIONS
+// =============================================
+// One mathjs instance for everything the math tool evaluates. Expressions
+// come from the model, so they can't reach JavaScript (mathjs has no access
+// to globals), can't redefine or reconfigure the instance, and can't build the
+// functions, ranges or matrices that would let a short expression run for
+// minutes or fill memory. Whatever gets past that is stopped by a time limit.
+// See https://mathjs.org/docs/expressions/security.html.
+
+export class MathError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MathError';
+    }
+}
+
+// Longest expression or equation accepted, in characters
+export const MAX_EXPRESSION_LENGTH = 500;
+
+const math = create(all, {});
+
+// mathjs builds each function on first use, from whatever the instance holds
+// by then. Building them all now keeps its own functions on the originals
+// (expm calls identity, setCartesian calls subset), so only expressions get
+// the disabled and checked versions imported below.
+for (const name of Object.keys(math)) void math[name as keyof typeof math];
+
+// Kept for our own use before the expression-level names are disabled below
+export const { parse, simplify, derivative, rationalize, polynomialRoot, lusolve, format, isUnit, isComplex } = math;
+
+// Most elements a matrix may have, as a result or on the way to one
+const MAX_MATRIX_ELEMENTS = 1000;
+
+// Longest result shown, in characters
+const MAX_RESULT_LENGTH = 10000;
+
+// Longest a calculation may run, in milliseconds
+const TIME_LIMIT_MS = 2000;
+
+const DISABLED_FUNCTIONS = [
+    // Reach into the instance or its parser, or change its configuration for every later caller
+    'import', 'createUnit', 'evaluate', 'parse', 'compile', 'simplify', 'derivative', 'resolve', 'rationalize', 'reviver', 'config', 'chain',
+    // Sizes given as arguments, so a few characters can allocate gigabytes
+    'subset', 'nthRoots', 'matrixFromFunction', 'random', 'randomInt', 'pickRandom',
+    // Arbitrary precision, where one power or factorial runs in native code the time limit can't interrupt
+    'bignumber', 'bigint', 'fraction',
+    // Loop for as long as their arguments are large
+    'bellNumbers', 'stirlingS2', 'composition', 'solveODE',
+];
+
+// Functions that loop about as many times as their arguments are large, with
+// the largest argument each accepts. Past 170 a factorial overflows anyway.
+const CAPPED_FUNCTIONS: Record<string, number> = {
+    factorial: 170,
+    gamma: 171,
+    combinations: 1e6,
+    combinationsWithRep: 1e6,
+    permutations: 1e6,
+    catalan: 1e4,
+    isPrime: 1e12,
+};
+
+function elementCount(value: unknown): number {
+    if (Array.isArray(value)) return value.reduce((count: number, item) => count + elementCount(item), 0);
+    if (math.isMatrix(value)) return value.size().reduce((count, n) => count * n, 1);
+    return 1;
+}
+
+// A matrix or nested array's dimensions; [] for anything else
+function shapeOf(value: unknown): number[] {
+    if (math.isMatrix(value)) return value.size();
+    if (Array.isArray(value)) return [value.length, ...shapeOf(value[0])];
+    return [];
+}
+
+const product = (sizes: number[]) => sizes.reduce((count, n) => count * n, 1);
+
+// The numbers in size arguments like zeros(2, 3) or zeros([2, 3]); strings
+// such as a "sparse" format are skipped
+function dimensions(args: unknown[]): number[] {
+    return args.flatMap(arg => {
+        if (math.isMatrix(arg)) return (arg.toArray() as unknown[]).flat(Infinity).map(Number);
+        if (Array.isArray(arg)) return arg.flat(Infinity).map(Number);
+        return typeof arg === 'number' ? [arg] : [];
+    });
+}
+
+// range(start, end, step) or range("start:end:step"), end excluded
+function rangeLength(args: unknown[]): number {
+    const [start, end, step = 1] = typeof args[0] === 'string' ? args[0].split(':').map(Number) : args.map(Number);
+    return Math.ceil(Math.abs((end - start) / step)) + 1;
+}
+
+// Element-wise functions stretch size-1 dimensions to match, so a column and
+// a row make a full matrix
+function broadcastShape(args: unknown[]): number[] {
+    const shapes = args.map(shapeOf);
+    const rank = Math.max(...shapes.map(shape => shape.length));
+    return Array.from({ length: rank }, (_, i) => Math.max(...shapes.map(shape => shape[shape.length - rank + i] ?? 1)));
+}
+
+// Matrix products, left to right: an n x 1 column times a 1 x n row is n x n
+function productShape(args: unknown[]): number[] {
+    return args.map(shapeOf).reduce((left, right) => {
+        if (left.length === 0) return right;
+        if (right.length === 0) return left;
+        return [...left.slice(0, -1), ...right.slice(1)];
+    }, []);
+}
+
+function largestNumber(value: unknown): number {
+    if (typeof value === 'number') return Math.abs(value);
+    if (Array.isArray(value)) return Math.max(0, ...value.map(largestNumber));
+    if (math.isMatrix(value)) return largestNumber(value.toArray());
+    return 0;
+}
+
+// Functions whose result can be much larger than their arguments, with the
+// number of elements it would have. Checked before the function runs, since a
+// few steps of squaring a matrix's size reach billions of elements.
+const SIZED_FUNCTIONS: Record<string, (args: unknown[]) => number> = {
+    // Joining a matrix to itself doubles it
+    concat: args => elementCount(args),
+    zeros: args => product(dimensions(args)),
+    ones: args => product(dimensions(args)),
+    identity: args => (dimensions(args).length === 1 ? dimensions(args)[0] ** 2 : product(dimensions(args))),
+    range: rangeLength,
+    resize: ([, size]) => product(dimensions([size])),
+    reshape: ([, sizes]) => product(dimensions([sizes])),
+    multiply: args => product(productShape(args)),
+    kron: args => product(args.map(elementCount)),
+    // A vector becomes a square matrix, one wider for each diagonal it is moved off
+    diag: ([value, k]) => (shapeOf(value).length === 1 ? (elementCount(value) + largestNumber(k)) ** 2 : elementCount(value)),
+    setCartesian: ([a, b]) => elementCount(a) * elementCount(b),
+    setPowerset: ([a]) => 2 ** elementCount(a),
+    ...Object.fromEntries([
+        'add', 'subtract', 'dotMultiply', 'dotDivide', 'dotPow', 'mod', 'atan2', 'gcd', 'lcm', 'nthRoot', 'log', 'round',
+        'equal', 'unequal', 'larger', 'largerEq', 'smaller', 'smallerEq', 'compare', 'and', 'or', 'xor', 'map',
+    ].map(name => [name, (args: unknown[]) => product(broadcastShape(args))])),
+};
+
+const disabled = Object.fromEntries(DISABLED_FUNCTIONS.map(name => [name, () => {
+    throw new MathError(`${name} isn't available here`);
+}]));
+
+const capped = Object.fromEntries(Object.entries(CAPPED_FUNCTIONS).map(([name, limit]) => {
+    const original = math[name as keyof typeof math] as (...args: unknown[]) => unknown;
+    return [name, (...args: unknown[]) => {
+        if (args.some(arg => largestNumber(arg) > limit)) throw new MathError(`${name} is limited to arguments up to ${limit}`);
+        return original(...args);
+    }];
+}));
+
+const sized = Object.fromEntries(Object.entries(SIZED_FUNCTIONS).map(([name, resultSize]) => {
+    const original = math[name as keyof typeof math] as (...args: unknown[]) => unknown;
+    return [name, (...args: unknown[]) => {
+        // Also refuses sizes that aren't numbers, rather than guess
+        if (!(resultSize(args) <= MAX_MATRIX_ELEMENTS)) throw new MathError(`Matrices are limited to ${MAX_MATRIX_ELEMENTS} elements`);
+        return original(...args);
+    }];
+}));
+
+math.import({ ...disabled, ...capped, ...sized }, { override: true });
+
+// One context, reused: the task is swapped in for each run
+const timer = vm.createContext({ task: (): unknown => undefined });
+const runTask = new vm.Script('task()');
+
+// Runs `task`, stopping it after TIME_LIMIT_MS. mathjs is plain JavaScript, so
+// the limit interrupts its loops however large the arguments that drive them.
+export function withinTimeLimit<T>(task: () => T): T {
+    timer.task = task;
+    try {
+        return runTask.runInContext(timer, { timeout: TIME_LIMIT_MS }) as T;
+    } catch (error) {
+        if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+            throw new MathError(`The calculation took longer than ${TIME_LIMIT_MS / 1000} seconds and was stopped`);
+        }
+        throw error;
+    } finally {
+        timer.task = () => undefined;
+    }
+}
+
+// Values an evaluated expression can have; matrices and complex numbers are
+// shown with their own formatting
+export type MathValue = number | Unit | { toString(): string };
+
+// Parses `text`, refusing the node types that define functions or ranges, and
+// method calls and element assignment, which resize matrices in place
+export function parseExpression(text: string): MathNode {
+    if (text.length > MAX_EXPRESSION_LENGTH) {
+        throw new MathError(`Expressions are limited to ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+
+    let node: MathNode;
+    try {
+        node = parse(text);
+    } catch (error) {
+        throw new MathError(`Can't read "${text}": ${(error as Error).message}`);
+    }
+
+    node.traverse(child => {
+        if (child.type === 'FunctionAssignmentNode') throw new MathError('Defining functions isn\'t supported; write the expression out');
+        if (child.type === 'RangeNode') throw new MathError('Ranges (a:b) aren\'t supported');
+        if (child.type === 'FunctionNode' && (child as MathNode & { fn: MathNode }).fn.type !== 'SymbolNode') {
+            throw new MathError('Method calls like a.size() aren\'t supported; call the function, e.g. size(a)');
+        }
+        if (child.type === 'AssignmentNode' && (child as MathNode & { index: MathNode | null }).index) {
+            throw new MathError('Assigning to elements or properties isn\'t supported; assign whole values');
+        }
+    });
+    return node;
+}
+
+// Evaluates a parsed node against `scope`, turning mathjs errors into MathErrors
+export function evaluateNode(node: MathNode, scope: Map<string, unknown> = new Map()): MathValue {
+    try {
+        return node.compile().evaluate(scope);
+    } catch (error) {
+        if (error instanceof MathError) throw error;
+        throw new MathError(`Can't evaluate ${node.toString()}: ${(error as Error).message}`);
+    }
+}
+
+// One line of working: what was done, and the result as LaTeX
+export interface Step {
+    label: string;
+    latex: string;
+}
+
+// LaTeX that KaTeX renders, with implicit multiplication kept implicit
+export function toTex(node: MathNode): string {
+    return node.toTex({ parenthesis: 'auto', implicit: 'hide' });
+}
+
+// A value as text and LaTeX, to ten significant digits
+export function formatValue(value: MathValue): { text: string; latex: string } {
+    if (elementCount(value) > MAX_MATRIX_ELEMENTS) throw new MathError(`Results are limited to ${MAX_MATRIX_ELEMENTS} elements`);
+    const text = format(value, { precision: 10 });
+    if (text.length > MAX_RESULT_LENGTH) throw new MathError(`Results are limited to ${MAX_RESULT_LENGTH} characters`);
+    try {
+        return { text, latex: toTex(parse(text)) };
+    } catch {
+        return { text, latex: `\\text{${text}}` };
+    }
+}
+
+// The symbols in a node that aren't constants or functions, e.g. x and y in
+// x^2 + sin(y) + pi. Unit names count too: in an equation or integral, m and
+// s are variables rather than metres and seconds.
+export function freeVariables(node: MathNode): string[] {
+    const names = new Set<string>();
+    node.traverse((child, _path, parent) => {
+        if (child.type !== 'SymbolNode') return;
+        const { name } = child as MathNode & { name: string };
+        const isFunctionName = parent?.type === 'FunctionNode' && (parent as MathNode & { fn: MathNode }).fn === child;
+        if (!isFunctionName && !(name in math)) names.add(name);
+    });
+    return [...names];
+}
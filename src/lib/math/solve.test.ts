@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { MathError } from './sandbox';
+import { solveEquations } from './solve';
+
+const valuesOf = (equations: string[]) => solveEquations(equations).solutions.map(solution => solution.values);
+
+describe('solveEquations', () => {
+    it('solves polynomials exactly', () => {
+        expect(valuesOf(['x^2 - 5x + 6 = 0']).map(values => values.x).sort()).toEqual([2, 3]);
+    });
+
+    it('solves equations with no closed form numerically', () => {
+        const [{ x }] = valuesOf(['cos(x) = x']);
+        expect(x).toBeCloseTo(0.7390851332, 9);
+    });
+
+    it('solves linear systems', () => {
+        const [{ x, y }] = valuesOf(['x + y = 3', 'x - y = 1']);
+
+        expect(x).toBeCloseTo(2, 12);
+        expect(y).toBeCloseTo(1, 12);
+    });
+
+    it('says when a system has infinitely many solutions rather than picking one', () => {
+        expect(() => solveEquations(['x + y = 3', '2x + 2y = 6'])).toThrow(/infinitely many solutions/);
+        expect(() => solveEquations(['0.1x + 0.2y = 0.3', '0.3x + 0.6y = 0.9'])).toThrow(/infinitely many solutions/);
+    });
+
+    it('says when a system has no solution', () => {
+        expect(() => solveEquations(['x + y = 3', 'x + y = 4'])).toThrow(/no solution/);
+    });
+
+    it('refuses nonlinear systems', () => {
+        expect(() => solveEquations(['x * y = 2', 'x + y = 3'])).toThrow(MathError);
+    });
+});
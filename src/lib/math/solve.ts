@@ -0,0 +1,248 @@
+import type { MathNode } from 'mathjs';
+import {
+    MathError,
+    evaluateNode,
+    format,
+    freeVariables,
+    isComplex,
+    lusolve,
+    parse,
+    parseExpression,
+    polynomialRoot,
+    rationalize,
+    simplify,
+    derivative,
+    toTex,
+    type Step,
+} from './sandbox';
+
+// =============================================
+// EQUATIONS
+// =============================================
+// One equation in one unknown: exactly when it's a polynomial of degree three
+// or less, otherwise by bracketing sign changes over an interval. Several
+// equations: exactly when they're linear, by LU decomposition.
+
+// One solution: each unknown's value as LaTeX, and as a number when it's real
+export interface Solution {
+    latex: string;
+    values: Record<string, number | null>;
+}
+
+const DEFAULT_INTERVAL: [number, number] = [-100, 100];
+const SAMPLES = 4000;
+const MAX_ROOTS = 20;
+
+// An equation's two sides; an expression without "=" is taken as equal to zero
+function sidesOf(equation: string): [MathNode, MathNode] {
+    const sides = equation.split(/(?<![<>=!])=(?!=)/);
+    if (sides.length > 2) throw new MathError(`"${equation}" has more than one "="`);
+    return [parseExpression(sides[0]), sides.length === 2 ? parseExpression(sides[1]) : parse('0')];
+}
+
+function unknownsOf(nodes: MathNode[], given: string[] | undefined): string[] {
+    const free = [...new Set(nodes.flatMap(freeVariables))];
+    const unknowns = given?.length ? given : free;
+    const extra = free.filter(name => !unknowns.includes(name));
+    if (extra.length > 0) throw new MathError(`Give a value for ${extra.join(', ')}, or list it as an unknown`);
+    if (unknowns.length === 0) throw new MathError('There is no unknown to solve for');
+    return unknowns;
+}
+
+function real(value: unknown): number | null {
+    if (typeof value === 'number') return value;
+    if (isComplex(value) && Math.abs(value.im) < 1e-12 * Math.max(1, Math.abs(value.re))) return value.re;
+    return null;
+}
+
+function formatNumber(value: unknown): string {
+    return format(value, { precision: 10 });
+}
+
+function numberTex(value: unknown): string {
+    return toTex(parse(formatNumber(value)));
+}
+
+function bmatrix(rows: string[][]): string {
+    return `\\begin{bmatrix} ${rows.map(row => row.join(' & ')).join(' \\\\ ')} \\end{bmatrix}`;
+}
+
+// ---------------------------------------------
+// One equation
+// ---------------------------------------------
+
+// The polynomial's coefficients, constant term first, when the expression is
+// a polynomial in `x` of degree 1-3
+function polynomialCoefficients(node: MathNode, x: string): number[] | null {
+    try {
+        const { coefficients, variables, denominator } = rationalize(node, {}, true) as unknown as {
+            coefficients: number[];
+            variables: string[];
+            denominator: MathNode | null;
+        };
+        if (denominator || variables.length !== 1 || variables[0] !== x) return null;
+        if (coefficients.length < 2 || coefficients.length > 4) return null;
+        return coefficients;
+    } catch {
+        return null;
+    }
+}
+
+function solvePolynomial(node: MathNode, coefficients: number[], x: string, steps: Step[]): Solution[] {
+    const degree = coefficients.length - 1;
+    steps.push({ label: `Polynomial of degree ${degree}`, latex: `${toTex(rationalize(node))} = 0` });
+    if (degree === 2) {
+        const [c, b, a] = coefficients;
+        steps.push(
+            { label: 'Quadratic formula', latex: `${x} = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}` },
+            { label: 'Discriminant', latex: `b^2 - 4ac = ${numberTex(b * b - 4 * a * c)}` },
+        );
+    }
+
+    const roots = (polynomialRoot as (...coefficients: number[]) => unknown[])(...coefficients);
+    return roots.map(root => ({ latex: `${x} = ${numberTex(root)}`, values: { [x]: real(root) } }));
+}
+
+// Real roots in `interval`: sign changes between samples, refined by bisection.
+// A root where the curve only touches zero has no sign change, so isn't found.
+function solveNumerically(node: MathNode, x: string, interval: [number, number], steps: Step[]): Solution[] {
+    const compiled = node.compile();
+    const f = (value: number) => {
+        const result = real(compiled.evaluate({ [x]: value }));
+        return result === null || !Number.isFinite(result) ? NaN : result;
+    };
+    const [lo, hi] = interval;
+    if (!(lo < hi)) throw new MathError('The search interval must run from a smaller to a larger number');
+
+    steps.push({
+        label: 'No closed form; searched numerically for sign changes',
+        latex: `${x} \\in [${formatNumber(lo)}, ${formatNumber(hi)}]`,
+    });
+
+    const roots: number[] = [];
+    const step = (hi - lo) / SAMPLES;
+    let [a, fa] = [lo, f(lo)];
+    for (let k = 1; k <= SAMPLES && roots.length < MAX_ROOTS; k++) {
+        const b = lo + k * step;
+        const fb = f(b);
+        if (fa === 0) roots.push(a);
+        else if (fa * fb < 0) {
+            let [l, r, fl] = [a, b, fa];
+            for (let i = 0; i < 200 && r - l > 1e-14 * Math.max(1, Math.abs(l)); i++) {
+                const mid = (l + r) / 2;
+                const fm = f(mid);
+                if (fm === 0) [l, r] = [mid, mid];
+                else if (fl * fm < 0) r = mid;
+                else [l, fl] = [mid, fm];
+            }
+            const root = (l + r) / 2;
+            // A sign change across a pole (e.g. tan) isn't a root
+            const scale = Math.max(1, Math.abs(fa), Math.abs(fb));
+            if (Math.abs(f(root)) < 1e-6 * scale) roots.push(root);
+        }
+        [a, fa] = [b, fb];
+    }
+
+    if (roots.length === 0) throw new MathError(`No real solution found for ${x} between ${formatNumber(lo)} and ${formatNumber(hi)}`);
+    return roots.map(root => ({ latex: `${x} \\approx ${numberTex(root)}`, values: { [x]: root } }));
+}
+
+// ---------------------------------------------
+// Linear systems
+// ---------------------------------------------
+
+// Rank by Gaussian elimination with partial pivoting, treating pivots below
+// 1e-10 of the largest entry as zero
+function rank(matrix: number[][]): number {
+    const rows = matrix.map(row => [...row]);
+    const tolerance = 1e-10 * Math.max(1, ...rows.flat().map(Math.abs));
+    let found = 0;
+    for (let column = 0; column < (rows[0]?.length ?? 0) && found < rows.length; column++) {
+        let pivot = found;
+        for (let i = found + 1; i < rows.length; i++) {
+            if (Math.abs(rows[i][column]) > Math.abs(rows[pivot][column])) pivot = i;
+        }
+        if (Math.abs(rows[pivot][column]) <= tolerance) continue;
+        [rows[found], rows[pivot]] = [rows[pivot], rows[found]];
+        for (let i = found + 1; i < rows.length; i++) {
+            const factor = rows[i][column] / rows[found][column];
+            for (let j = column; j < rows[i].length; j++) rows[i][j] -= factor * rows[found][j];
+        }
+        found++;
+    }
+    return found;
+}
+
+function solveLinearSystem(nodes: MathNode[], unknowns: string[], steps: Step[]): Solution[] {
+    if (nodes.length !== unknowns.length) {
+        throw new MathError(`${nodes.length} equations in ${unknowns.length} unknowns (${unknowns.join(', ')}) can't be solved uniquely`);
+    }
+
+    const zeros = new Map(unknowns.map(name => [name, 0]));
+    const A = nodes.map(node => unknowns.map(name => {
+        const coefficient = simplify(derivative(node, name));
+        if (freeVariables(coefficient).length > 0) throw new MathError('Only linear systems of equations can be solved');
+        const value = real(evaluateNode(coefficient));
+        if (value === null) throw new MathError('Only real coefficients are supported');
+        return value;
+    }));
+    const b = nodes.map(node => -(real(evaluateNode(node, zeros)) ?? NaN));
+
+    steps.push({
+        label: 'As a matrix equation',
+        latex: `${bmatrix(A.map(row => row.map(numberTex)))} ${bmatrix(unknowns.map(name => [name]))} = ${bmatrix(b.map(v => [numberTex(v)]))}`,
+    });
+
+    // lusolve only notices exact zero pivots, so rounding can turn a dependent
+    // system into a confident wrong answer
+    const rankOfA = rank(A);
+    if (rankOfA < unknowns.length) {
+        throw new MathError(rank(A.map((row, i) => [...row, b[i]])) > rankOfA
+            ? 'The equations have no solution (they are inconsistent)'
+            : 'The equations have infinitely many solutions (they aren\'t independent)');
+    }
+
+    let x: number[][];
+    try {
+        x = lusolve(A, b) as number[][];
+    } catch {
+        throw new MathError('The equations have no unique solution (the system is singular)');
+    }
+    steps.push({ label: 'LU decomposition', latex: '\\mathbf{x} = A^{-1}\\mathbf{b}' });
+
+    const values = Object.fromEntries(unknowns.map((name, i) => [name, x[i][0]]));
+    return [{
+        latex: unknowns.map((name, i) => `${name} = ${numberTex(x[i][0])}`).join(', \\quad '),
+        values,
+    }];
+}
+
+// ---------------------------------------------
+
+export function solveEquations(
+    equations: string[],
+    options: { unknowns?: string[]; interval?: [number, number] } = {},
+): { problem: string; steps: Step[]; solutions: Solution[] } {
+    if (equations.length === 0) throw new MathError('Give at least one equation');
+    const sides = equations.map(sidesOf);
+    const nodes = sides.map(([lhs, rhs]) => rhs.toString() === '0' ? lhs : parse(`(${lhs.toString()}) - (${rhs.toString()})`));
+    const unknowns = unknownsOf(nodes, options.unknowns);
+    const problem = sides.map(([lhs, rhs]) => `${toTex(lhs)} = ${toTex(rhs)}`).join(',\\quad ');
+    const steps: Step[] = [{
+        label: 'Rearranged to equal zero',
+        latex: nodes.map(node => `${toTex(node)} = 0`).join(',\\quad '),
+    }];
+
+    if (nodes.length > 1) return { problem, steps, solutions: solveLinearSystem(nodes, unknowns, steps) };
+    if (unknowns.length > 1) throw new MathError(`Say which of ${unknowns.join(', ')} to solve for, and give values for the rest`);
+
+    const [x] = unknowns;
+    const node = simplify(nodes[0]);
+    steps.push({ label: 'Simplified', latex: `${toTex(node)} = 0` });
+
+    const coefficients = polynomialCoefficients(node, x);
+    const solutions = coefficients
+        ? solvePolynomial(node, coefficients, x, steps)
+        : solveNumerically(node, x, options.interval ?? DEFAULT_INTERVAL, steps);
+    return { problem, steps, solutions };
+}
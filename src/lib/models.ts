@@ -0,0 +1,196 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { createPerplexity } from '@ai-sdk/perplexity';
+import { createGroq } from '@ai-sdk/groq';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { simulateReadableStream, type LanguageModel } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+
+// =============================================
+// MODEL REGISTRY
+// =============================================
+// Models are addressed as "<provider>:<model>", e.g. "perplexity:sonar",
+// "groq:llama-3.3-70b-versatile" or "fake:echo". The default comes from
+// ATHEY_MODEL and callers may only pick models listed in ATHEY_ALLOWED_MODELS.
+
+export type ProviderId = 'perplexity' | 'groq' | 'gemini' | 'openai-compatible' | 'fake';
+
+const PROVIDER_IDS: ProviderId[] = ['perplexity', 'groq', 'gemini', 'openai-compatible', 'fake'];
+
+const DEFAULT_MODEL = 'perplexity:sonar';
+
+// Perplexity's models search the web themselves and don't take tools
+const PROVIDERS_WITHOUT_TOOLS: ProviderId[] = ['perplexity'];
+
+export class ModelNotAllowedError extends Error {
+    constructor(public readonly model: string) {
+        super(`Model "${model}" is not allowed`);
+        this.name = 'ModelNotAllowedError';
+    }
+}
+
+// Providers are built lazily so a missing key only matters when that provider is used
+const providers: Record<ProviderId, (modelId: string) => LanguageModel> = {
+    // Native provider so the search citations come through as source parts
+    perplexity: (modelId) => createPerplexity({
+        apiKey: process.env.PERPLEXITY_API_KEY,
+    })(modelId),
+    groq: (modelId) => createGroq({
+        apiKey: process.env.GROQ_API_KEY,
+    })(modelId),
+    gemini: (modelId) => createGoogleGenerativeAI({
+        apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+    })(modelId),
+    // Any OpenAI-compatible endpoint, e.g. a local mock server or LM Studio/Ollama
+    'openai-compatible': (modelId) => createOpenAI({
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+    }).chat(modelId),
+    fake: (modelId) => createFakeModel(modelId),
+};
+
+export function getDefaultModel(): string {
+    return process.env.ATHEY_MODEL || DEFAULT_MODEL;
+}
+
+export function getAllowedModels(): string[] {
+    const configured = (process.env.ATHEY_ALLOWED_MODELS || '')
+        .split(',')
+        .map(m => m.trim())
+        .filter(Boolean);
+    const defaultModel = getDefaultModel();
+    return configured.includes(defaultModel) ? configured : [defaultModel, ...configured];
+}
+
+function parseModel(model: string): { provider: ProviderId; modelId: string } | null {
+    const separator = model.indexOf(':');
+    if (separator <= 0) return null;
+
+    const provider = model.slice(0, separator) as ProviderId;
+    const modelId = model.slice(separator + 1);
+    if (!PROVIDER_IDS.includes(provider) || !modelId) return null;
+
+    return { provider, modelId };
+}
+
+// Resolve the requested model (or the configured default) to a language model
+export function resolveModel(requested?: unknown): { id: string; model: LanguageModel; supportsTools: boolean } {
+    const id = typeof requested === 'string' && requested.trim() ? requested.trim() : getDefaultModel();
+
+    const parsed = parseModel(id);
+    if (!parsed || !getAllowedModels().includes(id)) {
+        throw new ModelNotAllowedError(id);
+    }
+
+    return {
+        id,
+        model: providers[parsed.provider](parsed.modelId),
+        supportsTools: !PROVIDERS_WITHOUT_TOOLS.includes(parsed.provider),
+    };
+}
+
+// Model for background chores such as chat titles. ATHEY_TITLE_MODEL is set by
+// the operator, so it isn't checked against the allow-list; point it at
+// something small and cheap. Falls back to the chat default.
+export function resolveTitleModel(): { id: string; model: LanguageModel } {
+    const id = process.env.ATHEY_TITLE_MODEL?.trim() || getDefaultModel();
+
+    const parsed = parseModel(id);
+    if (!parsed) {
+        throw new ModelNotAllowedError(id);
+    }
+
+    return { id, model: providers[parsed.provider](parsed.modelId) };
+}
+
+// =============================================
+// FAKE MODEL
+// =============================================
+
+type PromptMessage = { role: string; content: string | ReadonlyArray<{ type: string; text?: string }> };
+
+// Text of the last user turn in a prompt
+function lastUserText(prompt: ReadonlyArray<PromptMessage>): string {
+    const lastUser = [...prompt].reverse().find(m => m.role === 'user');
+    return lastUser && Array.isArray(lastUser.content)
+        ? lastUser.content.map(p => (p.type === 'text' ? p.text ?? '' : '')).join('')
+        : '';
+}
+
+// Deterministic offline model: replies with a fixed answer that quotes the last user turn
+// and cites a single fixed source. When offered the webSearch tool it first searches for
+// that turn, then cites the first result instead. Non-streaming calls (used for chat
+// titles) get the first few words of that turn's first line back.
+function createFakeModel(modelId: string): LanguageModel {
+    return new MockLanguageModelV3({
+        provider: 'fake',
+        modelId,
+        doGenerate: async ({ prompt }) => {
+            // First line, minus any "Question:"-style label
+            const words = lastUserText(prompt).split('\n')[0].replace(/^\w+:\s*/, '').split(/\s+/).filter(Boolean);
+            const text = words.slice(0, 5).join(' ');
+
+            return {
+                content: [{ type: 'text' as const, text }],
+                finishReason: { unified: 'stop' as const, raw: 'stop' },
+                usage: {
+                    inputTokens: { total: words.length, noCache: undefined, cacheRead: undefined, cacheWrite: undefined },
+                    outputTokens: { total: Math.min(words.length, 5), text: Math.min(words.length, 5), reasoning: undefined },
+                },
+                warnings: [],
+            };
+        },
+        doStream: async ({ prompt, tools }) => {
+            const question = lastUserText(prompt);
+            const inputTokens = { total: question.split(/\s+/).length, noCache: undefined, cacheRead: undefined, cacheWrite: undefined };
+            const canSearch = tools?.some(t => t.name === 'webSearch') ?? false;
+            const searched = prompt.some(m => m.role === 'tool');
+
+            if (canSearch && !searched) {
+                return {
+                    stream: simulateReadableStream({
+                        chunkDelayInMs: 10,
+                        chunks: [
+                            { type: 'stream-start' as const, warnings: [] },
+                            { type: 'tool-call' as const, toolCallId: 'call-0', toolName: 'webSearch', input: JSON.stringify({ query: question }) },
+                            {
+                                type: 'finish' as const,
+                                finishReason: { unified: 'tool-calls' as const, raw: 'tool_calls' },
+                                usage: {
+                                    inputTokens,
+                                    outputTokens: { total: 1, text: 1, reasoning: undefined },
+                                },
+                            },
+                        ],
+                    }),
+                };
+            }
+
+            const reply = `This is an offline reply from Athey (${modelId}).\n\nYou asked: "${question}" [1]`;
+            const words = reply.split(/(?<= )/);
+
+            return {
+                stream: simulateReadableStream({
+                    chunkDelayInMs: 10,
+                    chunks: [
+                        { type: 'stream-start' as const, warnings: [] },
+                        // Searched answers cite the search results instead
+                        ...(searched ? [] : [
+                            { type: 'source' as const, sourceType: 'url' as const, id: 'source-0', url: 'https://www.nasa.gov/', title: 'NASA' },
+                        ]),
+                        { type: 'text-start' as const, id: 'text-0' },
+                        ...words.map(delta => ({ type: 'text-delta' as const, id: 'text-0', delta })),
+                        { type: 'text-end' as const, id: 'text-0' },
+                        {
+                            type: 'finish' as const,
+                            finishReason: { unified: 'stop' as const, raw: 'stop' },
+                            usage: {
+                                inputTokens,
+                                outputTokens: { total: words.length, text: words.length, reasoning: undefined },
+                            },
+                        },
+                    ],
+                }),
+            };
+        },
+    });
+}
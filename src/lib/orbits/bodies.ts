@@ -0,0 +1,38 @@
+// =============================================
+// BODY CONSTANTS
+// =============================================
+// Gravitational parameters and equatorial radii from the JPL planetary
+// constants (DE440), J2 from the IAU/IERS and mission gravity models.
+// Periods are sidereal, around the body's primary.
+
+export interface Body {
+    name: string;
+    // Gravitational parameter GM, km³/s²
+    mu: number;
+    // Equatorial radius, km
+    radius: number;
+    // Second zonal harmonic (oblateness), dimensionless
+    j2: number;
+    // What it orbits, and how long one orbit takes in days; null for the Sun
+    primary: BodyId | null;
+    orbitalPeriodDays: number | null;
+}
+
+export const BODY_IDS = [
+    'sun', 'mercury', 'venus', 'earth', 'moon', 'mars', 'jupiter', 'saturn', 'uranus', 'neptune',
+] as const;
+
+export type BodyId = (typeof BODY_IDS)[number];
+
+export const BODIES: Record<BodyId, Body> = {
+    sun: { name: 'Sun', mu: 1.32712440018e11, radius: 695700, j2: 2.2e-7, primary: null, orbitalPeriodDays: null },
+    mercury: { name: 'Mercury', mu: 22031.868551, radius: 2440.53, j2: 5.03e-5, primary: 'sun', orbitalPeriodDays: 87.9691 },
+    venus: { name: 'Venus', mu: 324858.592, radius: 6051.8, j2: 4.458e-6, primary: 'sun', orbitalPeriodDays: 224.701 },
+    earth: { name: 'Earth', mu: 398600.4418, radius: 6378.137, j2: 1.08262668e-3, primary: 'sun', orbitalPeriodDays: 365.256363 },
+    moon: { name: 'Moon', mu: 4902.800066, radius: 1737.4, j2: 2.0323e-4, primary: 'earth', orbitalPeriodDays: 27.321661 },
+    mars: { name: 'Mars', mu: 42828.375214, radius: 3396.19, j2: 1.96045e-3, primary: 'sun', orbitalPeriodDays: 686.98 },
+    jupiter: { name: 'Jupiter', mu: 126712764.1, radius: 71492, j2: 1.4736e-2, primary: 'sun', orbitalPeriodDays: 4332.589 },
+    saturn: { name: 'Saturn', mu: 37940584.84, radius: 60268, j2: 1.6298e-2, primary: 'sun', orbitalPeriodDays: 10759.22 },
+    uranus: { name: 'Uranus', mu: 5794556.4, radius: 25559, j2: 3.34343e-3, primary: 'sun', orbitalPeriodDays: 30685.4 },
+    neptune: { name: 'Neptune', mu: 6836527.1, radius: 24764, j2: 3.411e-3, primary: 'sun', orbitalPeriodDays: 60189 },
+};
@@ -0,0 +1,20 @@
+// Used when SATELLITE_TLE_FILE isn't set, so tracking works offline out of
+// the box. These are real published element sets, but years old: positions
+// today are illustrative only, and the tool says so. Point SATELLITE_TLE_FILE
+// at a current file (e.g. https://celestrak.org/NORAD/elements/gp.php?GROUP=stations&FORMAT=tle)
+// for real tracking.
+//
+// Sources:
+// - ISS (ZARYA), epoch 2019-06-05: the sample set in the satellite.js README,
+//   https://github.com/shashwatak/satellite-js
+// - VANGUARD 1, epoch 2000-06-27: the first case of the SGP4 verification
+//   file (SGP4-VER.TLE) from Vallado, Crawford, Hujsak and Kelso, "Revisiting
+//   Spacetrack Report #3", AIAA 2006-6753, https://celestrak.org/publications/AIAA/2006-6753/
+export const BUNDLED_TLES = `
+ISS (ZARYA)
+1 25544U 98067A   19156.50900463  .00003075  00000-0  59442-4 0  9992
+2 25544  51.6433  59.2583 0008217  16.4489 347.6017 15.51174618173442
+VANGUARD 1
+1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753
+2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667
+`;
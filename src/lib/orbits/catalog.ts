@@ -0,0 +1,28 @@
+import 'server-only';
+import { readFileSync } from 'fs';
+import { parseTleCatalog, type Tle } from './tle';
+import { BUNDLED_TLES } from './bundled-tles';
+
+export interface SatelliteCatalog {
+    satellites: Tle[];
+    // True for the old published sets that ship with the app (see ./bundled-tles)
+    bundled: boolean;
+}
+
+// SATELLITE_TLE_FILE points at a file of two- or three-line element sets,
+// e.g. a CelesTrak download; without it the bundled sets are used
+function loadSatelliteCatalog(): SatelliteCatalog {
+    const path = process.env.SATELLITE_TLE_FILE;
+    return path
+        ? { satellites: parseTleCatalog(readFileSync(path, 'utf8')), bundled: false }
+        : { satellites: parseTleCatalog(BUNDLED_TLES), bundled: true };
+}
+
+// Read once per server process (kept on globalThis so dev hot reloads reuse it).
+// A file that fails to load isn't cached, so fixing it takes effect on the next call.
+const globalForSatellites = globalThis as unknown as { satelliteCatalog?: SatelliteCatalog };
+
+export function getSatelliteCatalog(): SatelliteCatalog {
+    globalForSatellites.satelliteCatalog ??= loadSatelliteCatalog();
+    return globalForSatellites.satelliteCatalog;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { findAlignments, riseTransitSet, skyPosition } from './ephemeris';
+
+// Published almanac values, checked to the accuracy the module claims: a
+// couple of arcminutes in position, a few minutes in event times
+
+const ARCMINUTE = 1 / 60;
+const MINUTE_MS = 60000;
+
+// Meeus gives his examples in dynamical time, which runs ahead of UTC by delta T
+const dynamicalTime = (iso: string) => new Date(Date.parse(iso) - 69000);
+
+const minutesBetween = (a: string | null, b: string) => Math.abs(Date.parse(a ?? '') - Date.parse(b)) / MINUTE_MS;
+
+describe('positions', () => {
+    it('places Venus within an arcminute of Meeus Example 33.a', () => {
+        const venus = skyPosition('venus', dynamicalTime('1992-12-20T00:00:00Z'));
+
+        // α 21h04m41.454s, δ -18°53′16.84″
+        expect(Math.abs(venus.rightAscension - 316.172725)).toBeLessThan(ARCMINUTE);
+        expect(Math.abs(venus.declination - -18.888011)).toBeLessThan(ARCMINUTE);
+    });
+
+    it('places the Moon within two arcminutes of Meeus Example 47.a', () => {
+        const moon = skyPosition('moon', dynamicalTime('1992-04-12T00:00:00Z'));
+
+        // λ 133.162655°, β -3.229126°, Δ 368409.7 km
+        expect(Math.abs(moon.longitude - 133.162655)).toBeLessThan(2 * ARCMINUTE);
+        expect(Math.abs(moon.latitude - -3.229126)).toBeLessThan(2 * ARCMINUTE);
+        expect(Math.abs(moon.distance * 149597870.7 - 368409.7)).toBeLessThan(1000);
+    });
+});
+
+describe('events', () => {
+    it('times the 2025 Mars opposition within 10 minutes (2025-01-16 02:32 UTC)', () => {
+        const [opposition, ...rest] = findAlignments('mars', 'sun', 'opposition', new Date('2025-01-01T00:00:00Z'), new Date('2025-02-01T00:00:00Z'));
+
+        expect(rest).toHaveLength(0);
+        expect(opposition.event).toBe('Mars at opposition');
+        expect(minutesBetween(opposition.time, '2025-01-16T02:32:00Z')).toBeLessThan(10);
+    });
+
+    it('times the January and February 2025 full Moons within 5 minutes', () => {
+        const fullMoons = findAlignments('moon', 'sun', 'opposition', new Date('2025-01-01T00:00:00Z'), new Date('2025-03-01T00:00:00Z'));
+
+        expect(fullMoons.map(m => m.event)).toEqual(['Full Moon', 'Full Moon']);
+        expect(minutesBetween(fullMoons[0].time, '2025-01-13T22:27:00Z')).toBeLessThan(5);
+        expect(minutesBetween(fullMoons[1].time, '2025-02-12T13:53:00Z')).toBeLessThan(5);
+    });
+
+    it('gives Greenwich sunrise and sunset on the 2025 June solstice within 2 minutes', () => {
+        const greenwich = { latitude: 51.4769, longitude: -0.0005, altitude: 0 };
+        const sun = riseTransitSet('sun', greenwich, new Date('2025-06-21T00:00:00Z'));
+
+        // 04:43 and 21:21 BST
+        expect(minutesBetween(sun.rise, '2025-06-21T03:43:00Z')).toBeLessThan(2);
+        expect(minutesBetween(sun.set, '2025-06-21T20:21:00Z')).toBeLessThan(2);
+        expect(sun.circumpolar).toBeNull();
+    });
+});
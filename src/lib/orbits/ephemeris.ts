@@ -0,0 +1,478 @@
+import { BODIES, type BodyId } from './bodies';
+import type { Vector3 } from './mechanics';
+import type { Observer } from './sgp4';
+
+// =============================================
+// SOLAR SYSTEM EPHEMERIS
+// =============================================
+// Where the Sun, Moon and planets are in the sky, after Meeus, "Astronomical
+// Algorithms", in the compact form of Schlyter's "How to compute planetary
+// positions": mean orbital elements of date with secular rates, plus the
+// largest periodic terms for the Moon and for the Jupiter-Saturn-Uranus
+// perturbations. Positions are good to a couple of arcminutes between 1900
+// and 2100, so rise and set times and alignments with the Sun or Moon come
+// out within a few minutes; two slow outer planets close on each other by
+// arcminutes a day, so their conjunctions only to within hours.
+// Nutation, aberration and light time (all under an arcminute) are left out.
+
+const DEG = Math.PI / 180;
+const MS_PER_DAY = 86400000;
+const JD_UNIX_EPOCH = 2440587.5;
+// Terrestrial minus universal time, seconds; about 69 s through the 2020s
+const DELTA_T_SECONDS = 69;
+const AU_KM = 149597870.7;
+const EARTH_RADIUS_KM = 6378.14;
+
+export const EPHEMERIS_BODY_IDS = [
+    'sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn', 'uranus', 'neptune',
+] as const satisfies readonly BodyId[];
+
+export type EphemerisBodyId = (typeof EPHEMERIS_BODY_IDS)[number];
+
+type PlanetId = Exclude<EphemerisBodyId, 'sun' | 'moon'>;
+
+// Geocentric, referred to the ecliptic and equator of date. Angles in degrees,
+// right ascension included; distances in AU.
+export interface SkyPosition {
+    body: EphemerisBodyId;
+    time: string;
+    longitude: number;
+    latitude: number;
+    rightAscension: number;
+    declination: number;
+    distance: number;
+    // From the Sun; 0 for the Sun itself
+    distanceFromSun: number;
+    // Angle from the Sun as seen from Earth, and Sun-body-Earth angle
+    elongation: number;
+    phaseAngle: number;
+    // Fraction of the disc that is lit, 0-1
+    illumination: number;
+    magnitude: number;
+}
+
+// Where to look from an observer: degrees clockwise from north, and degrees
+// above the horizon (topocentric, so corrected for the Moon's parallax)
+export interface HorizontalPosition {
+    azimuth: number;
+    altitude: number;
+}
+
+// Rise, transit and set in a search window; null when the body doesn't cross
+// the horizon or meridian in it. `circumpolar` says why a body that never
+// crosses the horizon is missing rise and set.
+export interface RiseTransitSet {
+    rise: string | null;
+    riseAzimuth: number | null;
+    transit: string | null;
+    transitAltitude: number | null;
+    set: string | null;
+    setAzimuth: number | null;
+    circumpolar: 'up' | 'down' | null;
+}
+
+export type AlignmentKind = 'conjunction' | 'opposition';
+
+// A conjunction or opposition. `event` names it as almanacs do, e.g.
+// "Inferior conjunction" or "Full Moon".
+export interface Alignment {
+    time: string;
+    event: string;
+    // Angular distance between the two bodies at that moment, degrees
+    separation: number;
+    // The body's distance from Earth, AU
+    distance: number;
+}
+
+// =============================================
+// TIME AND ANGLES
+// =============================================
+
+function julianDay(date: Date): number {
+    return date.getTime() / MS_PER_DAY + JD_UNIX_EPOCH;
+}
+
+// Days of terrestrial time since 2000 Jan 0.0, the elements' time argument
+function dayNumber(date: Date): number {
+    return julianDay(date) + DELTA_T_SECONDS / 86400 - 2451543.5;
+}
+
+function wrap360(degrees: number): number {
+    return ((degrees % 360) + 360) % 360;
+}
+
+function wrap180(degrees: number): number {
+    return wrap360(degrees + 180) - 180;
+}
+
+const sin = (degrees: number) => Math.sin(degrees * DEG);
+const cos = (degrees: number) => Math.cos(degrees * DEG);
+
+// acos in degrees that tolerates rounding just outside [-1, 1]
+function acosDeg(x: number): number {
+    return Math.acos(Math.min(1, Math.max(-1, x))) / DEG;
+}
+
+function norm(v: Vector3): number {
+    return Math.hypot(v[0], v[1], v[2]);
+}
+
+function angleBetween(a: Vector3, b: Vector3): number {
+    return acosDeg((a[0] * b[0] + a[1] * b[1] + a[2] * b[2]) / (norm(a) * norm(b)));
+}
+
+function toSpherical([x, y, z]: Vector3): { lon: number; lat: number; r: number } {
+    return { lon: wrap360(Math.atan2(y, x) / DEG), lat: Math.atan2(z, Math.hypot(x, y)) / DEG, r: Math.hypot(x, y, z) };
+}
+
+function toCartesian(lon: number, lat: number, r: number): Vector3 {
+    return [r * cos(lat) * cos(lon), r * cos(lat) * sin(lon), r * sin(lat)];
+}
+
+// Greenwich mean sidereal time, degrees
+function siderealTime(date: Date): number {
+    return wrap360(280.46061837 + 360.98564736629 * (julianDay(date) - 2451545));
+}
+
+// =============================================
+// ORBITS
+// =============================================
+
+interface Elements {
+    // Longitude of the ascending node, inclination, argument of perihelion, degrees
+    N: number;
+    i: number;
+    w: number;
+    // Semi-major axis, AU (Earth radii for the Moon), and eccentricity
+    a: number;
+    e: number;
+    // Mean anomaly, degrees
+    M: number;
+}
+
+// Each element as [value at day 0, change per day]
+type ElementRates = { [K in keyof Elements]: [number, number] };
+
+const PLANET_ELEMENTS: Record<PlanetId, ElementRates> = {
+    mercury: { N: [48.3313, 3.24587e-5], i: [7.0047, 5.0e-8], w: [29.1241, 1.01444e-5], a: [0.387098, 0], e: [0.205635, 5.59e-10], M: [168.6562, 4.0923344368] },
+    venus: { N: [76.6799, 2.4659e-5], i: [3.3946, 2.75e-8], w: [54.891, 1.38374e-5], a: [0.72333, 0], e: [0.006773, -1.302e-9], M: [48.0052, 1.6021302244] },
+    mars: { N: [49.5574, 2.11081e-5], i: [1.8497, -1.78e-8], w: [286.5016, 2.92961e-5], a: [1.523688, 0], e: [0.093405, 2.516e-9], M: [18.6021, 0.5240207766] },
+    jupiter: { N: [100.4542, 2.76854e-5], i: [1.303, -1.557e-7], w: [273.8777, 1.64505e-5], a: [5.20256, 0], e: [0.048498, 4.469e-9], M: [19.895, 0.0830853001] },
+    saturn: { N: [113.6634, 2.3898e-5], i: [2.4886, -1.081e-7], w: [339.3939, 2.97661e-5], a: [9.55475, 0], e: [0.055546, -9.499e-9], M: [316.967, 0.0334442282] },
+    uranus: { N: [74.0005, 1.3978e-5], i: [0.7733, 1.9e-8], w: [96.6612, 3.0565e-5], a: [19.18171, -1.55e-8], e: [0.047318, 7.45e-9], M: [142.5905, 0.011725806] },
+    neptune: { N: [131.7806, 3.0173e-5], i: [1.77, -2.55e-7], w: [272.8461, -6.027e-6], a: [30.05826, 3.313e-8], e: [0.008606, 2.15e-9], M: [260.2471, 0.005995147] },
+};
+
+// The Sun's apparent orbit around Earth (Earth's, reversed)
+const SUN_ELEMENTS: ElementRates = { N: [0, 0], i: [0, 0], w: [282.9404, 4.70935e-5], a: [1, 0], e: [0.016709, -1.151e-9], M: [356.047, 0.9856002585] };
+
+const MOON_ELEMENTS: ElementRates = { N: [125.1228, -0.0529538083], i: [5.1454, 0], w: [318.0634, 0.1643573223], a: [60.2666, 0], e: [0.0549, 0], M: [115.3654, 13.0649929509] };
+
+function elementsAt(rates: ElementRates, d: number): Elements {
+    const at = ([value, rate]: [number, number]) => value + rate * d;
+    return { N: at(rates.N), i: at(rates.i), w: at(rates.w), a: at(rates.a), e: at(rates.e), M: wrap360(at(rates.M)) };
+}
+
+// Position in the orbit's reference frame (the ecliptic of date), from Kepler's equation
+function orbitPosition({ N, i, w, a, e, M }: Elements): Vector3 {
+    let E = M * DEG + e * Math.sin(M * DEG);
+    for (let k = 0; k < 20; k++) {
+        const step = (E - e * Math.sin(E) - M * DEG) / (1 - e * Math.cos(E));
+        E -= step;
+        if (Math.abs(step) < 1e-12) break;
+    }
+    const xv = a * (Math.cos(E) - e);
+    const yv = a * Math.sqrt(1 - e * e) * Math.sin(E);
+    const v = Math.atan2(yv, xv) / DEG;
+    const r = Math.hypot(xv, yv);
+
+    return [
+        r * (cos(N) * cos(v + w) - sin(N) * sin(v + w) * cos(i)),
+        r * (sin(N) * cos(v + w) + cos(N) * sin(v + w) * cos(i)),
+        r * sin(v + w) * sin(i),
+    ];
+}
+
+// The Sun's geocentric ecliptic position, AU
+function sunPosition(d: number): Vector3 {
+    return orbitPosition(elementsAt(SUN_ELEMENTS, d));
+}
+
+// The largest terms of the mutual perturbations of Jupiter, Saturn and
+// Uranus, in degrees of heliocentric longitude and latitude
+function planetPerturbations(planet: PlanetId, d: number): { lon: number; lat: number } {
+    const Mj = elementsAt(PLANET_ELEMENTS.jupiter, d).M;
+    const Ms = elementsAt(PLANET_ELEMENTS.saturn, d).M;
+    const Mu = elementsAt(PLANET_ELEMENTS.uranus, d).M;
+
+    switch (planet) {
+        case 'jupiter':
+            return {
+                lon: -0.332 * sin(2 * Mj - 5 * Ms - 67.6) - 0.056 * sin(2 * Mj - 2 * Ms + 21) + 0.042 * sin(3 * Mj - 5 * Ms + 21)
+                    - 0.036 * sin(Mj - 2 * Ms) + 0.022 * cos(Mj - Ms) + 0.023 * sin(2 * Mj - 3 * Ms + 52) - 0.016 * sin(Mj - 5 * Ms - 69),
+                lat: 0,
+            };
+        case 'saturn':
+            return {
+                lon: 0.812 * sin(2 * Mj - 5 * Ms - 67.6) - 0.229 * cos(2 * Mj - 4 * Ms - 2) + 0.119 * sin(Mj - 2 * Ms - 3)
+                    + 0.046 * sin(2 * Mj - 6 * Ms - 69) + 0.014 * sin(Mj - 3 * Ms + 32),
+                lat: -0.02 * cos(2 * Mj - 4 * Ms - 2) + 0.018 * sin(2 * Mj - 6 * Ms - 49),
+            };
+        case 'uranus':
+            return { lon: 0.04 * sin(Ms - 2 * Mu + 6) + 0.035 * sin(Ms - 3 * Mu + 33) - 0.015 * sin(Mj - Mu + 20), lat: 0 };
+        default:
+            return { lon: 0, lat: 0 };
+    }
+}
+
+function planetHeliocentric(planet: PlanetId, d: number): Vector3 {
+    const { lon, lat, r } = toSpherical(orbitPosition(elementsAt(PLANET_ELEMENTS[planet], d)));
+    const perturbation = planetPerturbations(planet, d);
+    return toCartesian(lon + perturbation.lon, lat + perturbation.lat, r);
+}
+
+// The Moon's geocentric ecliptic position, AU, with the main periodic terms
+// (evection, variation, the annual equation and smaller ones)
+function moonPosition(d: number): Vector3 {
+    const moon = elementsAt(MOON_ELEMENTS, d);
+    const sun = elementsAt(SUN_ELEMENTS, d);
+    const { lon, lat, r } = toSpherical(orbitPosition(moon));
+
+    const Mm = moon.M;
+    const Ms = sun.M;
+    // Mean elongation from the Sun, and argument of latitude
+    const D = moon.M + moon.w + moon.N - (sun.M + sun.w);
+    const F = moon.M + moon.w;
+
+    const dLon = -1.274 * sin(Mm - 2 * D) + 0.658 * sin(2 * D) - 0.186 * sin(Ms) - 0.059 * sin(2 * Mm - 2 * D)
+        - 0.057 * sin(Mm - 2 * D + Ms) + 0.053 * sin(Mm + 2 * D) + 0.046 * sin(2 * D - Ms) + 0.041 * sin(Mm - Ms)
+        - 0.035 * sin(D) - 0.031 * sin(Mm + Ms) - 0.015 * sin(2 * F - 2 * D) + 0.011 * sin(Mm - 4 * D);
+    const dLat = -0.173 * sin(F - 2 * D) - 0.055 * sin(Mm - F - 2 * D) - 0.046 * sin(Mm + F - 2 * D)
+        + 0.033 * sin(F + 2 * D) + 0.017 * sin(2 * Mm + F);
+    const dR = -0.58 * cos(Mm - 2 * D) - 0.46 * cos(2 * D);
+
+    return toCartesian(lon + dLon, lat + dLat, (r + dR) * EARTH_RADIUS_KM / AU_KM);
+}
+
+// Visual magnitude from the distances (AU) and phase angle (degrees)
+function magnitude(body: EphemerisBodyId, r: number, delta: number, phase: number, geocentric: { lon: number; lat: number }, d: number): number {
+    const distance = 5 * Math.log10(r * delta);
+    switch (body) {
+        case 'sun': return -26.74;
+        case 'moon': return 0.23 + distance + 0.026 * phase + 4.0e-9 * phase ** 4;
+        case 'mercury': return -0.36 + distance + 0.027 * phase + 2.2e-13 * phase ** 6;
+        case 'venus': return -4.34 + distance + 0.013 * phase + 4.2e-7 * phase ** 3;
+        case 'mars': return -1.51 + distance + 0.016 * phase;
+        case 'jupiter': return -9.25 + distance + 0.014 * phase;
+        case 'saturn': {
+            // The rings brighten Saturn as they open towards us
+            const tilt = Math.asin(sin(geocentric.lat) * cos(28.06) - cos(geocentric.lat) * sin(28.06) * sin(geocentric.lon - 169.51 - 3.82e-5 * d));
+            return -9.0 + distance + 0.044 * phase - 2.6 * Math.abs(Math.sin(tilt)) + 1.2 * Math.sin(tilt) ** 2;
+        }
+        case 'uranus': return -7.15 + distance + 0.001 * phase;
+        case 'neptune': return -6.9 + distance + 0.001 * phase;
+    }
+}
+
+// =============================================
+// POSITIONS
+// =============================================
+
+export function skyPosition(body: EphemerisBodyId, date: Date): SkyPosition {
+    const d = dayNumber(date);
+    const sun = sunPosition(d);
+    const geocentric: Vector3 = body === 'sun' ? sun
+        : body === 'moon' ? moonPosition(d)
+            : (() => {
+                const h = planetHeliocentric(body, d);
+                return [h[0] + sun[0], h[1] + sun[1], h[2] + sun[2]];
+            })();
+    const heliocentric: Vector3 = [geocentric[0] - sun[0], geocentric[1] - sun[1], geocentric[2] - sun[2]];
+
+    // Ecliptic to equatorial, by the obliquity of date
+    const obliquity = 23.4393 - 3.563e-7 * d;
+    const [x, y, z] = geocentric;
+    const equatorial = toSpherical([x, y * cos(obliquity) - z * sin(obliquity), y * sin(obliquity) + z * cos(obliquity)]);
+    const ecliptic = toSpherical(geocentric);
+
+    const isSun = body === 'sun';
+    const elongation = isSun ? 0 : angleBetween(geocentric, sun);
+    const phaseAngle = isSun ? 0 : angleBetween(heliocentric, geocentric);
+
+    return {
+        body,
+        time: date.toISOString(),
+        longitude: ecliptic.lon,
+        latitude: ecliptic.lat,
+        rightAscension: equatorial.lon,
+        declination: equatorial.lat,
+        distance: ecliptic.r,
+        distanceFromSun: isSun ? 0 : norm(heliocentric),
+        elongation,
+        phaseAngle,
+        illumination: (1 + cos(phaseAngle)) / 2,
+        magnitude: magnitude(body, norm(heliocentric), ecliptic.r, phaseAngle, ecliptic, d),
+    };
+}
+
+export function horizontalPosition(position: SkyPosition, observer: Observer): HorizontalPosition {
+    const hourAngle = siderealTime(new Date(position.time)) + observer.longitude - position.rightAscension;
+    const { latitude: phi } = observer;
+    const dec = position.declination;
+
+    let altitude = Math.asin(sin(phi) * sin(dec) + cos(phi) * cos(dec) * cos(hourAngle)) / DEG;
+    const azimuth = wrap360(Math.atan2(sin(hourAngle), cos(hourAngle) * sin(phi) - Math.tan(dec * DEG) * cos(phi)) / DEG + 180);
+
+    // Seen from the surface rather than Earth's centre; only matters for the Moon
+    const parallax = Math.asin(EARTH_RADIUS_KM / (position.distance * AU_KM)) / DEG;
+    altitude -= Math.asin(sin(parallax) * cos(altitude)) / DEG;
+
+    return { azimuth, altitude };
+}
+
+// The Moon's phase, by how far east of the Sun it is
+export function moonPhaseName(position: SkyPosition, sun: SkyPosition): string {
+    const elongation = wrap360(position.longitude - sun.longitude);
+    const names = ['New Moon', 'Waxing crescent', 'First quarter', 'Waxing gibbous', 'Full Moon', 'Waning gibbous', 'Last quarter', 'Waning crescent'];
+    return names[Math.floor(wrap360(elongation + 22.5) / 45) % 8];
+}
+
+// =============================================
+// RISING AND SETTING
+// =============================================
+
+// Topocentric altitude of the centre at rising and setting: refraction at
+// the horizon (34') and, for the Sun and Moon, the semi-diameter, since
+// they rise with their upper limb
+function horizonAltitude(position: SkyPosition): number {
+    if (position.body === 'sun') return -0.8333;
+    if (position.body === 'moon') return -0.5667 - 0.2725 * Math.asin(EARTH_RADIUS_KM / (position.distance * AU_KM)) / DEG;
+    return -0.5667;
+}
+
+// Rise, meridian transit and set in the `hours` after `start`. Altitude is
+// sampled every ten minutes, then each crossing is refined to a second.
+export function riseTransitSet(body: EphemerisBodyId, observer: Observer, start: Date, hours = 24): RiseTransitSet {
+    const stepMs = 10 * 60000;
+    const horizontal = (t: number) => horizontalPosition(skyPosition(body, new Date(t)), observer);
+    // Height above the rising altitude, and hour angle in (-180, 180]
+    const aboveHorizon = (t: number) => {
+        const position = skyPosition(body, new Date(t));
+        return horizontalPosition(position, observer).altitude - horizonAltitude(position);
+    };
+    const hourAngle = (t: number) => {
+        const position = skyPosition(body, new Date(t));
+        return wrap180(siderealTime(new Date(t)) + observer.longitude - position.rightAscension);
+    };
+
+    // Where f changes sign between a and b, to within a second
+    const root = (f: (t: number) => number, a: number, b: number) => {
+        const negative = f(a) < 0;
+        while (b - a > 1000) {
+            const mid = (a + b) / 2;
+            if ((f(mid) < 0) === negative) a = mid;
+            else b = mid;
+        }
+        return Math.round((a + b) / 2000) * 1000;
+    };
+
+    const result: RiseTransitSet = {
+        rise: null, riseAzimuth: null, transit: null, transitAltitude: null, set: null, setAzimuth: null, circumpolar: null,
+    };
+    const first = start.getTime();
+    const last = first + hours * 3600000;
+    let [prevHeight, prevHourAngle] = [aboveHorizon(first), hourAngle(first)];
+    let [alwaysUp, alwaysDown] = [prevHeight >= 0, prevHeight < 0];
+
+    for (let a = first; a < last; a += stepMs) {
+        const b = Math.min(a + stepMs, last);
+        const [height, ha] = [aboveHorizon(b), hourAngle(b)];
+        alwaysUp &&= height >= 0;
+        alwaysDown &&= height < 0;
+
+        if (result.rise === null && prevHeight < 0 && height >= 0) {
+            const t = root(aboveHorizon, a, b);
+            result.rise = new Date(t).toISOString();
+            result.riseAzimuth = horizontal(t).azimuth;
+        }
+        if (result.set === null && prevHeight >= 0 && height < 0) {
+            const t = root(aboveHorizon, a, b);
+            result.set = new Date(t).toISOString();
+            result.setAzimuth = horizontal(t).azimuth;
+        }
+        // The hour angle passes zero going up (it wraps from +180 to -180 on the other side)
+        if (result.transit === null && prevHourAngle < 0 && ha >= 0 && ha - prevHourAngle < 90) {
+            const t = root(hourAngle, a, b);
+            result.transit = new Date(t).toISOString();
+            result.transitAltitude = horizontal(t).altitude;
+        }
+        [prevHeight, prevHourAngle] = [height, ha];
+    }
+
+    result.circumpolar = alwaysUp ? 'up' : alwaysDown ? 'down' : null;
+    return result;
+}
+
+// =============================================
+// CONJUNCTIONS AND OPPOSITIONS
+// =============================================
+
+// Conjunctions (or oppositions) of `body` with `other` between `start` and
+// `end`. With the Sun they're taken in ecliptic longitude, between two other
+// bodies in right ascension, as almanacs list them.
+export function findAlignments(body: EphemerisBodyId, other: EphemerisBodyId, kind: AlignmentKind, start: Date, end: Date): Alignment[] {
+    if (body === other) throw new RangeError('Pick two different bodies');
+    if (body === 'sun') return findAlignments(other, body, kind, start, end);
+    if (kind === 'opposition' && other !== 'sun') throw new RangeError('Oppositions are with the Sun; for two other bodies, search for conjunctions');
+    if (kind === 'opposition' && (body === 'mercury' || body === 'venus')) {
+        throw new RangeError(`${BODIES[body].name} orbits inside Earth's orbit, so it is never at opposition`);
+    }
+
+    const withSun = other === 'sun';
+    const target = kind === 'opposition' ? 180 : 0;
+    // How far the body is past the alignment, degrees
+    const offset = (t: number) => {
+        const [a, b] = [skyPosition(body, new Date(t)), skyPosition(other, new Date(t))];
+        return withSun ? wrap180(a.longitude - b.longitude - target) : wrap180(a.rightAscension - b.rightAscension);
+    };
+
+    // The Moon moves 13° a day, the planets at most a few
+    const stepMs = (body === 'moon' || other === 'moon' ? 0.25 : 1) * MS_PER_DAY;
+    const alignments: Alignment[] = [];
+    let prev = offset(start.getTime());
+
+    for (let a = start.getTime(); a < end.getTime(); a += stepMs) {
+        const b = Math.min(a + stepMs, end.getTime());
+        const next = offset(b);
+        // A sign change, and not the jump where the offset wraps around at ±180°
+        if (Math.sign(prev) !== Math.sign(next) && Math.abs(next - prev) < 90) {
+            let [lo, hi] = [a, b];
+            const negative = offset(lo) < 0;
+            while (hi - lo > 60000) {
+                const mid = (lo + hi) / 2;
+                if ((offset(mid) < 0) === negative) lo = mid;
+                else hi = mid;
+            }
+            const time = new Date(Math.round((lo + hi) / 120000) * 60000);
+            const [p, q] = [skyPosition(body, time), skyPosition(other, time)];
+            alignments.push({
+                time: time.toISOString(),
+                event: alignmentName(body, other, kind, p),
+                separation: angleBetween(toCartesian(p.rightAscension, p.declination, 1), toCartesian(q.rightAscension, q.declination, 1)),
+                distance: p.distance,
+            });
+        }
+        prev = next;
+    }
+    return alignments;
+}
+
+function alignmentName(body: EphemerisBodyId, other: EphemerisBodyId, kind: AlignmentKind, position: SkyPosition): string {
+    if (other !== 'sun') return `Conjunction of ${BODIES[body].name} and ${BODIES[other].name}`;
+    if (body === 'moon') return kind === 'opposition' ? 'Full Moon' : 'New Moon';
+    if (kind === 'opposition') return `${BODIES[body].name} at opposition`;
+    if (body === 'mercury' || body === 'venus') {
+        return `${BODIES[body].name} at ${position.distance < 1 ? 'inferior' : 'superior'} conjunction`;
+    }
+    return `${BODIES[body].name} in conjunction with the Sun`;
+}
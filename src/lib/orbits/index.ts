@@ -0,0 +1,47 @@
+export { BODIES, BODY_IDS, type Body, type BodyId } from './bodies';
+export {
+    G0,
+    orbitalPeriod,
+    orbitalSpeed,
+    circularSpeed,
+    escapeSpeed,
+    ellipticOrbit,
+    j2Drift,
+    elementsToState,
+    stateToElements,
+    hohmannTransfer,
+    biEllipticTransfer,
+    rocketDeltaV,
+    rocketMassRatio,
+    synodicPeriod,
+    type Vector3,
+    type KeplerianElements,
+    type StateVector,
+    type EllipticOrbit,
+    type J2Drift,
+    type Transfer,
+} from './mechanics';
+export { parseTle, parseTleCatalog, findSatellite, TleError, type Tle } from './tle';
+export {
+    SatellitePropagator,
+    PropagationError,
+    elementAge,
+    type Observer,
+    type SubSatellitePoint,
+    type LookAngles,
+    type SatellitePass,
+} from './sgp4';
+export {
+    EPHEMERIS_BODY_IDS,
+    skyPosition,
+    horizontalPosition,
+    moonPhaseName,
+    riseTransitSet,
+    findAlignments,
+    type EphemerisBodyId,
+    type SkyPosition,
+    type HorizontalPosition,
+    type RiseTransitSet,
+    type AlignmentKind,
+    type Alignment,
+} from './ephemeris';
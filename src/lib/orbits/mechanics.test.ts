@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { BODIES } from './bodies';
+import {
+    biEllipticTransfer,
+    elementsToState,
+    escapeSpeed,
+    hohmannTransfer,
+    orbitalPeriod,
+    rocketDeltaV,
+    stateToElements,
+    synodicPeriod,
+} from './mechanics';
+
+// Worked examples from Curtis, "Orbital Mechanics for Engineering Students",
+// and Vallado, "Fundamentals of Astrodynamics", to the digits they print
+
+const earth = BODIES.earth;
+const DEG = Math.PI / 180;
+
+describe('orbits', () => {
+    it('gives the ISS period at 420 km as 92.97 min', () => {
+        expect(orbitalPeriod(earth.mu, earth.radius + 420) / 60).toBeCloseTo(92.97, 2);
+    });
+
+    it('gives Earth\'s surface escape speed as 11.18 km/s', () => {
+        expect(escapeSpeed(earth.mu, earth.radius)).toBeCloseTo(11.18, 2);
+    });
+});
+
+describe('transfers', () => {
+    it('takes 3.893 km/s from a 300 km orbit to GEO (Curtis)', () => {
+        const transfer = hohmannTransfer(earth.mu, earth.radius + 300, 42164);
+
+        expect(transfer.burns[0]).toBeCloseTo(2.426, 3);
+        expect(transfer.burns[1]).toBeCloseTo(1.467, 3);
+        expect(transfer.totalDeltaV).toBeCloseTo(3.893, 3);
+        expect(transfer.transferTime / 3600).toBeCloseTo(5.275, 3);
+    });
+
+    it('finds the bi-elliptic transfer cheaper for r2/r1 = 15 (Curtis Example 6.3)', () => {
+        const biElliptic = biEllipticTransfer(earth.mu, 7000, 105000, 210000);
+        const hohmann = hohmannTransfer(earth.mu, 7000, 105000);
+
+        expect(biElliptic.totalDeltaV).toBeCloseTo(4.0285, 4);
+        expect(hohmann.totalDeltaV).toBeCloseTo(4.0463, 4);
+    });
+
+    it('rejects transfers that describe no orbit', () => {
+        expect(() => hohmannTransfer(earth.mu, -1, 42164)).toThrow(RangeError);
+        expect(() => biEllipticTransfer(earth.mu, 7000, 105000, 50000)).toThrow(RangeError);
+    });
+});
+
+describe('element conversions', () => {
+    // Vallado Example 2-5
+    const state = {
+        r: [6524.834, 6862.875, 6448.296] as [number, number, number],
+        v: [4.901327, 5.533756, -1.976341] as [number, number, number],
+    };
+
+    it('matches Vallado\'s elements for his state vector', () => {
+        const elements = stateToElements(earth.mu, state);
+
+        expect(elements.a).toBeCloseTo(36127.34, 1);
+        expect(elements.e).toBeCloseTo(0.832853, 6);
+        expect(elements.i / DEG).toBeCloseTo(87.87, 2);
+        expect(elements.raan / DEG).toBeCloseTo(227.898, 3);
+        expect(elements.argp / DEG).toBeCloseTo(53.38, 2);
+        expect(elements.nu / DEG).toBeCloseTo(92.335, 3);
+    });
+
+    it('round-trips the state vector through the elements', () => {
+        const back = elementsToState(earth.mu, stateToElements(earth.mu, state));
+
+        back.r.forEach((value, k) => expect(value).toBeCloseTo(state.r[k], 6));
+        back.v.forEach((value, k) => expect(value).toBeCloseTo(state.v[k], 9));
+    });
+});
+
+describe('rockets and phasing', () => {
+    it('repeats Earth-Mars geometry every 779.9 days', () => {
+        expect(synodicPeriod(earth.orbitalPeriodDays!, BODIES.mars.orbitalPeriodDays!)).toBeCloseTo(779.9, 1);
+    });
+
+    it('gives ve ln(m0/mf) for the rocket equation', () => {
+        // Isp 300 s, mass ratio e: delta-v is the exhaust velocity
+        expect(rocketDeltaV(300 * 0.00980665, Math.E, 1)).toBeCloseTo(2.942, 3);
+        expect(() => rocketDeltaV(3, 1, 2)).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,304 @@
+import type { Body } from './bodies';
+
+// =============================================
+// ORBITAL MECHANICS
+// =============================================
+// Two-body formulas in km, s and radians, after Curtis, "Orbital Mechanics
+// for Engineering Students", and Vallado, "Fundamentals of Astrodynamics".
+// Inputs that describe no real orbit or burn throw a RangeError saying why.
+
+export type Vector3 = [number, number, number];
+
+export interface KeplerianElements {
+    // Semi-major axis, km; negative for hyperbolic orbits
+    a: number;
+    // Eccentricity
+    e: number;
+    // Inclination, right ascension of the ascending node, argument of periapsis, true anomaly
+    i: number;
+    raan: number;
+    argp: number;
+    nu: number;
+}
+
+export interface StateVector {
+    // Position, km, and velocity, km/s, in the body's inertial equatorial frame
+    r: Vector3;
+    v: Vector3;
+}
+
+// Standard gravity, km/s², for converting specific impulse to exhaust velocity
+export const G0 = 0.00980665;
+
+// Below these an orbit counts as circular or equatorial, where the node or
+// periapsis is undefined and the angle measured from it is replaced
+const CIRCULAR_EPSILON = 1e-9;
+const EQUATORIAL_EPSILON = 1e-11;
+
+const TWO_PI = 2 * Math.PI;
+
+function dot(a: Vector3, b: Vector3): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vector3, b: Vector3): Vector3 {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function norm(a: Vector3): number {
+    return Math.sqrt(dot(a, a));
+}
+
+// acos that tolerates rounding just outside [-1, 1]
+function safeAcos(x: number): number {
+    return Math.acos(Math.min(1, Math.max(-1, x)));
+}
+
+function requirePositive(value: number, what: string): void {
+    if (!(value > 0) || !Number.isFinite(value)) {
+        throw new RangeError(`${what} must be a positive number`);
+    }
+}
+
+// =============================================
+// ORBITS
+// =============================================
+
+export function orbitalPeriod(mu: number, a: number): number {
+    requirePositive(a, 'Semi-major axis');
+    return TWO_PI * Math.sqrt(a ** 3 / mu);
+}
+
+// Vis-viva: speed at distance r on an orbit with semi-major axis a
+export function orbitalSpeed(mu: number, r: number, a: number): number {
+    requirePositive(r, 'Radius');
+    const squared = mu * (2 / r - 1 / a);
+    if (squared < 0) throw new RangeError('The orbit never reaches that radius');
+    return Math.sqrt(squared);
+}
+
+export function circularSpeed(mu: number, r: number): number {
+    return orbitalSpeed(mu, r, r);
+}
+
+export function escapeSpeed(mu: number, r: number): number {
+    requirePositive(r, 'Radius');
+    return Math.sqrt((2 * mu) / r);
+}
+
+export interface EllipticOrbit {
+    a: number;
+    e: number;
+    period: number;
+    periapsisSpeed: number;
+    apoapsisSpeed: number;
+    // Specific orbital energy, km²/s²
+    energy: number;
+}
+
+// An elliptic orbit from its periapsis and apoapsis radii (measured from the body's centre)
+export function ellipticOrbit(mu: number, periapsis: number, apoapsis: number): EllipticOrbit {
+    requirePositive(periapsis, 'Periapsis radius');
+    if (apoapsis < periapsis) throw new RangeError('Apoapsis must not be below periapsis');
+
+    const a = (periapsis + apoapsis) / 2;
+    return {
+        a,
+        e: (apoapsis - periapsis) / (apoapsis + periapsis),
+        period: orbitalPeriod(mu, a),
+        periapsisSpeed: orbitalSpeed(mu, periapsis, a),
+        apoapsisSpeed: orbitalSpeed(mu, apoapsis, a),
+        energy: -mu / (2 * a),
+    };
+}
+
+export interface J2Drift {
+    // Regression of the ascending node and rotation of periapsis, rad/s
+    nodeRate: number;
+    periapsisRate: number;
+}
+
+// Secular drift caused by the body's oblateness
+export function j2Drift(body: Body, a: number, e: number, i: number): J2Drift {
+    requirePositive(a, 'Semi-major axis');
+    if (e < 0 || e >= 1) throw new RangeError('J2 drift needs a closed orbit (0 ≤ e < 1)');
+
+    const n = Math.sqrt(body.mu / a ** 3);
+    const p = a * (1 - e * e);
+    const factor = 1.5 * n * body.j2 * (body.radius / p) ** 2;
+    return {
+        nodeRate: -factor * Math.cos(i),
+        periapsisRate: factor * (2 - 2.5 * Math.sin(i) ** 2),
+    };
+}
+
+// =============================================
+// ELEMENT CONVERSIONS
+// =============================================
+
+export function elementsToState(mu: number, elements: KeplerianElements): StateVector {
+    const { a, e, i, raan, argp, nu } = elements;
+    if (e < 0) throw new RangeError('Eccentricity must not be negative');
+    if (Math.abs(e - 1) < CIRCULAR_EPSILON) throw new RangeError('Parabolic orbits have no semi-major axis; use e slightly above or below 1');
+    if (e < 1 ? a <= 0 : a >= 0) throw new RangeError('Semi-major axis must be positive for e < 1 and negative for e > 1');
+
+    const p = a * (1 - e * e);
+    const denominator = 1 + e * Math.cos(nu);
+    if (denominator <= 0) throw new RangeError('A hyperbolic orbit never reaches that true anomaly');
+
+    // Perifocal frame: x towards periapsis, z along the angular momentum
+    const r = p / denominator;
+    const rPerifocal = [r * Math.cos(nu), r * Math.sin(nu)];
+    const speed = Math.sqrt(mu / p);
+    const vPerifocal = [-speed * Math.sin(nu), speed * (e + Math.cos(nu))];
+
+    // Rotate by argument of periapsis, inclination and node (3-1-3)
+    const [cO, sO] = [Math.cos(raan), Math.sin(raan)];
+    const [ci, si] = [Math.cos(i), Math.sin(i)];
+    const [cw, sw] = [Math.cos(argp), Math.sin(argp)];
+    const rotation = [
+        [cO * cw - sO * sw * ci, -cO * sw - sO * cw * ci],
+        [sO * cw + cO * sw * ci, -sO * sw + cO * cw * ci],
+        [sw * si, cw * si],
+    ];
+    const rotate = ([x, y]: number[]): Vector3 =>
+        rotation.map(([m0, m1]) => m0 * x + m1 * y) as Vector3;
+
+    return { r: rotate(rPerifocal), v: rotate(vPerifocal) };
+}
+
+export function stateToElements(mu: number, { r, v }: StateVector): KeplerianElements {
+    const radius = norm(r);
+    const speed = norm(v);
+    requirePositive(radius, 'Position');
+
+    const h = cross(r, v);
+    const hMag = norm(h);
+    if (hMag === 0) throw new RangeError('Position and velocity are parallel, so the orbit is a straight line');
+
+    // Node vector (towards the ascending node) and eccentricity vector
+    const n: Vector3 = [-h[1], h[0], 0];
+    const nMag = norm(n);
+    const radialSpeed = dot(r, v);
+    const eVec = r.map((rc, k) => ((speed ** 2 - mu / radius) * rc - radialSpeed * v[k]) / mu) as Vector3;
+    const e = norm(eVec);
+    if (Math.abs(e - 1) < CIRCULAR_EPSILON) throw new RangeError('The orbit is parabolic, so it has no semi-major axis');
+
+    const energy = speed ** 2 / 2 - mu / radius;
+    const i = safeAcos(h[2] / hMag);
+    const circular = e < CIRCULAR_EPSILON;
+    const equatorial = nMag / hMag < EQUATORIAL_EPSILON;
+    // Angles in the equatorial plane run the other way on retrograde orbits
+    const direction = i > Math.PI / 2 ? -1 : 1;
+
+    let raan = 0;
+    if (!equatorial) {
+        raan = safeAcos(n[0] / nMag);
+        if (n[1] < 0) raan = TWO_PI - raan;
+    }
+
+    // Circular orbits have no periapsis, and equatorial ones no node: measure
+    // from the node (argument of latitude) or the x axis (true longitude) instead
+    let argp = 0;
+    if (!circular) {
+        if (equatorial) {
+            argp = Math.atan2(direction * eVec[1], eVec[0]);
+        } else {
+            argp = safeAcos(dot(n, eVec) / (nMag * e));
+            if (eVec[2] < 0) argp = TWO_PI - argp;
+        }
+    }
+
+    let nu: number;
+    if (!circular) {
+        nu = safeAcos(dot(eVec, r) / (e * radius));
+        if (radialSpeed < 0) nu = TWO_PI - nu;
+    } else if (!equatorial) {
+        nu = safeAcos(dot(n, r) / (nMag * radius));
+        if (r[2] < 0) nu = TWO_PI - nu;
+    } else {
+        nu = Math.atan2(direction * r[1], r[0]);
+    }
+
+    const wrap = (angle: number) => ((angle % TWO_PI) + TWO_PI) % TWO_PI;
+    return { a: -mu / (2 * energy), e, i, raan: wrap(raan), argp: wrap(argp), nu: wrap(nu) };
+}
+
+// =============================================
+// TRANSFERS
+// =============================================
+
+export interface Transfer {
+    // Burns in order, km/s
+    burns: number[];
+    totalDeltaV: number;
+    // Coast time between the first and last burn, s
+    transferTime: number;
+}
+
+// Two-burn transfer between coplanar circular orbits of radius r1 and r2
+export function hohmannTransfer(mu: number, r1: number, r2: number): Transfer & { transferSemiMajorAxis: number } {
+    requirePositive(r1, 'Initial radius');
+    requirePositive(r2, 'Final radius');
+
+    const a = (r1 + r2) / 2;
+    const burns = [
+        Math.abs(orbitalSpeed(mu, r1, a) - circularSpeed(mu, r1)),
+        Math.abs(circularSpeed(mu, r2) - orbitalSpeed(mu, r2, a)),
+    ];
+    return {
+        burns,
+        totalDeltaV: burns[0] + burns[1],
+        transferTime: orbitalPeriod(mu, a) / 2,
+        transferSemiMajorAxis: a,
+    };
+}
+
+// Three-burn transfer out to radius rb and back down (or up) to r2. Cheaper
+// than a Hohmann transfer when r2/r1 is above about 11.94.
+export function biEllipticTransfer(mu: number, r1: number, r2: number, rb: number): Transfer {
+    requirePositive(r1, 'Initial radius');
+    requirePositive(r2, 'Final radius');
+    if (rb < Math.max(r1, r2)) throw new RangeError('The intermediate apoapsis must be at least as high as both orbits');
+
+    const a1 = (r1 + rb) / 2;
+    const a2 = (r2 + rb) / 2;
+    const burns = [
+        Math.abs(orbitalSpeed(mu, r1, a1) - circularSpeed(mu, r1)),
+        Math.abs(orbitalSpeed(mu, rb, a2) - orbitalSpeed(mu, rb, a1)),
+        Math.abs(orbitalSpeed(mu, r2, a2) - circularSpeed(mu, r2)),
+    ];
+    return {
+        burns,
+        totalDeltaV: burns[0] + burns[1] + burns[2],
+        transferTime: (orbitalPeriod(mu, a1) + orbitalPeriod(mu, a2)) / 2,
+    };
+}
+
+// =============================================
+// ROCKETS AND PHASING
+// =============================================
+
+// Tsiolkovsky: delta-v from exhaust velocity (km/s) and initial and final mass
+export function rocketDeltaV(exhaustVelocity: number, initialMass: number, finalMass: number): number {
+    requirePositive(exhaustVelocity, 'Exhaust velocity');
+    requirePositive(finalMass, 'Final mass');
+    if (initialMass <= finalMass) throw new RangeError('Initial mass must be greater than final mass');
+    return exhaustVelocity * Math.log(initialMass / finalMass);
+}
+
+// Tsiolkovsky solved for m0/mf
+export function rocketMassRatio(exhaustVelocity: number, deltaV: number): number {
+    requirePositive(exhaustVelocity, 'Exhaust velocity');
+    requirePositive(deltaV, 'Delta-v');
+    return Math.exp(deltaV / exhaustVelocity);
+}
+
+// Time between repeats of the same relative position of two bodies with
+// these orbital periods around the same primary (same unit in and out)
+export function synodicPeriod(period1: number, period2: number): number {
+    requirePositive(period1, 'Orbital period');
+    requirePositive(period2, 'Orbital period');
+    if (period1 === period2) throw new RangeError('Equal periods never change their relative position');
+    return 1 / Math.abs(1 / period1 - 1 / period2);
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { SatellitePropagator, elementAge, type Observer } from './sgp4';
+import { parseTle } from './tle';
+import type { Vector3 } from './mechanics';
+
+const ISS = parseTle(
+    '1 25544U 98067A   19156.50900463  .00003075  00000-0  59442-4 0  9992',
+    '2 25544  51.6433  59.2583 0008217  16.4489 347.6017 15.51174618173442',
+    'ISS (ZARYA)',
+);
+const VANGUARD = parseTle(
+    '1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753',
+    '2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667',
+    'VANGUARD 1',
+);
+
+const LONDON: Observer = { latitude: 51.5, longitude: -0.13, altitude: 0.02 };
+
+const distance = (a: Vector3, b: Vector3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+const minutesAfter = (epoch: string, minutes: number) => new Date(new Date(epoch).getTime() + minutes * 60000);
+
+describe('SatellitePropagator', () => {
+    // Expected states from the verification output (tcppver.out) for the
+    // first case of Vallado et al., "Revisiting Spacetrack Report #3"
+    it('matches the published SGP4 verification states', () => {
+        const propagator = new SatellitePropagator(VANGUARD);
+        const cases: [number, Vector3, Vector3][] = [
+            [0, [7022.46529266, -1400.08296755, 0.03995155], [1.893841015, 6.405893759, 4.534807250]],
+            [360, [-7154.03120202, -3783.17682504, -3536.19412294], [4.741887409, -4.151817765, -2.093935425]],
+        ];
+
+        for (const [minutes, r, v] of cases) {
+            const state = propagator.state(minutesAfter(VANGUARD.epoch, minutes));
+            // The epoch is kept to the millisecond, a few metres along the orbit
+            expect(distance(state.r, r)).toBeLessThan(0.01);
+            expect(distance(state.v, v)).toBeLessThan(1e-5);
+        }
+    });
+
+    it('puts the ISS in low orbit at its inclination', () => {
+        const propagator = new SatellitePropagator(ISS);
+        const track = propagator.groundTrack(new Date(ISS.epoch), minutesAfter(ISS.epoch, propagator.period), 60);
+
+        expect(propagator.period).toBeCloseTo(92.83, 2);
+        for (const point of track) {
+            expect(point.altitude).toBeGreaterThan(390);
+            expect(point.altitude).toBeLessThan(440);
+            // Geodetic latitude runs a little past the (geocentric) inclination
+            expect(Math.abs(point.latitude)).toBeLessThan(52);
+        }
+        expect(Math.max(...track.map(p => p.latitude))).toBeGreaterThan(51);
+    });
+
+    it('measures element age in days', () => {
+        expect(elementAge(ISS, minutesAfter(ISS.epoch, 1.5 * 1440))).toBeCloseTo(1.5, 10);
+    });
+});
+
+describe('passes', () => {
+    const propagator = new SatellitePropagator(ISS);
+    const start = new Date(ISS.epoch);
+    const end = minutesAfter(ISS.epoch, 1440);
+    const elevation = (time: string) => propagator.lookAngles(LONDON, new Date(time)).elevation;
+
+    // Every 10 s: the highest elevation of each time above the horizon
+    function sampledPasses(from: Date, to: Date): number[] {
+        const peaks: number[] = [];
+        let peak: number | null = null;
+        for (let t = from.getTime(); t <= to.getTime(); t += 10000) {
+            const e = propagator.lookAngles(LONDON, new Date(t)).elevation;
+            if (e >= 0) peak = Math.max(peak ?? e, e);
+            else if (peak !== null) {
+                peaks.push(peak);
+                peak = null;
+            }
+        }
+        if (peak !== null) peaks.push(peak);
+        return peaks;
+    }
+
+    it('finds every pass a fine scan finds, with rise and set on the horizon', () => {
+        const passes = propagator.passes(LONDON, start, end, 0);
+        const peaks = sampledPasses(start, end);
+
+        expect(passes.length).toBeGreaterThan(0);
+        expect(passes).toHaveLength(peaks.length);
+        passes.forEach((pass, i) => {
+            expect(pass.rise! < pass.culmination && pass.culmination < pass.set!).toBe(true);
+            expect(Math.abs(elevation(pass.rise!))).toBeLessThan(0.2);
+            expect(Math.abs(elevation(pass.set!))).toBeLessThan(0.2);
+            // The refined peak is at least as high as any sample
+            expect(pass.maxElevation).toBeGreaterThanOrEqual(peaks[i] - 0.01);
+        });
+    });
+
+    it('leaves out passes below the minimum elevation', () => {
+        const all = propagator.passes(LONDON, start, end, 0);
+        const high = propagator.passes(LONDON, start, end, 30);
+
+        expect(high.every(pass => pass.maxElevation >= 30)).toBe(true);
+        expect(high.map(pass => pass.culmination)).toEqual(all.filter(pass => pass.maxElevation >= 30).map(pass => pass.culmination));
+    });
+
+    it('has no rise for a pass already under way when the search starts', () => {
+        const [first] = propagator.passes(LONDON, start, end, 0);
+        const [current] = propagator.passes(LONDON, new Date(first.culmination), end, 0);
+
+        expect(current.rise).toBeNull();
+        expect(current.riseAzimuth).toBeNull();
+        expect(current.set).toBe(first.set);
+    });
+});
@@ -0,0 +1,217 @@
+import {
+    SatRecError,
+    ecfToLookAngles,
+    eciToEcf,
+    eciToGeodetic,
+    gstime,
+    propagate,
+    twoline2satrec,
+    type SatRec,
+} from 'satellite.js';
+import type { StateVector } from './mechanics';
+import type { Tle } from './tle';
+
+// =============================================
+// SGP4 PROPAGATION
+// =============================================
+// Positions from two-line elements with the SGP4 model (SDP4 for periods
+// over 225 minutes, e.g. GPS and geostationary orbits), via satellite.js.
+// Accuracy is about a kilometre at the epoch and degrades by a few km a day,
+// so elements more than a couple of weeks old only give a rough position.
+
+const DEG = Math.PI / 180;
+const MS_PER_MINUTE = 60000;
+
+// An observer on the ground: degrees, and km above the WGS-84 ellipsoid
+export interface Observer {
+    latitude: number;
+    longitude: number;
+    altitude: number;
+}
+
+// The point on the ground directly below the satellite
+export interface SubSatellitePoint {
+    time: string;
+    latitude: number;
+    longitude: number;
+    // Height above the ellipsoid, km
+    altitude: number;
+}
+
+// Where to look from an observer: degrees clockwise from north, degrees above
+// the horizon, and km to the satellite
+export interface LookAngles {
+    azimuth: number;
+    elevation: number;
+    range: number;
+}
+
+// A pass over an observer, horizon to horizon. Rise or set are null when the
+// satellite was already up when the search started, or still up when it ended.
+export interface SatellitePass {
+    rise: string | null;
+    riseAzimuth: number | null;
+    culmination: string;
+    maxElevation: number;
+    set: string | null;
+    setAzimuth: number | null;
+}
+
+export class PropagationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PropagationError';
+    }
+}
+
+const ERROR_MESSAGES: Record<number, string> = {
+    [SatRecError.MeanEccentricityOutOfRange]: 'its eccentricity left the range 0-1',
+    [SatRecError.MeanMotionBelowZero]: 'its mean motion fell below zero',
+    [SatRecError.PerturbedEccentricityOutOfRange]: 'its perturbed eccentricity left the range 0-1',
+    [SatRecError.SemiLatusRectumBelowZero]: 'its orbit collapsed',
+    [SatRecError.Decayed]: 'it has decayed',
+};
+
+function wrapLongitude(degrees: number): number {
+    return ((degrees + 540) % 360) - 180;
+}
+
+function wrapAzimuth(degrees: number): number {
+    return ((degrees % 360) + 360) % 360;
+}
+
+export class SatellitePropagator {
+    private readonly satrec: SatRec;
+
+    constructor(readonly tle: Tle) {
+        this.satrec = twoline2satrec(tle.line1, tle.line2);
+        if (this.satrec.error !== SatRecError.None) {
+            throw new PropagationError(`${tle.name} can't be propagated: ${ERROR_MESSAGES[this.satrec.error] ?? 'invalid elements'}`);
+        }
+    }
+
+    // Minutes per revolution, from the mean motion
+    get period(): number {
+        return 1440 / this.tle.meanMotion;
+    }
+
+    // Position (km) and velocity (km/s) in the TEME frame, close enough to
+    // true-of-date inertial for tracking
+    state(date: Date): StateVector {
+        const result = propagate(this.satrec, date, { communityDecayCheckEnabled: true });
+        if (!result) {
+            throw new PropagationError(`${this.tle.name} can't be propagated to ${date.toISOString()}: ${ERROR_MESSAGES[this.satrec.error] ?? 'SGP4 failed'}`);
+        }
+        const { position: r, velocity: v } = result;
+        return { r: [r.x, r.y, r.z], v: [v.x, v.y, v.z] };
+    }
+
+    subSatellitePoint(date: Date): SubSatellitePoint {
+        const [x, y, z] = this.state(date).r;
+        const geodetic = eciToGeodetic({ x, y, z }, gstime(date));
+        return {
+            time: date.toISOString(),
+            latitude: geodetic.latitude / DEG,
+            longitude: wrapLongitude(geodetic.longitude / DEG),
+            altitude: geodetic.height,
+        };
+    }
+
+    lookAngles(observer: Observer, date: Date): LookAngles {
+        const [x, y, z] = this.state(date).r;
+        const angles = ecfToLookAngles(
+            { latitude: observer.latitude * DEG, longitude: observer.longitude * DEG, height: observer.altitude },
+            eciToEcf({ x, y, z }, gstime(date)),
+        );
+        return {
+            azimuth: wrapAzimuth(angles.azimuth / DEG),
+            elevation: angles.elevation / DEG,
+            range: angles.rangeSat,
+        };
+    }
+
+    // Sub-satellite points from `start` to `end`, every `stepSeconds`
+    groundTrack(start: Date, end: Date, stepSeconds: number): SubSatellitePoint[] {
+        const points: SubSatellitePoint[] = [];
+        for (let t = start.getTime(); t <= end.getTime(); t += stepSeconds * 1000) {
+            points.push(this.subSatellitePoint(new Date(t)));
+        }
+        return points;
+    }
+
+    // Passes between `start` and `end` that climb at least `minElevation`
+    // degrees. Elevation is sampled every 30 s (a low-orbit pass lasts several
+    // minutes), then rise, set and the highest point are refined to a second.
+    passes(observer: Observer, start: Date, end: Date, minElevation = 10): SatellitePass[] {
+        const stepMs = 30000;
+        const elevation = (t: number) => this.lookAngles(observer, new Date(t)).elevation;
+        const azimuth = (t: number) => this.lookAngles(observer, new Date(t)).azimuth;
+
+        // Where elevation crosses zero between a and b, to within a second
+        const crossing = (a: number, b: number) => {
+            const rising = elevation(a) < 0;
+            while (b - a > 1000) {
+                const mid = (a + b) / 2;
+                if ((elevation(mid) < 0) === rising) a = mid;
+                else b = mid;
+            }
+            return Math.round(b / 1000) * 1000;
+        };
+
+        // The highest point between a and b (elevation rises then falls)
+        const culmination = (a: number, b: number) => {
+            while (b - a > 1000) {
+                const m1 = a + (b - a) / 3;
+                const m2 = b - (b - a) / 3;
+                if (elevation(m1) < elevation(m2)) a = m1;
+                else b = m2;
+            }
+            return Math.round((a + b) / 2000) * 1000;
+        };
+
+        // Elevation at each sample time, the end included
+        const [first, last] = [start.getTime(), end.getTime()];
+        const times: number[] = [];
+        for (let t = first; t < last; t += stepMs) times.push(t);
+        times.push(last);
+        const samples = times.map(elevation);
+
+        const passes: SatellitePass[] = [];
+        // When the current pass came over the horizon (or the search started), and its highest sample
+        let passStart: number | null = samples[0] >= 0 ? first : null;
+        let peak = 0;
+
+        for (let k = 1; k < times.length; k++) {
+            const [wasUp, up] = [samples[k - 1] >= 0, samples[k] >= 0];
+            if (!wasUp && up) {
+                passStart = crossing(times[k - 1], times[k]);
+                peak = k;
+            }
+            if (up && samples[k] > samples[peak]) peak = k;
+
+            const set = wasUp && !up ? crossing(times[k - 1], times[k]) : null;
+            if (passStart === null || (set === null && !(up && k === times.length - 1))) continue;
+
+            const top = culmination(Math.max(passStart, times[peak - 1] ?? first), Math.min(set ?? last, times[peak + 1] ?? last));
+            const maxElevation = elevation(top);
+            if (maxElevation >= minElevation) {
+                const rose = passStart !== first || samples[0] < 0;
+                passes.push({
+                    rise: rose ? new Date(passStart).toISOString() : null,
+                    riseAzimuth: rose ? azimuth(passStart) : null,
+                    culmination: new Date(top).toISOString(),
+                    maxElevation,
+                    set: set === null ? null : new Date(set).toISOString(),
+                    setAzimuth: set === null ? null : azimuth(set),
+                });
+            }
+            passStart = null;
+        }
+        return passes;
+    }
+}
+
+// How old the elements are at `date`, in days
+export function elementAge(tle: Tle, date: Date): number {
+    return (date.getTime() - new Date(tle.epoch).getTime()) / (1440 * MS_PER_MINUTE);
+}
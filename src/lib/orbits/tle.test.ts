@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { findSatellite, parseTle, parseTleCatalog, TleError } from './tle';
+
+// The ISS set from the satellite.js README and the first SGP4 verification
+// case from Vallado et al., "Revisiting Spacetrack Report #3" (see ./bundled-tles)
+const ISS = [
+    '1 25544U 98067A   19156.50900463  .00003075  00000-0  59442-4 0  9992',
+    '2 25544  51.6433  59.2583 0008217  16.4489 347.6017 15.51174618173442',
+] as const;
+const VANGUARD = [
+    '1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753',
+    '2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667',
+] as const;
+
+// Swap in new columns and fix the checksum, for sets the tests make up
+function edit(line: string, start: number, text: string): string {
+    const body = line.slice(0, start - 1) + text + line.slice(start - 1 + text.length, 68);
+    let sum = 0;
+    for (const char of body) sum += char === '-' ? 1 : Number(char) || 0;
+    return body + (sum % 10);
+}
+
+describe('parseTle', () => {
+    it('reads the elements from their columns', () => {
+        expect(parseTle(...ISS, 'ISS (ZARYA)')).toEqual({
+            name: 'ISS (ZARYA)',
+            noradId: 25544,
+            designator: '98067A',
+            epoch: '2019-06-05T12:12:58.000Z',
+            inclination: 51.6433,
+            raan: 59.2583,
+            eccentricity: 0.0008217,
+            argPerigee: 16.4489,
+            meanAnomaly: 347.6017,
+            meanMotion: 15.51174618,
+            bstar: 0.59442e-4,
+            line1: ISS[0],
+            line2: ISS[1],
+        });
+    });
+
+    it('names a set without a name line by its catalog number, and drops a 3LE "0 " prefix', () => {
+        expect(parseTle(...VANGUARD).name).toBe('NORAD 5');
+        expect(parseTle(...VANGUARD, '0 VANGUARD 1').name).toBe('VANGUARD 1');
+    });
+
+    it('reads negative exponents and two-digit years', () => {
+        const tle = parseTle(...VANGUARD);
+
+        expect(tle.bstar).toBeCloseTo(0.28098e-4, 12);
+        expect(tle.epoch).toBe('2000-06-27T18:50:19.734Z');
+        expect(parseTle(edit(VANGUARD[0], 19, '57001.00000000'), VANGUARD[1]).epoch).toBe('1957-01-01T00:00:00.000Z');
+    });
+
+    it('rounds the epoch to whole milliseconds', () => {
+        const line1 = edit(VANGUARD[0], 19, '26288.33333333');
+
+        expect(parseTle(line1, VANGUARD[1]).epoch).toBe('2026-10-15T08:00:00.000Z');
+    });
+
+    it('rejects a line that fails its checksum', () => {
+        const corrupted = ISS[1].replace('51.6433', '51.6434');
+
+        expect(() => parseTle(ISS[0], corrupted)).toThrow(new TleError('Line 2 fails its checksum'));
+    });
+
+    it('counts minus signs as 1 in the checksum', () => {
+        // A negative drag term changes the sum by one per minus sign
+        const line1 = edit(ISS[0], 54, '-59442-4');
+
+        expect(parseTle(line1, ISS[1]).bstar).toBeCloseTo(-0.59442e-4, 12);
+        expect(() => parseTle(line1.slice(0, 68) + ISS[0][68], ISS[1])).toThrow('Line 1 fails its checksum');
+    });
+
+    it('rejects lines of the wrong shape or for different satellites', () => {
+        expect(() => parseTle(ISS[0].slice(0, 60), ISS[1])).toThrow('Line 1 must be 69 characters');
+        expect(() => parseTle(ISS[1], ISS[0])).toThrow('Line 1 must be 69 characters starting with "1 "');
+        expect(() => parseTle(ISS[0], VANGUARD[1])).toThrow('The two lines are for different satellites');
+    });
+});
+
+describe('parseTleCatalog', () => {
+    it('reads sets with and without name lines, skipping blank lines', () => {
+        const catalog = parseTleCatalog(`ISS (ZARYA)\r\n${ISS.join('\r\n')}\r\n\r\n${VANGUARD.join('\n')}\n`);
+
+        expect(catalog.map(s => [s.name, s.noradId])).toEqual([['ISS (ZARYA)', 25544], ['NORAD 5', 5]]);
+    });
+
+    it('names the line a broken set starts on', () => {
+        const broken = ['ISS (ZARYA)', ...ISS, 'VANGUARD 1', VANGUARD[0], VANGUARD[1].replace('34.2682', '34.2683')].join('\n');
+
+        expect(() => parseTleCatalog(broken)).toThrow(new TleError('Line 5: Line 2 fails its checksum'));
+        expect(() => parseTleCatalog(`VANGUARD 1\n${VANGUARD[0]}`)).toThrow(new TleError('Line 1: incomplete element set'));
+    });
+});
+
+describe('findSatellite', () => {
+    const catalog = parseTleCatalog(`ISS (ZARYA)\n${ISS.join('\n')}\nVANGUARD 1\n${VANGUARD.join('\n')}`);
+
+    it('finds by catalog number, exact name or part of a name', () => {
+        expect(findSatellite(catalog, 5)?.name).toBe('VANGUARD 1');
+        expect(findSatellite(catalog, '25544')?.name).toBe('ISS (ZARYA)');
+        expect(findSatellite(catalog, 'vanguard 1')?.noradId).toBe(5);
+        expect(findSatellite(catalog, 'iss')?.noradId).toBe(25544);
+        expect(findSatellite(catalog, 'hubble')).toBeUndefined();
+    });
+});
@@ -0,0 +1,127 @@
+// =============================================
+// TWO-LINE ELEMENT SETS
+// =============================================
+// The NORAD fixed-column format CelesTrak and Space-Track publish, one
+// satellite per two lines, optionally after a name line ("3LE").
+// https://celestrak.org/NORAD/documentation/tle-fmt.php
+
+export interface Tle {
+    name: string;
+    noradId: number;
+    // International designator, e.g. "98067A"
+    designator: string;
+    // ISO timestamp the elements are valid at
+    epoch: string;
+    // Mean elements: degrees, and revolutions per day for mean motion
+    inclination: number;
+    raan: number;
+    eccentricity: number;
+    argPerigee: number;
+    meanAnomaly: number;
+    meanMotion: number;
+    // Drag term, 1/earth radii
+    bstar: number;
+    line1: string;
+    line2: string;
+}
+
+export class TleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TleError';
+    }
+}
+
+// Digits count as themselves, minus signs as 1, modulo 10
+function checksum(line: string): number {
+    let sum = 0;
+    for (const char of line.slice(0, 68)) {
+        if (char >= '0' && char <= '9') sum += Number(char);
+        else if (char === '-') sum += 1;
+    }
+    return sum % 10;
+}
+
+function field(line: string, start: number, end: number, what: string): number {
+    const value = Number(line.slice(start - 1, end).trim());
+    if (!Number.isFinite(value)) throw new TleError(`Invalid ${what} "${line.slice(start - 1, end).trim()}"`);
+    return value;
+}
+
+// " 12345-3" is 0.12345e-3: an implied leading decimal point and exponent
+function impliedDecimal(text: string): number {
+    const match = /^([+-]?)(\d+)([+-]\d)$/.exec(text.trim());
+    if (!match) throw new TleError(`Invalid exponent field "${text.trim()}"`);
+    return Number(`${match[1]}0.${match[2]}e${match[3]}`);
+}
+
+// Two-digit years: 57-99 are 1957-1999, 00-56 are 2000-2056. The day
+// fraction has eight decimals, finer than a millisecond, and rarely lands on
+// one exactly (.33333333 would otherwise be 07:59:59.999).
+function epochToIso(epoch: string): string {
+    const year2 = Number(epoch.slice(0, 2));
+    const dayOfYear = Number(epoch.slice(2));
+    if (!Number.isFinite(year2) || !(dayOfYear >= 1 && dayOfYear < 367)) {
+        throw new TleError(`Invalid epoch "${epoch.trim()}"`);
+    }
+    const year = year2 < 57 ? 2000 + year2 : 1900 + year2;
+    return new Date(Date.UTC(year, 0, 1) + Math.round((dayOfYear - 1) * 86400000)).toISOString();
+}
+
+export function parseTle(line1: string, line2: string, name?: string): Tle {
+    const [l1, l2] = [line1.trimEnd(), line2.trimEnd()];
+    if (l1.length !== 69 || !l1.startsWith('1 ')) throw new TleError('Line 1 must be 69 characters starting with "1 "');
+    if (l2.length !== 69 || !l2.startsWith('2 ')) throw new TleError('Line 2 must be 69 characters starting with "2 "');
+    for (const [n, line] of [[1, l1], [2, l2]] as const) {
+        if (checksum(line) !== Number(line[68])) throw new TleError(`Line ${n} fails its checksum`);
+    }
+
+    const noradId = field(l1, 3, 7, 'catalog number');
+    if (field(l2, 3, 7, 'catalog number') !== noradId) throw new TleError('The two lines are for different satellites');
+
+    return {
+        name: name?.replace(/^0 /, '').trim() || `NORAD ${noradId}`,
+        noradId,
+        designator: l1.slice(9, 17).trim(),
+        epoch: epochToIso(l1.slice(18, 32)),
+        inclination: field(l2, 9, 16, 'inclination'),
+        raan: field(l2, 18, 25, 'right ascension of the ascending node'),
+        eccentricity: Number(`0.${l2.slice(26, 33).trim()}`),
+        argPerigee: field(l2, 35, 42, 'argument of perigee'),
+        meanAnomaly: field(l2, 44, 51, 'mean anomaly'),
+        meanMotion: field(l2, 53, 63, 'mean motion'),
+        bstar: impliedDecimal(l1.slice(53, 61)),
+        line1: l1,
+        line2: l2,
+    };
+}
+
+// A whole file of element sets, with or without name lines. Blank lines are
+// ignored; anything else that doesn't parse throws, naming the line.
+export function parseTleCatalog(text: string): Tle[] {
+    const lines = text.split(/\r?\n/).map((line, i) => ({ line: line.trimEnd(), number: i + 1 })).filter(l => l.line);
+    const satellites: Tle[] = [];
+
+    for (let i = 0; i < lines.length;) {
+        const name = lines[i].line.startsWith('1 ') ? undefined : lines[i++];
+        const [first, second] = [lines[i], lines[i + 1]];
+        if (!first || !second) throw new TleError(`Line ${(name ?? first)?.number}: incomplete element set`);
+        try {
+            satellites.push(parseTle(first.line, second.line, name?.line));
+        } catch (error) {
+            if (error instanceof TleError) throw new TleError(`Line ${first.number}: ${error.message}`);
+            throw error;
+        }
+        i += 2;
+    }
+    return satellites;
+}
+
+// By catalog number, or by name ignoring case: an exact match first, then
+// the first name containing the query (so "iss" finds "ISS (ZARYA)")
+export function findSatellite(catalog: Tle[], query: string | number): Tle | undefined {
+    const text = String(query).trim().toLowerCase();
+    if (/^\d+$/.test(text)) return catalog.find(s => s.noradId === Number(text));
+    return catalog.find(s => s.name.toLowerCase() === text)
+        ?? catalog.find(s => s.name.toLowerCase().includes(text));
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { cursorParam, encodeCursor, MessageCursorSchema, SessionCursorSchema } from './pagination';
+
+const ID = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+const raw = (key: object) => btoa(JSON.stringify(key));
+
+describe('cursorParam', () => {
+    it('round-trips cursors of stored timestamps', () => {
+        const session = { pinned: true, updated_at: '2025-01-16T02:38:00.123456+00:00', id: ID };
+        const message = { created_at: '2025-01-16T02:38:00.123Z', id: ID };
+
+        expect(cursorParam(SessionCursorSchema).parse(encodeCursor(session))).toEqual(session);
+        expect(cursorParam(MessageCursorSchema).parse(encodeCursor(message))).toEqual(message);
+    });
+
+    it('rejects timestamps that would add PostgREST filter clauses', () => {
+        const injected = [
+            '2025-01-01T00:00:00Z),user_id.neq.x,and(id.eq.x',
+            '2025-01-01T00:00:00Z",id.gt."0',
+            '2025-01-01',
+            'now',
+        ];
+        for (const timestamp of injected) {
+            expect(cursorParam(MessageCursorSchema).safeParse(raw({ created_at: timestamp, id: ID })).success).toBe(false);
+            expect(cursorParam(SessionCursorSchema).safeParse(raw({ pinned: false, updated_at: timestamp, id: ID })).success).toBe(false);
+        }
+    });
+});
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import type { ChatSession, Message } from './types';
+
+// =============================================
+// CURSOR PAGINATION
+// =============================================
+// The session list and message history are paged with keyset cursors: a
+// cursor is the sort key of the last item a page returned, so later pages
+// stay correct while new chats and messages are being added. Clients treat
+// cursors as opaque strings.
+
+// Cursors come back from clients and end up in PostgREST filters (see
+// ../store/supabase-store), so every field is held to its exact format
+const Timestamp = z.iso.datetime({ offset: true });
+
+// Sessions: pinned first, then most recently active
+export const SessionCursorSchema = z.object({
+    pinned: z.boolean(),
+    updated_at: Timestamp,
+    id: z.uuid(),
+});
+
+export type SessionCursor = z.infer<typeof SessionCursorSchema>;
+
+// Messages: paged from the newest backwards
+export const MessageCursorSchema = z.object({
+    created_at: Timestamp,
+    id: z.uuid(),
+});
+
+export type MessageCursor = z.infer<typeof MessageCursorSchema>;
+
+// base64url of the JSON sort key; the keys are plain ASCII
+export function encodeCursor(key: SessionCursor | MessageCursor): string {
+    return btoa(JSON.stringify(key)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// A query parameter holding a cursor of the given shape
+export function cursorParam<T extends z.ZodType>(key: T) {
+    return z.string().transform((value, ctx): z.output<T> => {
+        try {
+            const parsed = key.safeParse(JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/'))));
+            if (parsed.success) return parsed.data;
+        } catch {
+            // Fall through to the issue below
+        }
+        ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+        return z.NEVER;
+    });
+}
+
+export function sessionCursor(session: ChatSession): SessionCursor {
+    return { pinned: session.pinned, updated_at: session.updated_at, id: session.id };
+}
+
+export function messageCursor(message: Message): MessageCursor {
+    return { created_at: message.created_at, id: message.id };
+}
+
+// Sort order of the session list (negative when `a` comes first)
+export function compareSessions(a: SessionCursor, b: SessionCursor): number {
+    return Number(b.pinned) - Number(a.pinned)
+        || b.updated_at.localeCompare(a.updated_at)
+        || b.id.localeCompare(a.id);
+}
+
+// Newest first
+export function compareMessagesNewestFirst(a: MessageCursor, b: MessageCursor): number {
+    return b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id);
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getClientIp } from './chat-limits';
+
+const request = (forwardedFor?: string) => new Request('http://localhost/api/chat', {
+    headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+});
+
+describe('getClientIp', () => {
+    it('takes the address the trusted proxy appended, not what the client sent', () => {
+        expect(getClientIp(request('1.2.3.4'), 1)).toBe('1.2.3.4');
+        expect(getClientIp(request('6.6.6.6, 1.2.3.4'), 1)).toBe('1.2.3.4');
+        expect(getClientIp(request('6.6.6.6, 7.7.7.7, 1.2.3.4'), 1)).toBe('1.2.3.4');
+    });
+
+    it('counts back past each trusted proxy', () => {
+        expect(getClientIp(request('6.6.6.6, 1.2.3.4, 10.0.0.1'), 2)).toBe('1.2.3.4');
+        expect(getClientIp(request('1.2.3.4'), 2)).toBe('1.2.3.4');
+    });
+
+    it('knows no address without a trusted proxy or a forwarded header', () => {
+        expect(getClientIp(request('1.2.3.4'), 0)).toBeNull();
+        expect(getClientIp(request(), 1)).toBeNull();
+    });
+});
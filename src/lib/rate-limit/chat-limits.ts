@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import type { LimitExceeded } from './types';
+import { getRateLimitStore } from './store';
+
+// =============================================
+// /api/chat LIMITS
+// =============================================
+// Requests are limited per user and per IP each minute, and each user gets a
+// daily token budget (UTC days) charged with the usage streamText reports.
+// Set a limit to 0 to turn it off; the per-IP limit is also off when the
+// caller's address isn't known (see getClientIp).
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+function limitFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+export function getChatLimits() {
+    return {
+        requestsPerUser: limitFromEnv('CHAT_RATE_LIMIT_PER_USER', 10),
+        requestsPerIp: limitFromEnv('CHAT_RATE_LIMIT_PER_IP', 30),
+        dailyTokens: limitFromEnv('CHAT_DAILY_TOKEN_QUOTA', 100000),
+    };
+}
+
+function windowAt(now: number, size: number) {
+    const start = Math.floor(now / size) * size;
+    return { start: new Date(start), end: new Date(start + size) };
+}
+
+function tooManyRequests(body: LimitExceeded): NextResponse {
+    return NextResponse.json(body, { status: 429, headers: { 'Retry-After': String(body.retryAfter) } });
+}
+
+// Proxies in front of the app that append to x-forwarded-for (1 on Vercel).
+// The client writes whatever it likes at the start of the header, so only
+// entries added by those proxies are trusted.
+export function getTrustedProxyHops(): number {
+    return Math.max(0, Math.floor(limitFromEnv('TRUSTED_PROXY_HOPS', 1)));
+}
+
+// The caller's address as the outermost trusted proxy saw it, or null with no
+// trusted proxy (a Request carries no socket address to fall back on)
+export function getClientIp(req: Request, hops = getTrustedProxyHops()): string | null {
+    if (hops === 0) return null;
+    const forwarded = req.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean) ?? [];
+    return forwarded[Math.max(0, forwarded.length - hops)] ?? null;
+}
+
+// Returns the 429 to send, or null if the request may go ahead. Counting
+// errors let the request through: a broken counter shouldn't take chat down.
+export async function checkChatLimits(userId: string, ip: string | null, now = Date.now()): Promise<NextResponse | null> {
+    const limits = getChatLimits();
+    const store = getRateLimitStore();
+    const secondsUntil = (end: Date) => Math.max(1, Math.ceil((end.getTime() - now) / 1000));
+
+    try {
+        // Tokens are only charged once an answer finishes, so check the quota without counting
+        if (limits.dailyTokens > 0) {
+            const day = windowAt(now, DAY);
+            const used = await store.get(`tokens:user:${userId}`, day.start);
+            if (used >= limits.dailyTokens) {
+                return tooManyRequests({
+                    error: `You've used today's quota of ${limits.dailyTokens.toLocaleString('en-US')} tokens. It resets at midnight UTC.`,
+                    code: 'quota_exceeded',
+                    limit: limits.dailyTokens,
+                    retryAfter: secondsUntil(day.end),
+                });
+            }
+        }
+
+        const minute = windowAt(now, MINUTE);
+        const requestLimits: Array<[string, number]> = [[`chat:user:${userId}`, limits.requestsPerUser]];
+        if (ip) requestLimits.push([`chat:ip:${ip}`, limits.requestsPerIp]);
+        for (const [key, limit] of requestLimits) {
+            if (limit <= 0) continue;
+
+            const count = await store.increment(key, minute.start, minute.end, 1);
+            if (count > limit) {
+                const retryAfter = secondsUntil(minute.end);
+                return tooManyRequests({
+                    error: `You're sending messages too quickly. Try again in ${retryAfter} seconds.`,
+                    code: 'rate_limited',
+                    limit,
+                    retryAfter,
+                });
+            }
+        }
+    } catch (error) {
+        console.error('Error checking chat limits:', error);
+    }
+
+    return null;
+}
+
+// Charge a finished model call's tokens (an answer or a title) to the user's daily quota
+export async function recordTokenUsage(userId: string, tokens: number, now = Date.now()): Promise<void> {
+    if (tokens <= 0) return;
+
+    try {
+        const day = windowAt(now, DAY);
+        await getRateLimitStore().increment(`tokens:user:${userId}`, day.start, day.end, tokens);
+    } catch (error) {
+        console.error('Error recording token usage:', error);
+    }
+}
@@ -0,0 +1,7 @@
+import 'server-only';
+
+export type { RateLimitStore, LimitExceeded } from './types';
+export { SupabaseRateLimitStore } from './supabase-store';
+export { MemoryRateLimitStore } from './memory-store';
+export { getRateLimitStore } from './store';
+export { getChatLimits, getClientIp, checkChatLimits, recordTokenUsage } from './chat-limits';
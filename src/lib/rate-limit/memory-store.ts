@@ -0,0 +1,33 @@
+import type { RateLimitStore } from './types';
+
+interface Counter {
+    count: number;
+    expiresAt: number;
+}
+
+// Counts in process memory. Fine for development and a single server; limits
+// reset on restart and aren't shared between instances.
+export class MemoryRateLimitStore implements RateLimitStore {
+    private counters = new Map<string, Counter>();
+
+    private prune(now: number) {
+        for (const [key, counter] of this.counters) {
+            if (counter.expiresAt <= now) this.counters.delete(key);
+        }
+    }
+
+    async increment(key: string, windowStart: Date, windowEnd: Date, amount: number): Promise<number> {
+        this.prune(Date.now());
+
+        const id = `${key}@${windowStart.toISOString()}`;
+        const counter = this.counters.get(id) ?? { count: 0, expiresAt: windowEnd.getTime() };
+        counter.count += amount;
+        this.counters.set(id, counter);
+        return counter.count;
+    }
+
+    async get(key: string, windowStart: Date): Promise<number> {
+        const counter = this.counters.get(`${key}@${windowStart.toISOString()}`);
+        return counter && counter.expiresAt > Date.now() ? counter.count : 0;
+    }
+}
@@ -0,0 +1,29 @@
+import { SupabaseRateLimitStore } from './supabase-store';
+import { MemoryRateLimitStore } from './memory-store';
+import type { RateLimitStore } from './types';
+
+// RATE_LIMIT_STORE picks the backend: "supabase" or "memory". It defaults to
+// the database when chats are stored there, otherwise to memory.
+function createRateLimitStore(): RateLimitStore {
+    const chatStore = process.env.CHAT_STORE || 'supabase';
+    const backend = process.env.RATE_LIMIT_STORE || (chatStore === 'supabase' ? 'supabase' : 'memory');
+
+    switch (backend) {
+        case 'supabase':
+            return new SupabaseRateLimitStore();
+        case 'memory':
+            return new MemoryRateLimitStore();
+        default:
+            throw new Error(`Unknown RATE_LIMIT_STORE "${backend}"`);
+    }
+}
+
+// One store per server process (kept on globalThis so dev hot reloads reuse it)
+const globalForStore = globalThis as unknown as { rateLimitStore?: RateLimitStore };
+
+export function getRateLimitStore(): RateLimitStore {
+    if (!globalForStore.rateLimitStore) {
+        globalForStore.rateLimitStore = createRateLimitStore();
+    }
+    return globalForStore.rateLimitStore;
+}
@@ -0,0 +1,30 @@
+import { getSupabase } from '../supabase';
+import type { RateLimitStore } from './types';
+
+// Counters in the rate_limit_counters table, shared by every server instance.
+// Increments go through the increment_rate_limit function so they're atomic.
+export class SupabaseRateLimitStore implements RateLimitStore {
+    async increment(key: string, windowStart: Date, windowEnd: Date, amount: number): Promise<number> {
+        const { data, error } = await getSupabase().rpc('increment_rate_limit', {
+            counter_key: key,
+            counter_window_start: windowStart.toISOString(),
+            counter_expires_at: windowEnd.toISOString(),
+            amount,
+        });
+
+        if (error) throw error;
+        return data;
+    }
+
+    async get(key: string, windowStart: Date): Promise<number> {
+        const { data, error } = await getSupabase()
+            .from('rate_limit_counters')
+            .select('count')
+            .eq('key', key)
+            .eq('window_start', windowStart.toISOString())
+            .maybeSingle();
+
+        if (error) throw error;
+        return data?.count ?? 0;
+    }
+}
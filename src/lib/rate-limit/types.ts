@@ -0,0 +1,16 @@
+// =============================================
+// RATE LIMIT STORE
+// =============================================
+// Rate limits and token quotas are fixed-window counters: a key names what is
+// counted ("chat:user:<id>", "tokens:user:<id>", ...) and every window starts
+// from zero. Implementations throw on failure, like the chat store.
+
+export interface RateLimitStore {
+    // Add amount to the key's counter for the window and return the new total
+    increment(key: string, windowStart: Date, windowEnd: Date, amount: number): Promise<number>;
+    // Current total for the window (0 if nothing was counted yet)
+    get(key: string, windowStart: Date): Promise<number>;
+}
+
+// Body of a 429 from /api/chat
+export type { LimitExceeded } from '../schemas';
@@ -0,0 +1,334 @@
+import { z } from 'zod';
+import { SourceListSchema } from './sources';
+import { ToolCallListSchema } from './tool-calls';
+import { cursorParam, SessionCursorSchema, MessageCursorSchema } from './pagination';
+import type { ChatSession, Message, MessageSearchHit, SessionShare } from './types';
+
+// =============================================
+// API SCHEMAS
+// =============================================
+// Request and response bodies for every API route. Routes validate requests
+// with these (see ./validation), and the browser client validates responses
+// and takes its types from them (see ./api-client). Response schemas are
+// checked against the database row types so they can't drift apart.
+
+// Every error response: a message, plus field-level issues for invalid input
+export const ApiErrorSchema = z.object({
+    error: z.string(),
+    issues: z.array(z.object({
+        path: z.string(),
+        message: z.string(),
+    })).optional(),
+});
+
+export type ApiErrorBody = z.infer<typeof ApiErrorSchema>;
+
+// =============================================
+// CHAT
+// =============================================
+
+// AI SDK UI message, as sent by the chat runtime. Parts are passed through to
+// the response untouched, so only the fields the route reads are checked.
+export const ChatMessageSchema = z.looseObject({
+    id: z.string(),
+    role: z.enum(['system', 'user', 'assistant']),
+    parts: z.array(z.looseObject({ type: z.string() })),
+});
+
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+export const ChatRequestSchema = z.object({
+    messages: z.array(ChatMessageSchema).min(1),
+    // "<provider>:<model>"; the server default when omitted
+    model: z.string().optional(),
+    // Session the turns are saved to; nothing is saved without one
+    sessionId: z.uuid().nullish(),
+    trigger: z.enum(['submit-message', 'regenerate-message']).optional(),
+});
+
+export type ChatRequest = z.infer<typeof ChatRequestSchema>;
+
+// Metadata /api/chat attaches to the assistant message it streams
+export const ChatMessageMetadataSchema = z.object({
+    // Session the reply was saved to
+    sessionId: z.uuid().optional(),
+});
+
+export type ChatMessageMetadata = z.infer<typeof ChatMessageMetadataSchema>;
+
+// 429 from /api/chat; the UI shows `error` in the quota banner
+export const LimitExceededSchema = z.object({
+    error: z.string(),
+    code: z.enum(['rate_limited', 'quota_exceeded']),
+    limit: z.number(),
+    // Seconds until the window resets, also sent as the Retry-After header
+    retryAfter: z.number(),
+});
+
+export type LimitExceeded = z.infer<typeof LimitExceededSchema>;
+
+// =============================================
+// SESSIONS
+// =============================================
+
+const SessionTitleSchema = z.string().trim().min(1).max(200);
+
+export const CreateSessionRequestSchema = z.object({
+    title: SessionTitleSchema.optional(),
+});
+
+export type CreateSessionRequest = z.infer<typeof CreateSessionRequestSchema>;
+
+// PATCH /api/sessions/[id]: rename, pin/unpin, archive/unarchive
+export const UpdateSessionRequestSchema = z.object({
+    title: SessionTitleSchema.optional(),
+    pinned: z.boolean().optional(),
+    archived: z.boolean().optional(),
+}).refine(body => Object.values(body).some(value => value !== undefined), {
+    message: 'Nothing to update',
+});
+
+export type UpdateSessionRequest = z.infer<typeof UpdateSessionRequestSchema>;
+
+export const SessionIdQuerySchema = z.object({
+    id: z.uuid(),
+});
+
+export const ChatSessionSchema = z.object({
+    id: z.string(),
+    user_id: z.string(),
+    title: z.string(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    pinned: z.boolean(),
+    archived: z.boolean(),
+}) satisfies z.ZodType<ChatSession>;
+
+// GET /api/sessions: one page of the list, pinned first, then most recently updated
+export const ListSessionsQuerySchema = z.object({
+    // Only archived or only active chats; both when left out
+    archived: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(30),
+    // nextCursor from the previous page
+    cursor: cursorParam(SessionCursorSchema).optional(),
+});
+
+export const SessionPageSchema = z.object({
+    sessions: z.array(ChatSessionSchema),
+    // Pass back as `cursor` for the next page; null on the last one
+    nextCursor: z.string().nullable(),
+});
+
+export type SessionPage = z.infer<typeof SessionPageSchema>;
+
+export const DeleteSessionResponseSchema = z.object({
+    success: z.literal(true),
+});
+
+// =============================================
+// MESSAGES
+// =============================================
+
+export const CreateMessageRequestSchema = z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string().min(1),
+    sources: SourceListSchema.default([]),
+    // The message this one follows; null starts the conversation
+    parent_id: z.uuid().nullable().default(null),
+});
+
+// What a client sends (sources and parent_id may be left out)
+export type CreateMessageRequest = z.input<typeof CreateMessageRequestSchema>;
+
+export const MessageSchema = z.object({
+    id: z.string(),
+    session_id: z.string(),
+    parent_id: z.string().nullable(),
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+    sources: SourceListSchema.nullable(),
+    // Missing from exports made before tool calls were stored
+    tool_calls: ToolCallListSchema.nullable().default(null),
+    created_at: z.string(),
+}) satisfies z.ZodType<Message>;
+
+// GET /api/sessions/[id]/messages: the newest messages, oldest first within the page
+export const ListMessagesQuerySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    // nextCursor from the previous page, for older messages
+    cursor: cursorParam(MessageCursorSchema).optional(),
+});
+
+export const MessagePageSchema = z.object({
+    messages: z.array(MessageSchema),
+    // Cursor for the messages before this page; null once the start is reached
+    nextCursor: z.string().nullable(),
+});
+
+export type MessagePage = z.infer<typeof MessagePageSchema>;
+
+// =============================================
+// EXPORT
+// =============================================
+
+// GET /api/sessions/[id]/export?format=... (PDF comes from the print view instead)
+export const ExportQuerySchema = z.object({
+    format: z.enum(['markdown', 'json', 'latex']),
+});
+
+export type ExportFormat = z.infer<typeof ExportQuerySchema>['format'];
+
+// The JSON export: a whole session, every branch included, exactly as stored
+export const SessionExportSchema = z.object({
+    format: z.literal('atheron-session'),
+    version: z.literal(1),
+    exported_at: z.string(),
+    session: ChatSessionSchema.omit({ user_id: true }),
+    messages: z.array(MessageSchema.omit({ session_id: true })),
+});
+
+export type SessionExport = z.infer<typeof SessionExportSchema>;
+
+// =============================================
+// IMPORT
+// =============================================
+
+// One conversation from a ChatGPT data export (conversations.json). Only the
+// fields the importer reads are checked; the rest of the format is ignored.
+export const ChatGptConversationSchema = z.looseObject({
+    title: z.string().nullish(),
+    // Unix seconds
+    create_time: z.number().nullish(),
+    update_time: z.number().nullish(),
+    is_archived: z.boolean().nullish(),
+    // Message tree keyed by node id; branches come from edits and regenerations
+    mapping: z.record(z.string(), z.looseObject({
+        parent: z.string().nullish(),
+        message: z.looseObject({
+            author: z.looseObject({ role: z.string() }),
+            create_time: z.number().nullish(),
+            content: z.looseObject({
+                content_type: z.string(),
+                parts: z.array(z.unknown()).nullish(),
+            }),
+            // Messages addressed to a tool rather than the user
+            recipient: z.string().nullish(),
+            metadata: z.looseObject({
+                is_visually_hidden_from_conversation: z.boolean().nullish(),
+            }).nullish(),
+        }).nullish(),
+    })),
+});
+
+export type ChatGptConversation = z.infer<typeof ChatGptConversationSchema>;
+
+// POST /api/sessions/import: one of our JSON exports, or a ChatGPT
+// conversations.json, either as a single conversation or a list of them
+export const ImportArchiveSchema = z.union([
+    SessionExportSchema,
+    z.array(SessionExportSchema).min(1),
+    ChatGptConversationSchema,
+    z.array(ChatGptConversationSchema).min(1),
+], { error: 'Not an Atheron session export or a ChatGPT conversations.json' });
+
+export type ImportArchive = z.infer<typeof ImportArchiveSchema>;
+
+export const ImportResponseSchema = z.object({
+    // Newest first, as they would appear in the list
+    sessions: z.array(ChatSessionSchema),
+    // Conversations left out because nothing in them could be imported
+    skipped: z.number(),
+});
+
+export type ImportResponse = z.infer<typeof ImportResponseSchema>;
+
+// =============================================
+// SHARE LINKS
+// =============================================
+
+export const SessionShareSchema = z.object({
+    session_id: z.string(),
+    token: z.string(),
+    message_id: z.string(),
+    created_at: z.string(),
+    expires_at: z.string().nullable(),
+}) satisfies z.ZodType<SessionShare>;
+
+// GET /api/sessions/[id]/share: null when the session isn't shared
+export const ShareResponseSchema = z.object({
+    share: SessionShareSchema.nullable(),
+});
+
+// PUT /api/sessions/[id]/share: publish the chat up to a message
+export const SaveShareRequestSchema = z.object({
+    // The newest message when left out
+    message_id: z.uuid().optional(),
+    // null for a link that never expires; left out, an existing link keeps its expiry
+    expires_at: z.iso.datetime({ offset: true })
+        .refine(value => new Date(value).getTime() > Date.now(), 'Expiry must be in the future')
+        .nullable()
+        .optional(),
+});
+
+export type SaveShareRequest = z.infer<typeof SaveShareRequestSchema>;
+
+// =============================================
+// SEARCH
+// =============================================
+
+// GET /api/search?q=...&limit=...&offset=...
+export const SearchQuerySchema = z.object({
+    q: z.string().trim().min(1).max(200),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type SearchQuery = z.input<typeof SearchQuerySchema>;
+
+export const MessageSearchHitSchema = z.object({
+    message_id: z.string(),
+    session_id: z.string(),
+    session_title: z.string(),
+    role: z.enum(['user', 'assistant']),
+    created_at: z.string(),
+    rank: z.number(),
+    snippet: z.array(z.object({
+        text: z.string(),
+        highlight: z.boolean(),
+    })),
+}) satisfies z.ZodType<MessageSearchHit>;
+
+export const SearchResponseSchema = z.object({
+    results: z.array(MessageSearchHitSchema),
+    total: z.number(),
+    // Offset of the next page, or null on the last one
+    nextOffset: z.number().nullable(),
+});
+
+export type SearchResponse = z.infer<typeof SearchResponseSchema>;
+
+// =============================================
+// USAGE
+// =============================================
+
+export const UsageTotalsSchema = z.object({
+    requests: z.number(),
+    prompt_tokens: z.number(),
+    completion_tokens: z.number(),
+    total_tokens: z.number(),
+    cost_usd: z.number(),
+});
+
+export type UsageTotals = z.infer<typeof UsageTotalsSchema>;
+
+// GET /api/usage. Days and months are UTC.
+export const UsageSummarySchema = z.object({
+    today: UsageTotalsSchema.extend({ date: z.string() }),
+    month: UsageTotalsSchema.extend({ month: z.string() }),
+    // Days of the current month that had usage, oldest first
+    days: z.array(UsageTotalsSchema.extend({ date: z.string() })),
+    // Current month per model, most expensive first
+    models: z.array(UsageTotalsSchema.extend({ model: z.string() })),
+});
+
+export type UsageSummary = z.infer<typeof UsageSummarySchema>;
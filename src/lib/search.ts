@@ -0,0 +1,79 @@
+// =============================================
+// MESSAGE SEARCH
+// =============================================
+// Shared by the stores behind GET /api/search. Postgres does the matching,
+// ranking and excerpting itself (search_messages() in the migrations); the
+// memory and file stores use the simpler word matching below, and both end
+// up with snippets in the same segmented form.
+
+export interface SnippetSegment {
+    text: string;
+    highlight: boolean;
+}
+
+// Wrapped around matched terms in search_messages() snippets; control
+// characters, so they can't clash with anything in a message
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+// Characters of context kept on each side of the first match
+const SNIPPET_CONTEXT = 80;
+
+// Split marked-up text into plain and highlighted segments
+export function parseHighlights(marked: string): SnippetSegment[] {
+    const segments: SnippetSegment[] = [];
+    const pattern = new RegExp(`${HIGHLIGHT_START}([^${HIGHLIGHT_END}]*)${HIGHLIGHT_END}`, 'g');
+
+    let last = 0;
+    for (const match of marked.matchAll(pattern)) {
+        if (match.index > last) segments.push({ text: marked.slice(last, match.index), highlight: false });
+        if (match[1]) segments.push({ text: match[1], highlight: true });
+        last = match.index + match[0].length;
+    }
+    if (last < marked.length) segments.push({ text: marked.slice(last), highlight: false });
+    return segments;
+}
+
+// Lower-cased words of a query; punctuation and operators are ignored
+export function searchTerms(query: string): string[] {
+    const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    return [...new Set(words)];
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Words starting with any of the terms, so "orbit" also finds "orbits"
+function termPattern(terms: string[]): RegExp {
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+}
+
+// How well a message matches: null unless every term occurs, otherwise the
+// number of occurrences scaled down for long messages
+export function scoreMatch(content: string, terms: string[]): number | null {
+    if (terms.length === 0) return null;
+
+    const found = new Map<string, number>();
+    for (const match of content.matchAll(termPattern(terms))) {
+        const word = match[0].toLowerCase();
+        const term = terms.find(t => word.startsWith(t));
+        if (term) found.set(term, (found.get(term) ?? 0) + 1);
+    }
+    if (found.size < terms.length) return null;
+
+    const occurrences = [...found.values()].reduce((sum, n) => sum + n, 0);
+    const length = content.split(/\s+/).length;
+    return occurrences / Math.log2(length + 2);
+}
+
+// An excerpt around the first match with every term highlighted
+export function buildSnippet(content: string, terms: string[]): SnippetSegment[] {
+    const text = content.replace(/\s+/g, ' ').trim();
+    const first = text.search(termPattern(terms));
+    const start = Math.max(0, first - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, Math.max(first, 0) + SNIPPET_CONTEXT * 2);
+
+    const excerpt = `${start > 0 ? '...' : ''}${text.slice(start, end)}${end < text.length ? '...' : ''}`;
+    return parseHighlights(excerpt.replace(termPattern(terms), match => `${HIGHLIGHT_START}${match}${HIGHLIGHT_END}`));
+}
@@ -0,0 +1,41 @@
+import 'server-only';
+import { randomBytes } from 'crypto';
+import { getChatStore } from './store';
+import { getBranchTo } from './branches';
+import { readableConversation } from './export';
+import type { ChatSession, Message, SessionShare } from './types';
+
+// =============================================
+// SHARE LINKS
+// =============================================
+// A session can be published read-only at /share/[token], for people without
+// an account. The link shows the conversation up to the message it was made
+// from, until the owner revokes it or it expires.
+
+// 144 bits, URL-safe
+export function createShareToken(): string {
+    return randomBytes(18).toString('base64url');
+}
+
+export function isShareExpired(share: SessionShare, now = new Date()): boolean {
+    return share.expires_at !== null && new Date(share.expires_at) <= now;
+}
+
+export interface SharedConversation {
+    share: SessionShare;
+    session: ChatSession;
+    messages: Message[];
+}
+
+// What /share/[token] shows, or null for unknown, revoked and expired links
+export async function loadSharedConversation(token: string): Promise<SharedConversation | null> {
+    const store = getChatStore();
+    const share = await store.getSessionShareByToken(token);
+    if (!share || isShareExpired(share)) return null;
+
+    const session = await store.getChatSession(share.session_id);
+    if (!session) return null;
+
+    const messages = getBranchTo(await store.listMessages(session.id), share.message_id);
+    return { share, session, messages: readableConversation(messages) };
+}
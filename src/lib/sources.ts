@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+// =============================================
+// SOURCES
+// =============================================
+// A source is a page the answer was grounded on. They come from the provider's
+// citation metadata (e.g. Perplexity's `citations`) or from the webSearch tool,
+// and are stored alongside the message, in citation order, so `[n]` refers to
+// `sources[n - 1]`.
+
+export const SourceSchema = z.object({
+    url: z.url(),
+    domain: z.string(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+});
+
+export type Source = z.infer<typeof SourceSchema>;
+
+export const SourceListSchema = z.array(SourceSchema);
+
+export function getDomain(url: string): string {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+        return url;
+    }
+}
+
+// Build a source from a URL plus whatever metadata the provider gave us
+export function toSource(url: string, title?: string, description?: string): Source | null {
+    const parsed = SourceSchema.safeParse({
+        url,
+        domain: getDomain(url),
+        title: title || undefined,
+        description: description || undefined,
+    });
+    return parsed.success ? parsed.data : null;
+}
+
+// Sources in the order an answer found them. A page found twice keeps its
+// first number, so citations stay stable across several searches.
+export class SourceList {
+    private readonly items: Source[] = [];
+
+    // The source's citation number, and whether it is new to the list
+    add(source: Source): { index: number; added: boolean } {
+        const existing = this.items.findIndex(s => s.url === source.url);
+        if (existing >= 0) return { index: existing + 1, added: false };
+
+        this.items.push(source);
+        return { index: this.items.length, added: true };
+    }
+
+    get all(): Source[] {
+        return [...this.items];
+    }
+}
+
+// Validate untrusted source data (e.g. a DB column), dropping anything malformed
+export function parseSources(value: unknown): Source[] {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap(item => {
+        const parsed = SourceSchema.safeParse(item);
+        return parsed.success ? [parsed.data] : [];
+    });
+}
+
+// Older messages carried their sources inside an HTML comment block at the end of the content
+const LEGACY_SOURCES_PATTERN = /<!-- SOURCES_START -->([\s\S]*?)<!-- SOURCES_END -->/g;
+
+export function extractLegacySources(content: string): { content: string; sources: Source[] } {
+    let sources: Source[] = [];
+
+    for (const match of content.matchAll(LEGACY_SOURCES_PATTERN)) {
+        const json = match[1].trim();
+        if (!json.startsWith('[')) continue;
+        try {
+            sources = parseSources(JSON.parse(json));
+        } catch {
+            // Broken JSON from the model, ignore it
+        }
+    }
+
+    return { content: content.replace(LEGACY_SOURCES_PATTERN, '').trim(), sources };
+}
@@ -0,0 +1,49 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { getActiveBranch } from '../branches';
+import { FileChatStore } from './file-store';
+
+const directory = mkdtempSync(join(tmpdir(), 'file-store-'));
+afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+// A file from before branching: no parent_id anywhere
+function writeLegacyFile(): string {
+    const path = join(directory, 'chats.json');
+    const message = (id: string, role: string, content: string, created_at: string) =>
+        ({ id, session_id: 's', role, content, sources: null, created_at });
+    writeFileSync(path, JSON.stringify({
+        users: [{ id: 'u', clerk_id: 'clerk_u', email: null, name: null, avatar_url: null, created_at: '2025-01-01T00:00:00Z' }],
+        chat_sessions: [{ id: 's', user_id: 'u', title: 'Orbits', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' }],
+        messages: [
+            message('a1', 'assistant', 'About 259 days.', '2025-01-01T00:00:02Z'),
+            message('q1', 'user', 'How long to Mars?', '2025-01-01T00:00:01Z'),
+        ],
+    }));
+    return path;
+}
+
+describe('FileChatStore', () => {
+    it('chains messages from before branching into a line, like migration 0002', async () => {
+        const store = new FileChatStore(writeLegacyFile());
+        const messages = await store.listMessages('s');
+
+        expect(messages.map(m => [m.id, m.parent_id])).toEqual([['q1', null], ['a1', 'q1']]);
+    });
+
+    it('keeps the old history on the active branch after a new turn', async () => {
+        const store = new FileChatStore(writeLegacyFile());
+        await store.createMessage({ session_id: 's', parent_id: 'a1', role: 'user', content: 'And back?', sources: null, tool_calls: null });
+
+        const branch = getActiveBranch(await store.listMessages('s'));
+        expect(branch.map(m => m.content)).toEqual(['How long to Mars?', 'About 259 days.', 'And back?']);
+    });
+
+    it('checks that a message belongs to the session', async () => {
+        const store = new FileChatStore(writeLegacyFile());
+
+        expect(await store.getMessage('s', 'q1')).toMatchObject({ content: 'How long to Mars?' });
+        expect(await store.getMessage('other', 'q1')).toBeNull();
+    });
+});
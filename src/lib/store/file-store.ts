@@ -0,0 +1,53 @@
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { MemoryChatStore, emptyChatStoreData, type ChatStoreData } from './memory-store';
+import type { Message } from '../types';
+
+// Files written before branching have no parent_id on their messages. Chain
+// each of those to the message before it in its session, as migration 0002
+// does for the database, so the history stays on the active branch.
+function withLinearParents(messages: Message[]): Message[] {
+    const previous = new Map<string, string>();
+    const parents = new Map<string, string | null>();
+    const ordered = [...messages].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+    for (const m of ordered) {
+        parents.set(m.id, m.parent_id === undefined ? previous.get(m.session_id) ?? null : m.parent_id);
+        previous.set(m.session_id, m.id);
+    }
+    return messages.map(m => ({ ...m, parent_id: parents.get(m.id) ?? null }));
+}
+
+// Fill in fields added since the file was written, as the migrations do for the database
+function loadChatStoreData(path: string): ChatStoreData {
+    const data = { ...emptyChatStoreData(), ...(JSON.parse(readFileSync(path, 'utf8')) as Partial<ChatStoreData>) };
+    return {
+        ...data,
+        chat_sessions: data.chat_sessions.map(s => ({ ...s, pinned: s.pinned ?? false, archived: s.archived ?? false })),
+        messages: withLinearParents(data.messages).map(m => ({ ...m, tool_calls: m.tool_calls ?? null })),
+    };
+}
+
+// Memory store backed by a JSON file, for self-hosting and offline development.
+// The whole file is loaded on start and rewritten after every change.
+export class FileChatStore extends MemoryChatStore {
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private readonly path: string) {
+        super(existsSync(path) ? loadChatStoreData(path) : emptyChatStoreData());
+    }
+
+    protected async changed(): Promise<void> {
+        const snapshot = JSON.stringify(this.data, null, 2);
+
+        // Serialize writes and swap the file in atomically so a crash never leaves half a file
+        const write = this.writing.then(async () => {
+            await mkdir(dirname(this.path), { recursive: true });
+            await writeFile(`${this.path}.tmp`, snapshot, 'utf8');
+            await rename(`${this.path}.tmp`, this.path);
+        });
+        // A failed write shouldn't block the ones after it
+        this.writing = write.catch(() => { });
+        await write;
+    }
+}
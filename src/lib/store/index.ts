@@ -0,0 +1,35 @@
+import 'server-only';
+import { SupabaseChatStore } from './supabase-store';
+import { MemoryChatStore } from './memory-store';
+import { FileChatStore } from './file-store';
+import type { ChatStore } from './types';
+
+export type { ChatStore, NewUser, NewMessage, NewUsageRecord, ChatSessionChanges, ImportedChatSession, ImportedMessage, NewSessionShare } from './types';
+export { SupabaseChatStore, MemoryChatStore, FileChatStore };
+
+// CHAT_STORE picks the backend: "supabase" (default), "memory" or "file".
+// The file store writes to CHAT_STORE_FILE (default .data/atheron-store.json).
+function createChatStore(): ChatStore {
+    const backend = process.env.CHAT_STORE || 'supabase';
+
+    switch (backend) {
+        case 'supabase':
+            return new SupabaseChatStore();
+        case 'memory':
+            return new MemoryChatStore();
+        case 'file':
+            return new FileChatStore(process.env.CHAT_STORE_FILE || '.data/atheron-store.json');
+        default:
+            throw new Error(`Unknown CHAT_STORE "${backend}"`);
+    }
+}
+
+// One store per server process (kept on globalThis so dev hot reloads reuse it)
+const globalForStore = globalThis as unknown as { chatStore?: ChatStore };
+
+export function getChatStore(): ChatStore {
+    if (!globalForStore.chatStore) {
+        globalForStore.chatStore = createChatStore();
+    }
+    return globalForStore.chatStore;
+}
@@ -0,0 +1,231 @@
+import { randomUUID } from 'crypto';
+import type { User, ChatSession, Message, MessageSearchHit, SessionShare, UsageRecord } from '../types';
+import { searchTerms, scoreMatch, buildSnippet } from '../search';
+import { compareSessions, compareMessagesNewestFirst } from '../pagination';
+import type {
+    ChatStore,
+    NewUser,
+    NewMessage,
+    NewUsageRecord,
+    ChatSessionChanges,
+    ImportedChatSession,
+    NewSessionShare,
+    SessionListOptions,
+    MessageListOptions,
+    MessageSearchPage,
+} from './types';
+
+export interface ChatStoreData {
+    users: User[];
+    chat_sessions: ChatSession[];
+    messages: Message[];
+    session_shares: SessionShare[];
+    usage_records: UsageRecord[];
+}
+
+export function emptyChatStoreData(): ChatStoreData {
+    return { users: [], chat_sessions: [], messages: [], session_shares: [], usage_records: [] };
+}
+
+// Keeps everything in process memory. Used by tests and as the base of the file store.
+export class MemoryChatStore implements ChatStore {
+    protected data: ChatStoreData;
+
+    constructor(data: ChatStoreData = emptyChatStoreData()) {
+        this.data = data;
+    }
+
+    // Called after every write; subclasses persist here
+    protected async changed(): Promise<void> { }
+
+    async getUserByClerkId(clerkId: string): Promise<User | null> {
+        const user = this.data.users.find(u => u.clerk_id === clerkId);
+        return user ? { ...user } : null;
+    }
+
+    async createUser(user: NewUser): Promise<User> {
+        if (this.data.users.some(u => u.clerk_id === user.clerk_id)) {
+            throw new Error(`User with clerk_id ${user.clerk_id} already exists`);
+        }
+
+        const created: User = { id: randomUUID(), ...user, created_at: new Date().toISOString() };
+        this.data.users.push(created);
+        await this.changed();
+        return { ...created };
+    }
+
+    async getChatSession(sessionId: string): Promise<ChatSession | null> {
+        const session = this.data.chat_sessions.find(s => s.id === sessionId);
+        return session ? { ...session } : null;
+    }
+
+    async listChatSessions(userId: string, options: SessionListOptions = {}): Promise<ChatSession[]> {
+        const { archived, after, limit } = options;
+        return this.data.chat_sessions
+            .filter(s => s.user_id === userId)
+            .filter(s => archived === undefined || s.archived === archived)
+            .filter(s => !after || compareSessions(s, after) > 0)
+            .sort(compareSessions)
+            .slice(0, limit)
+            .map(s => ({ ...s }));
+    }
+
+    async createChatSession(userId: string, title: string): Promise<ChatSession> {
+        const now = new Date().toISOString();
+        const created: ChatSession = {
+            id: randomUUID(),
+            user_id: userId,
+            title,
+            created_at: now,
+            updated_at: now,
+            pinned: false,
+            archived: false,
+        };
+        this.data.chat_sessions.push(created);
+        await this.changed();
+        return { ...created };
+    }
+
+    async updateChatSession(sessionId: string, changes: ChatSessionChanges): Promise<ChatSession | null> {
+        const session = this.data.chat_sessions.find(s => s.id === sessionId);
+        if (!session) return null;
+
+        Object.assign(session, changes);
+        await this.changed();
+        return { ...session };
+    }
+
+    async deleteChatSession(sessionId: string): Promise<void> {
+        this.data.chat_sessions = this.data.chat_sessions.filter(s => s.id !== sessionId);
+        this.data.messages = this.data.messages.filter(m => m.session_id !== sessionId);
+        this.data.session_shares = this.data.session_shares.filter(s => s.session_id !== sessionId);
+        for (const record of this.data.usage_records) {
+            if (record.session_id === sessionId) record.session_id = null;
+        }
+        await this.changed();
+    }
+
+    async importChatSession(userId: string, imported: ImportedChatSession): Promise<ChatSession> {
+        const { messages, ...fields } = imported;
+        const session: ChatSession = { id: randomUUID(), user_id: userId, ...fields };
+
+        this.data.chat_sessions.push(session);
+        this.data.messages.push(...messages.map(m => ({ ...m, session_id: session.id })));
+        await this.changed();
+        return { ...session };
+    }
+
+    async listMessages(sessionId: string, options: MessageListOptions = {}): Promise<Message[]> {
+        const { before, limit } = options;
+        return this.data.messages
+            .filter(m => m.session_id === sessionId)
+            .filter(m => !before || compareMessagesNewestFirst(m, before) > 0)
+            .sort(compareMessagesNewestFirst)
+            .slice(0, limit)
+            .reverse()
+            .map(m => ({ ...m }));
+    }
+
+    async hasMessages(sessionId: string): Promise<boolean> {
+        return this.data.messages.some(m => m.session_id === sessionId);
+    }
+
+    async getMessage(sessionId: string, messageId: string): Promise<Message | null> {
+        const message = this.data.messages.find(m => m.id === messageId && m.session_id === sessionId);
+        return message ? { ...message } : null;
+    }
+
+    async createMessage(message: NewMessage): Promise<Message> {
+        if (!this.data.chat_sessions.some(s => s.id === message.session_id)) {
+            throw new Error(`Chat session ${message.session_id} does not exist`);
+        }
+
+        const created: Message = { ...message, id: message.id ?? randomUUID(), created_at: new Date().toISOString() };
+        this.data.messages.push(created);
+        await this.changed();
+        return { ...created };
+    }
+
+    async searchMessages(userId: string, query: string, page: { limit: number; offset: number }): Promise<MessageSearchPage> {
+        const terms = searchTerms(query);
+        const sessions = new Map(
+            this.data.chat_sessions.filter(s => s.user_id === userId).map(s => [s.id, s])
+        );
+
+        const hits: MessageSearchHit[] = [];
+        for (const message of this.data.messages) {
+            const session = sessions.get(message.session_id);
+            const rank = session ? scoreMatch(message.content, terms) : null;
+            if (!session || rank === null) continue;
+
+            hits.push({
+                message_id: message.id,
+                session_id: session.id,
+                session_title: session.title,
+                role: message.role,
+                created_at: message.created_at,
+                rank,
+                snippet: [],
+            });
+        }
+
+        hits.sort((a, b) => b.rank - a.rank || b.created_at.localeCompare(a.created_at));
+
+        // Snippets only for the page being returned
+        const contents = new Map(this.data.messages.map(m => [m.id, m.content]));
+        return {
+            hits: hits.slice(page.offset, page.offset + page.limit).map(hit => ({
+                ...hit,
+                snippet: buildSnippet(contents.get(hit.message_id) ?? '', terms),
+            })),
+            total: hits.length,
+        };
+    }
+
+    async getSessionShare(sessionId: string): Promise<SessionShare | null> {
+        const share = this.data.session_shares.find(s => s.session_id === sessionId);
+        return share ? { ...share } : null;
+    }
+
+    async getSessionShareByToken(token: string): Promise<SessionShare | null> {
+        const share = this.data.session_shares.find(s => s.token === token);
+        return share ? { ...share } : null;
+    }
+
+    async saveSessionShare(share: NewSessionShare): Promise<SessionShare> {
+        if (!this.data.messages.some(m => m.id === share.message_id && m.session_id === share.session_id)) {
+            throw new Error(`Message ${share.message_id} is not in chat session ${share.session_id}`);
+        }
+
+        const existing = this.data.session_shares.find(s => s.session_id === share.session_id);
+        if (existing) {
+            Object.assign(existing, share);
+            await this.changed();
+            return { ...existing };
+        }
+
+        const created: SessionShare = { ...share, created_at: new Date().toISOString() };
+        this.data.session_shares.push(created);
+        await this.changed();
+        return { ...created };
+    }
+
+    async deleteSessionShare(sessionId: string): Promise<void> {
+        this.data.session_shares = this.data.session_shares.filter(s => s.session_id !== sessionId);
+        await this.changed();
+    }
+
+    async createUsageRecord(record: NewUsageRecord): Promise<UsageRecord> {
+        const created: UsageRecord = { id: randomUUID(), ...record, created_at: new Date().toISOString() };
+        this.data.usage_records.push(created);
+        await this.changed();
+        return { ...created };
+    }
+
+    async listUsageRecords(userId: string, since: string): Promise<UsageRecord[]> {
+        return this.data.usage_records
+            .filter(r => r.user_id === userId && r.created_at >= since)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .map(r => ({ ...r }));
+    }
+}
@@ -0,0 +1,316 @@
+import { getSupabase } from '../supabase';
+import type { User, ChatSession, Message, MessageSearchHit, SessionShare, UsageRecord } from '../types';
+import type { Database, Json } from '../database.types';
+import { parseSources, extractLegacySources } from '../sources';
+import { parseToolCalls } from '../tool-calls';
+import { parseHighlights } from '../search';
+import type {
+    ChatStore,
+    NewUser,
+    NewMessage,
+    NewUsageRecord,
+    ChatSessionChanges,
+    ImportedChatSession,
+    NewSessionShare,
+    SessionListOptions,
+    MessageListOptions,
+    MessageSearchPage,
+} from './types';
+
+// Postgres rejects malformed uuids with "invalid input syntax", which just means "not found"
+const INVALID_TEXT_REPRESENTATION = '22P02';
+
+// Rows per insert when importing, to keep request bodies reasonable
+const IMPORT_BATCH_SIZE = 500;
+
+type MessageRow = Database['public']['Tables']['messages']['Row'];
+type MessageInsert = Database['public']['Tables']['messages']['Insert'];
+
+// Validate the jsonb columns, moving sources out of legacy content markers if needed
+function normalizeMessage(row: MessageRow): Message {
+    const sources = parseSources(row.sources);
+    const toolCalls = parseToolCalls(row.tool_calls);
+    if (sources.length > 0 || !row.content.includes('<!-- SOURCES_START -->')) {
+        return { ...row, sources, tool_calls: toolCalls };
+    }
+
+    const legacy = extractLegacySources(row.content);
+    return { ...row, content: legacy.content, sources: legacy.sources, tool_calls: toolCalls };
+}
+
+// Tool inputs and outputs went to and from the model as JSON, so they fit the jsonb column
+function toMessageInsert(message: NewMessage & Pick<MessageInsert, 'created_at'>): MessageInsert {
+    return { ...message, tool_calls: message.tool_calls as Json };
+}
+
+export class SupabaseChatStore implements ChatStore {
+    async getUserByClerkId(clerkId: string): Promise<User | null> {
+        const { data, error } = await getSupabase()
+            .from('users')
+            .select('*')
+            .eq('clerk_id', clerkId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async createUser(user: NewUser): Promise<User> {
+        const { data, error } = await getSupabase()
+            .from('users')
+            .insert(user)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async getChatSession(sessionId: string): Promise<ChatSession | null> {
+        const { data, error } = await getSupabase()
+            .from('chat_sessions')
+            .select('*')
+            .eq('id', sessionId)
+            .maybeSingle();
+
+        if (error?.code === INVALID_TEXT_REPRESENTATION) return null;
+        if (error) throw error;
+        return data;
+    }
+
+    async listChatSessions(userId: string, options: SessionListOptions = {}): Promise<ChatSession[]> {
+        const { archived, after, limit } = options;
+        let query = getSupabase()
+            .from('chat_sessions')
+            .select('*')
+            .eq('user_id', userId);
+
+        if (archived !== undefined) query = query.eq('archived', archived);
+        if (after) {
+            // Everything after the cursor in (pinned desc, updated_at desc, id desc) order
+            const updatedAt = `"${after.updated_at}"`;
+            query = query.or([
+                `pinned.lt.${after.pinned}`,
+                `and(pinned.eq.${after.pinned},updated_at.lt.${updatedAt})`,
+                `and(pinned.eq.${after.pinned},updated_at.eq.${updatedAt},id.lt.${after.id})`,
+            ].join(','));
+        }
+
+        query = query
+            .order('pinned', { ascending: false })
+            .order('updated_at', { ascending: false })
+            .order('id', { ascending: false });
+        if (limit !== undefined) query = query.limit(limit);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+    }
+
+    async createChatSession(userId: string, title: string): Promise<ChatSession> {
+        const { data, error } = await getSupabase()
+            .from('chat_sessions')
+            .insert({ user_id: userId, title })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async updateChatSession(sessionId: string, changes: ChatSessionChanges): Promise<ChatSession | null> {
+        const { data, error } = await getSupabase()
+            .from('chat_sessions')
+            .update(changes)
+            .eq('id', sessionId)
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async deleteChatSession(sessionId: string): Promise<void> {
+        // Messages go with it through the ON DELETE CASCADE foreign key;
+        // usage records stay, with session_id set to null
+        const { error } = await getSupabase()
+            .from('chat_sessions')
+            .delete()
+            .eq('id', sessionId);
+
+        if (error) throw error;
+    }
+
+    async importChatSession(userId: string, imported: ImportedChatSession): Promise<ChatSession> {
+        const { messages, ...fields } = imported;
+        const { data: session, error } = await getSupabase()
+            .from('chat_sessions')
+            .insert({ user_id: userId, ...fields })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        // Parents come first, so every batch only points back at rows already
+        // inserted. There's no transaction, so a failure deletes what was added.
+        try {
+            for (let i = 0; i < messages.length; i += IMPORT_BATCH_SIZE) {
+                const batch = messages.slice(i, i + IMPORT_BATCH_SIZE).map(m => toMessageInsert({ ...m, session_id: session.id }));
+                const { error: insertError } = await getSupabase().from('messages').insert(batch);
+                if (insertError) throw insertError;
+            }
+        } catch (insertError) {
+            await this.deleteChatSession(session.id).catch(() => { });
+            throw insertError;
+        }
+
+        return session;
+    }
+
+    async listMessages(sessionId: string, options: MessageListOptions = {}): Promise<Message[]> {
+        const { before, limit } = options;
+        let query = getSupabase()
+            .from('messages')
+            .select('*')
+            .eq('session_id', sessionId);
+
+        if (before) {
+            const createdAt = `"${before.created_at}"`;
+            query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${before.id})`);
+        }
+
+        // Newest first so a limit keeps the latest messages, then back to oldest first
+        query = query
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: false });
+        if (limit !== undefined) query = query.limit(limit);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data.reverse().map(normalizeMessage);
+    }
+
+    async hasMessages(sessionId: string): Promise<boolean> {
+        const { data, error } = await getSupabase()
+            .from('messages')
+            .select('id')
+            .eq('session_id', sessionId)
+            .limit(1);
+
+        if (error) throw error;
+        return data.length > 0;
+    }
+
+    async getMessage(sessionId: string, messageId: string): Promise<Message | null> {
+        const { data, error } = await getSupabase()
+            .from('messages')
+            .select('*')
+            .eq('id', messageId)
+            .eq('session_id', sessionId)
+            .maybeSingle();
+
+        if (error?.code === INVALID_TEXT_REPRESENTATION) return null;
+        if (error) throw error;
+        return data && normalizeMessage(data);
+    }
+
+    async createMessage(message: NewMessage): Promise<Message> {
+        const { data, error } = await getSupabase()
+            .from('messages')
+            .insert(toMessageInsert(message))
+            .select()
+            .single();
+
+        if (error) throw error;
+        return normalizeMessage(data);
+    }
+
+    async searchMessages(userId: string, query: string, page: { limit: number; offset: number }): Promise<MessageSearchPage> {
+        const { data, error } = await getSupabase().rpc('search_messages', {
+            search_user_id: userId,
+            search_query: query,
+            result_limit: page.limit,
+            result_offset: page.offset,
+        });
+
+        if (error) throw error;
+        const hits = data.map((row): MessageSearchHit => ({
+            message_id: row.message_id,
+            session_id: row.session_id,
+            session_title: row.session_title,
+            role: row.role as MessageSearchHit['role'],
+            created_at: row.created_at,
+            rank: row.rank,
+            snippet: parseHighlights(row.snippet),
+        }));
+        // Every row carries the overall count. A page past the last match has
+        // no rows, so all that is known then is that there are at most `offset`.
+        return { hits, total: data[0]?.total_count ?? page.offset };
+    }
+
+    async getSessionShare(sessionId: string): Promise<SessionShare | null> {
+        const { data, error } = await getSupabase()
+            .from('session_shares')
+            .select('*')
+            .eq('session_id', sessionId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async getSessionShareByToken(token: string): Promise<SessionShare | null> {
+        const { data, error } = await getSupabase()
+            .from('session_shares')
+            .select('*')
+            .eq('token', token)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async saveSessionShare(share: NewSessionShare): Promise<SessionShare> {
+        // created_at keeps the time the link was first made
+        const { data, error } = await getSupabase()
+            .from('session_shares')
+            .upsert(share, { onConflict: 'session_id' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async deleteSessionShare(sessionId: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('session_shares')
+            .delete()
+            .eq('session_id', sessionId);
+
+        if (error) throw error;
+    }
+
+    async createUsageRecord(record: NewUsageRecord): Promise<UsageRecord> {
+        const { data, error } = await getSupabase()
+            .from('usage_records')
+            .insert(record)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async listUsageRecords(userId: string, since: string): Promise<UsageRecord[]> {
+        const { data, error } = await getSupabase()
+            .from('usage_records')
+            .select('*')
+            .eq('user_id', userId)
+            .gte('created_at', since)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data;
+    }
+}
@@ -0,0 +1,101 @@
+import type { User, ChatSession, Message, MessageSearchHit, SessionShare, UsageRecord } from '../types';
+import type { Source } from '../sources';
+import type { ToolCall } from '../tool-calls';
+import type { SessionCursor, MessageCursor } from '../pagination';
+
+// =============================================
+// CHAT STORE
+// =============================================
+// Everything the app persists goes through a ChatStore. Implementations throw
+// on failure; callers decide whether to surface or swallow the error.
+
+export interface NewUser {
+    clerk_id: string;
+    email: string | null;
+    name: string | null;
+    avatar_url: string | null;
+}
+
+export interface NewMessage {
+    // Callers may pick the id (the chat UI uses the same uuid client-side)
+    id?: string;
+    session_id: string;
+    parent_id: string | null;
+    role: Message['role'];
+    content: string;
+    sources: Source[] | null;
+    tool_calls: ToolCall[] | null;
+}
+
+// A session restored from an archive, keeping its original timestamps.
+// Messages carry fresh ids and come parents first.
+export type ImportedMessage = Omit<Message, 'session_id'>;
+
+export interface ImportedChatSession extends Omit<ChatSession, 'id' | 'user_id'> {
+    messages: ImportedMessage[];
+}
+
+export type NewUsageRecord = Omit<UsageRecord, 'id' | 'created_at'>;
+
+export type NewSessionShare = Omit<SessionShare, 'created_at'>;
+
+export interface SessionListOptions {
+    archived?: boolean;
+    // Only sessions that come after this one in list order
+    after?: SessionCursor;
+    limit?: number;
+}
+
+export interface MessageListOptions {
+    // Only messages older than this one
+    before?: MessageCursor;
+    // The newest `limit` messages (before the cursor)
+    limit?: number;
+}
+
+export interface MessageSearchPage {
+    hits: MessageSearchHit[];
+    // Matches across all pages
+    total: number;
+}
+
+export type ChatSessionChanges = Partial<Pick<ChatSession, 'title' | 'updated_at' | 'pinned' | 'archived'>>;
+
+export interface ChatStore {
+    // Users
+    getUserByClerkId(clerkId: string): Promise<User | null>;
+    createUser(user: NewUser): Promise<User>;
+
+    // Chat sessions
+    getChatSession(sessionId: string): Promise<ChatSession | null>;
+    // Pinned first, then most recently updated (see ../pagination)
+    listChatSessions(userId: string, options?: SessionListOptions): Promise<ChatSession[]>;
+    createChatSession(userId: string, title: string): Promise<ChatSession>;
+    updateChatSession(sessionId: string, changes: ChatSessionChanges): Promise<ChatSession | null>;
+    // Also removes the session's messages; its usage records are kept without a session
+    deleteChatSession(sessionId: string): Promise<void>;
+    // Creates the session and all its messages, or nothing if that fails
+    importChatSession(userId: string, session: ImportedChatSession): Promise<ChatSession>;
+
+    // Messages
+    // Oldest first, also when a limit picks the newest few
+    listMessages(sessionId: string, options?: MessageListOptions): Promise<Message[]>;
+    hasMessages(sessionId: string): Promise<boolean>;
+    // Null unless the message belongs to the session
+    getMessage(sessionId: string, messageId: string): Promise<Message | null>;
+    createMessage(message: NewMessage): Promise<Message>;
+    // Full-text search over all of a user's messages, best match first
+    searchMessages(userId: string, query: string, page: { limit: number; offset: number }): Promise<MessageSearchPage>;
+
+    // Share links, at most one per session
+    getSessionShare(sessionId: string): Promise<SessionShare | null>;
+    getSessionShareByToken(token: string): Promise<SessionShare | null>;
+    // Creates the session's link, or replaces the one it has
+    saveSessionShare(share: NewSessionShare): Promise<SessionShare>;
+    deleteSessionShare(sessionId: string): Promise<void>;
+
+    // Usage ledger
+    createUsageRecord(record: NewUsageRecord): Promise<UsageRecord>;
+    // Oldest first, created at or after `since` (ISO timestamp)
+    listUsageRecords(userId: string, since: string): Promise<UsageRecord[]>;
+}
@@ -1,38 +1,27 @@
-import { createClient } from '@supabase/supabase-js';
+import 'server-only';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-// Support both the custom key name and standard Supabase anon key
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-    || process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_DEFAULT_KEY!;
+let client: SupabaseClient<Database> | null = null;
 
-if (!supabaseUrl || !supabaseKey) {
-    console.error('Missing Supabase environment variables. Please check your .env file.');
-}
+// Created on first use so the other chat stores run without Supabase configured.
+// Service-role key bypasses RLS, so this client only ever runs on the server
+// and every caller is expected to have checked ownership first (see ./auth)
+export function getSupabase(): SupabaseClient<Database> {
+    if (client) return client;
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 
-// Database types
-export interface User {
-    id: string;
-    clerk_id: string;
-    email: string | null;
-    name: string | null;
-    avatar_url: string | null;
-    created_at: string;
-}
+    if (!supabaseUrl || !supabaseKey) {
+        console.error('Missing Supabase environment variables. Please check your .env file.');
+    }
 
-export interface ChatSession {
-    id: string;
-    user_id: string;
-    title: string;
-    created_at: string;
-    updated_at: string;
+    client = createClient<Database>(supabaseUrl, supabaseKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+    });
+    return client;
 }
 
-export interface Message {
-    id: string;
-    session_id: string;
-    role: 'user' | 'assistant';
-    content: string;
-    created_at: string;
-}
+// Database types
+export type { User, ChatSession, Message } from './types';
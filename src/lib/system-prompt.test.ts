@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import type { ToolSet } from 'ai';
+import { buildSystemPrompt } from './system-prompt';
+
+const toolSet = (...names: string[]) => Object.fromEntries(names.map(name => [name, {}])) as ToolSet;
+
+describe('buildSystemPrompt', () => {
+    it('only asks for tools the model was given', () => {
+        const prompt = buildSystemPrompt(toolSet('orbitalMechanics', 'math'));
+
+        expect(prompt).toContain('Use the orbitalMechanics tool');
+        expect(prompt).toContain('Use the math tool');
+        expect(prompt).not.toContain('satelliteTracker');
+        expect(prompt).not.toContain('ephemeris');
+        expect(prompt).not.toContain('Use web search');
+    });
+
+    it('mentions no tools for models that take none, only their own search', () => {
+        const prompt = buildSystemPrompt(undefined);
+
+        expect(prompt).not.toMatch(/tool/);
+        expect(prompt).toContain('Use web search for current data');
+        expect(prompt).toContain('LaTeX math');
+    });
+});
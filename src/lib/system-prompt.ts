@@ -0,0 +1,38 @@
+import type { ToolSet } from 'ai';
+
+// =============================================
+// SYSTEM PROMPT
+// =============================================
+// Athey's instructions for /api/chat. The rules only mention tools the model
+// was actually given: models that don't take tools (see ./models) would
+// otherwise be told to quote results they can never get.
+
+// One rule per tool, in the order they appear in the prompt
+const TOOL_RULES: Record<string, string> = {
+    webSearch: 'Use web search for current data',
+    orbitalMechanics: 'Use the orbitalMechanics tool for orbital numbers (periods, delta-v, elements, rocket equation) and quote its results',
+    satelliteTracker: 'Use the satelliteTracker tool for where a satellite is or when it passes over a place',
+    ephemeris: 'Use the ephemeris tool for where the Sun, Moon or a planet is, its rise and set times, or its next conjunction or opposition',
+    math: 'Use the math tool for non-trivial arithmetic, unit conversions, equations, derivatives and integrals, and quote its answer rather than computing by hand',
+};
+
+// `tools` is undefined for models that don't take tools; those search the web themselves
+export function buildSystemPrompt(tools: ToolSet | undefined): string {
+    const toolRules = Object.entries(TOOL_RULES)
+        .filter(([name]) => (tools ? name in tools : name === 'webSearch'))
+        .map(([, rule]) => rule);
+
+    const rules = [
+        ...toolRules,
+        'Cite search results inline as [1], [2] in the order they were found',
+        'NO source lists or URLs at the end, sources are attached automatically',
+        'LaTeX math: $inline$ $$block$$',
+    ];
+
+    return `You are Athey, Atheron's STEM AI assistant focused on space/cosmos.
+
+SCOPE: Space (NASA/ISRO/SpaceX/ESA), Science, Technology, Engineering, Mathematics.
+
+RULES:
+${rules.map(rule => `- ${rule}`).join('\n')}`;
+}
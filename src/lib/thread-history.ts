@@ -0,0 +1,93 @@
+import { unstable_createMessageConverter, type ExportedMessageRepository, type ThreadMessageLike } from '@assistant-ui/react';
+import type { UIMessage } from 'ai';
+import type { Message } from './types';
+import { withParents, getHeadMessage, getHeadThrough } from './branches';
+
+// =============================================
+// STORED MESSAGES -> CHAT RUNTIME
+// =============================================
+// A resumed session is imported into the assistant-ui runtime as real thread
+// history, so follow-ups send the earlier turns to the model and the
+// conversation renders (sources, tool cards, actions, branches) exactly like a live one.
+
+// Stored rows in the AI SDK message shape the chat runtime sends back to /api/chat.
+// Tool calls come first, as they did while the answer streamed.
+export function toUIMessage(message: Message): UIMessage {
+    return {
+        id: message.id,
+        role: message.role,
+        parts: [
+            ...(message.tool_calls ?? []).map(call => ({
+                type: `tool-${call.name}` as const,
+                toolCallId: call.id,
+                state: 'output-available' as const,
+                input: call.input,
+                output: call.output,
+            })),
+            { type: 'text', text: message.content },
+            ...(message.sources ?? []).map((source, i) => ({
+                type: 'source-url' as const,
+                sourceId: `${message.id}-source-${i}`,
+                url: source.url,
+                title: source.title,
+            })),
+        ],
+    };
+}
+
+type ThreadContentPart = Exclude<ThreadMessageLike['content'], string>[number];
+type ToolCallArgs = Extract<ThreadContentPart, { type: 'tool-call' }>['args'];
+
+// Binds each thread message to its UI message, which the runtime hands back
+// to the AI SDK chat when the history is imported
+const StoredMessageConverter = unstable_createMessageConverter<UIMessage>(message => {
+    const content: ThreadContentPart[] = [];
+    for (const part of message.parts) {
+        if (part.type === 'text') {
+            content.push({ type: 'text', text: part.text });
+        } else if (part.type === 'source-url') {
+            content.push({ type: 'source', sourceType: 'url', id: part.sourceId, url: part.url, title: part.title });
+        } else if (part.type.startsWith('tool-') && 'toolCallId' in part && part.state === 'output-available') {
+            content.push({
+                type: 'tool-call',
+                toolCallId: part.toolCallId,
+                toolName: part.type.slice('tool-'.length),
+                args: part.input as ToolCallArgs,
+                result: part.output,
+            });
+        }
+    }
+    return { id: message.id, role: message.role, content };
+});
+
+// Every stored branch, with the newest message as the head, or the newest
+// on a branch through `focusId` when a particular message is being opened.
+// History is loaded from the newest message back, so messages whose parent
+// isn't loaded yet start the thread for now.
+export function toThreadRepository(messages: Message[], focusId?: string | null): ExportedMessageRepository {
+    const linked = withParents(messages);
+    const loaded = new Set(linked.map(m => m.id));
+    const head = (focusId && getHeadThrough(linked, focusId)) || getHeadMessage(linked);
+    return {
+        headId: head?.id ?? null,
+        messages: linked.map(m => ({
+            message: StoredMessageConverter.toThreadMessages([toUIMessage(m)])[0],
+            parentId: m.parent_id && loaded.has(m.parent_id) ? m.parent_id : null,
+        })),
+    };
+}
+
+// The thread as it is now (`current`, from runtime.thread.export()) with more
+// stored history underneath. Messages sent since the history was loaded are
+// kept, and so is the branch being viewed.
+export function withStoredHistory(current: ExportedMessageRepository, stored: Message[]): ExportedMessageRepository {
+    const repository = toThreadRepository(stored);
+    const storedIds = new Set(repository.messages.map(m => m.message.id));
+    return {
+        headId: current.headId ?? repository.headId,
+        messages: [
+            ...repository.messages,
+            ...current.messages.filter(m => !storedIds.has(m.message.id)),
+        ],
+    };
+}
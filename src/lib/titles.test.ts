@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockSupabase, type MockTables } from '@/test/mock-supabase';
+
+const mocks = vi.hoisted(() => ({
+    tables: {} as MockTables,
+    recordTokenUsage: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase', () => ({
+    getSupabase: () => createMockSupabase(mocks.tables),
+}));
+vi.mock('@/lib/rate-limit', () => ({
+    recordTokenUsage: mocks.recordTokenUsage,
+}));
+
+import { generateSessionTitle } from './titles';
+
+const CHAT = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+
+beforeEach(() => {
+    vi.stubEnv('ATHEY_TITLE_MODEL', 'fake:echo');
+    mocks.tables = { usage: [] };
+    mocks.recordTokenUsage.mockReset();
+});
+
+describe('generateSessionTitle', () => {
+    it('writes a title with the title model', async () => {
+        const title = await generateSessionTitle({
+            userId: 'alice',
+            sessionId: CHAT,
+            question: 'How long does a Hohmann transfer to Mars take?',
+            answer: 'About 259 days.',
+        });
+
+        expect(title).toBe('How long does a Hohmann');
+    });
+
+    it("charges the title's tokens to the user's daily quota", async () => {
+        await generateSessionTitle({ userId: 'alice', sessionId: CHAT, question: 'What is delta-v?', answer: 'A change in velocity.' });
+
+        // The fake model reads three words and writes them back
+        expect(mocks.recordTokenUsage).toHaveBeenCalledWith('alice', 6);
+    });
+});
@@ -0,0 +1,73 @@
+import 'server-only';
+import { generateText } from 'ai';
+import { resolveTitleModel } from './models';
+import { generateChatTitle, recordUsage } from './db';
+import { recordTokenUsage } from './rate-limit';
+
+// =============================================
+// CHAT TITLES
+// =============================================
+// A session starts out titled with its truncated first question (see
+// generateChatTitle). Once the first answer is in, the client asks for a
+// proper title, which a small model writes from that exchange.
+
+const TITLE_PROMPT = `Write a title for the conversation below in 3 to 6 words.
+Reply with the title only: no quotes, no trailing punctuation, no "Title:" prefix.`;
+
+const MAX_TITLE_WORDS = 6;
+
+// Enough of the answer to tell what it was about
+const MAX_ANSWER_CHARS = 2000;
+
+// Models don't always follow instructions; trim whatever they add around the title
+function cleanTitle(text: string): string {
+    const line = text.trim().split('\n')[0] ?? '';
+    return line
+        .replace(/^title:\s*/i, '')
+        .replace(/^["'*`#\s]+|["'*`.!?:;\s]+$/g, '')
+        .split(/\s+/)
+        .filter(Boolean)
+        .slice(0, MAX_TITLE_WORDS)
+        .join(' ');
+}
+
+interface TitleRequest {
+    userId: string;
+    sessionId: string;
+    question: string;
+    answer: string;
+}
+
+// Never fails: any error falls back to the truncated question
+export async function generateSessionTitle({ userId, sessionId, question, answer }: TitleRequest): Promise<string> {
+    try {
+        const { id: modelId, model } = resolveTitleModel();
+        const startedAt = Date.now();
+        const { text, usage, finishReason } = await generateText({
+            model,
+            system: TITLE_PROMPT,
+            prompt: `Question: ${question}\n\nAnswer: ${answer.slice(0, MAX_ANSWER_CHARS)}`,
+            maxOutputTokens: 30,
+            abortSignal: AbortSignal.timeout(10_000),
+        });
+
+        // Titles cost tokens too, so they go in the usage ledger and count
+        // against the same daily quota as answers
+        await recordTokenUsage(userId, usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0));
+        await recordUsage({
+            userId,
+            sessionId,
+            model: modelId,
+            promptTokens: usage.inputTokens ?? 0,
+            completionTokens: usage.outputTokens ?? 0,
+            latencyMs: Date.now() - startedAt,
+            finishReason,
+        });
+
+        const title = cleanTitle(text);
+        if (title) return title;
+    } catch (error) {
+        console.error('Error generating chat title:', error);
+    }
+    return generateChatTitle(question);
+}
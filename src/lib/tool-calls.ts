@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+// =============================================
+// TOOL CALLS
+// =============================================
+// A tool call an answer made (see ./tools), stored with the message in call
+// order so its card can be shown again when the session is reopened. Inputs
+// and outputs are whatever the tool took and returned; the UI validates the
+// ones it renders.
+
+export const ToolCallSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    input: z.unknown(),
+    output: z.unknown(),
+});
+
+export type ToolCall = z.infer<typeof ToolCallSchema>;
+
+export const ToolCallListSchema = z.array(ToolCallSchema);
+
+// Validate untrusted tool call data (e.g. a DB column), dropping anything malformed
+export function parseToolCalls(value: unknown): ToolCall[] {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap(item => {
+        const parsed = ToolCallSchema.safeParse(item);
+        return parsed.success ? [parsed.data] : [];
+    });
+}
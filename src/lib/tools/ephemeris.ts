@@ -0,0 +1,167 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { BodyPosition, Ephemeris, EphemerisResult } from '../ephemeris';
+import {
+    BODIES,
+    EPHEMERIS_BODY_IDS,
+    findAlignments,
+    horizontalPosition,
+    moonPhaseName,
+    riseTransitSet,
+    skyPosition,
+    type Observer,
+} from '../orbits';
+
+const MS_PER_DAY = 86400000;
+const MAX_ALIGNMENTS = 20;
+// Where the elements' secular rates hold to a couple of arcminutes
+const ACCURATE_FROM_YEAR = 1900;
+const ACCURATE_TO_YEAR = 2100;
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+// AU, to the km for the Moon
+const roundDistance = (au: number) => round(au, au < 0.01 ? 7 : 4);
+
+// =============================================
+// INPUT
+// =============================================
+
+const body = z.enum(EPHEMERIS_BODY_IDS);
+
+const observer = z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180).describe('Degrees, east positive'),
+    altitude_m: z.number().default(0),
+}).describe('A place on the ground, for altitude, azimuth and rise and set times');
+
+const EphemerisInputSchema = z.discriminatedUnion('calculation', [
+    z.object({
+        calculation: z.literal('positions'),
+        bodies: z.array(body).min(1).default([...EPHEMERIS_BODY_IDS]),
+        time: z.iso.datetime({ offset: true }).optional().describe('Defaults to now. With an observer, rise, transit and set are ' +
+            'searched for in the 24 hours from this time, so pass the local evening for "tonight"'),
+        observer: observer.optional(),
+    }).describe("Where bodies are in the sky: coordinates, brightness, the Moon's phase, and from an observer, where to look"),
+    z.object({
+        calculation: z.literal('alignments'),
+        body,
+        other: body.default('sun').describe('What it lines up with'),
+        kind: z.enum(['conjunction', 'opposition']).describe("A new Moon is the Moon's conjunction with the Sun, a full Moon its opposition"),
+        start: z.iso.datetime({ offset: true }).optional().describe('Defaults to now'),
+        days: z.number().min(1).max(3660).default(800).describe('How far ahead to search; the default covers a full synodic period of every planet'),
+    }).describe('Conjunctions and oppositions in a time window'),
+]);
+
+type EphemerisInput = z.infer<typeof EphemerisInputSchema>;
+type InputFor<C extends EphemerisInput['calculation']> = Extract<EphemerisInput, { calculation: C }>;
+
+// =============================================
+// CALCULATIONS
+// =============================================
+
+function accuracyNotes(from: Date, to: Date): string[] {
+    if (from.getUTCFullYear() >= ACCURATE_FROM_YEAR && to.getUTCFullYear() < ACCURATE_TO_YEAR) return [];
+    return [`Outside ${ACCURATE_FROM_YEAR}-${ACCURATE_TO_YEAR} the positions are rougher than the usual couple of arcminutes.`];
+}
+
+function positions(input: InputFor<'positions'>): Ephemeris {
+    const time = input.time ? new Date(input.time) : new Date();
+    const place: Observer | undefined = input.observer && {
+        latitude: input.observer.latitude,
+        longitude: input.observer.longitude,
+        altitude: input.observer.altitude_m / 1000,
+    };
+    const sun = skyPosition('sun', time);
+
+    const rows = [...new Set(input.bodies)].map((id): BodyPosition => {
+        const p = skyPosition(id, time);
+        const row: BodyPosition = {
+            name: BODIES[id].name,
+            rightAscension: round(p.rightAscension / 15, 4),
+            declination: round(p.declination, 3),
+            distance: roundDistance(p.distance),
+            magnitude: round(p.magnitude, 1),
+            elongation: round(p.elongation, 1),
+            illumination: round(p.illumination, 3),
+            phase: id === 'moon' ? moonPhaseName(p, sun) : undefined,
+        };
+        if (place) {
+            const horizontal = horizontalPosition(p, place);
+            const events = riseTransitSet(id, place, time);
+            Object.assign(row, {
+                azimuth: round(horizontal.azimuth, 1),
+                altitude: round(horizontal.altitude, 1),
+                rise: events.rise,
+                transit: events.transit,
+                set: events.set,
+                circumpolar: events.circumpolar,
+            });
+        }
+        return row;
+    });
+
+    const notes = accuracyNotes(time, time);
+    return {
+        title: place ? 'The sky from the observer' : 'Positions in the sky',
+        time: time.toISOString(),
+        observer: place,
+        positions: rows,
+        notes: notes.length > 0 ? notes : undefined,
+    };
+}
+
+function alignments(input: InputFor<'alignments'>): Ephemeris {
+    const start = input.start ? new Date(input.start) : new Date();
+    const end = new Date(start.getTime() + input.days * MS_PER_DAY);
+    const found = findAlignments(input.body, input.other, input.kind, start, end);
+
+    const notes = accuracyNotes(start, end);
+    if (found.length > MAX_ALIGNMENTS) notes.push(`Only the first ${MAX_ALIGNMENTS} of ${found.length} are listed.`);
+
+    return {
+        title: alignmentTitle(input),
+        time: start.toISOString(),
+        alignments: found.slice(0, MAX_ALIGNMENTS).map(alignment => ({
+            ...alignment,
+            separation: round(alignment.separation, 3),
+            distance: roundDistance(alignment.distance),
+        })),
+        notes: notes.length > 0 ? notes : undefined,
+    };
+}
+
+function alignmentTitle({ body, other, kind }: InputFor<'alignments'>): string {
+    if ([body, other].includes('moon') && [body, other].includes('sun')) return kind === 'opposition' ? 'Full Moons' : 'New Moons';
+    if (kind === 'opposition') return `Oppositions of ${BODIES[body === 'sun' ? other : body].name}`;
+    return `Conjunctions of ${BODIES[body].name} and ${BODIES[other].name}`;
+}
+
+export function calculateEphemeris(input: EphemerisInput): Ephemeris {
+    switch (input.calculation) {
+        case 'positions': return positions(input);
+        case 'alignments': return alignments(input);
+    }
+}
+
+// =============================================
+// TOOL
+// =============================================
+
+// Sky positions computed locally (see ../orbits/ephemeris), so "where is
+// Mars tonight" and "when is the next full Moon" aren't guesses
+export function createEphemerisTool() {
+    return tool({
+        description: 'Compute where the Sun, Moon and planets are: right ascension and declination, distance, brightness and the ' +
+            "Moon's phase; for an observer, altitude, azimuth and rise, transit and set times; and conjunctions and oppositions " +
+            '(including new and full Moons) in a date range. Times are UTC. Quote its results rather than recalling positions.',
+        inputSchema: EphemerisInputSchema,
+        execute: async (input): Promise<EphemerisResult> => {
+            try {
+                return calculateEphemeris(input);
+            } catch (error) {
+                if (error instanceof RangeError) return { error: error.message };
+                throw error;
+            }
+        },
+    });
+}
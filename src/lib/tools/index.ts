@@ -0,0 +1,39 @@
+import 'server-only';
+import type { ToolSet } from 'ai';
+import type { Source, SourceList } from '../sources';
+import { getWebSearchProvider } from '../web-search';
+import { createWebSearchTool } from './web-search';
+import { getSatelliteCatalog } from '../orbits/catalog';
+import { createEphemerisTool } from './ephemeris';
+import { createMathTool } from './math';
+import { createOrbitalMechanicsTool } from './orbital-mechanics';
+import { createSatelliteTrackerTool } from './satellite-tracker';
+
+// =============================================
+// CHAT TOOLS
+// =============================================
+// Tools /api/chat offers models that take them. They're built per request,
+// since search results are numbered across the whole answer.
+
+export interface ChatToolContext {
+    // Every source the answer's tools found, in citation order
+    sources: SourceList;
+    // Streams a newly found source to the client as it is found
+    onSource: (source: Source, index: number) => void;
+}
+
+export function createChatTools({ sources, onSource }: ChatToolContext): ToolSet {
+    const tools: ToolSet = {
+        orbitalMechanics: createOrbitalMechanicsTool(),
+        satelliteTracker: createSatelliteTrackerTool(getSatelliteCatalog),
+        ephemeris: createEphemerisTool(),
+        math: createMathTool(),
+    };
+
+    const searchProvider = getWebSearchProvider();
+    if (searchProvider) {
+        tools.webSearch = createWebSearchTool(searchProvider, sources, onSource);
+    }
+
+    return tools;
+}
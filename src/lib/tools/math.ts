@@ -0,0 +1,139 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { MathResult, MathToolResult } from '../math-result';
+import {
+    MAX_EXPRESSION_LENGTH,
+    MathError,
+    differentiate,
+    evaluateExpression,
+    integrate,
+    solveEquations,
+    withinTimeLimit,
+} from '../math';
+
+// =============================================
+// INPUT
+// =============================================
+
+const expression = (what: string) => z.string().min(1).max(MAX_EXPRESSION_LENGTH)
+    .describe(`${what}, in mathjs syntax: ^ for powers, log for ln, sqrt, sin, pi, e`);
+
+const variable = z.string().regex(/^[a-zA-Z_]\w*$/).optional().describe('Leave out when the expression has only one variable');
+
+const MathInputSchema = z.discriminatedUnion('calculation', [
+    z.object({
+        calculation: z.literal('evaluate'),
+        expression: expression('Statements separated by ";", e.g. "v = 7.8 km/s; v * 90 minute to km". Units convert with "to"; write minute, not min (a function)'),
+    }).describe('Arithmetic with units, constants, complex numbers and matrices'),
+    z.object({
+        calculation: z.literal('solve'),
+        equations: z.array(expression('An equation, e.g. "x^2 - 5x + 6 = 0"')).min(1).max(10)
+            .describe('One equation, or a linear system of several'),
+        unknowns: z.array(z.string()).optional().describe('Which symbols to solve for; defaults to all of them'),
+        interval: z.tuple([z.number(), z.number()]).optional()
+            .describe('Where to look for roots of an equation with no closed form; defaults to [-100, 100]'),
+    }).describe('Solve equations: polynomials up to cubic exactly, others numerically, and linear systems'),
+    z.object({
+        calculation: z.literal('differentiate'),
+        expression: expression('The function'),
+        variable,
+        order: z.number().int().min(1).max(5).default(1),
+        at: z.string().optional().describe('Evaluate the derivative at this value, e.g. "pi/4"'),
+    }).describe('Symbolic derivative'),
+    z.object({
+        calculation: z.literal('integrate'),
+        expression: expression('The integrand'),
+        variable,
+        lower: z.string().optional().describe('Lower bound for a definite integral, e.g. "0" or "-Infinity"'),
+        upper: z.string().optional().describe('Upper bound'),
+    }).describe('Symbolic antiderivative, and with bounds a definite integral (numeric when there is no antiderivative)'),
+]);
+
+type MathInput = z.infer<typeof MathInputSchema>;
+type InputFor<C extends MathInput['calculation']> = Extract<MathInput, { calculation: C }>;
+
+// =============================================
+// CALCULATIONS
+// =============================================
+
+function evaluate(input: InputFor<'evaluate'>): MathResult {
+    const { problem, steps, result } = evaluateExpression(input.expression);
+    return { title: 'Evaluate', problem, steps, answer: result };
+}
+
+function solve(input: InputFor<'solve'>): MathResult {
+    const { problem, steps, solutions } = solveEquations(input.equations, { unknowns: input.unknowns, interval: input.interval });
+    const unknowns = Object.keys(solutions[0].values);
+    const values = solutions.flatMap(s => Object.values(s.values));
+
+    return {
+        title: `Solve for ${unknowns.join(', ')}`,
+        problem,
+        steps,
+        answer: {
+            latex: solutions.map(s => s.latex).join(',\\quad '),
+            text: solutions.map(s => Object.entries(s.values).map(([name, value]) => `${name} = ${value ?? 'complex'}`).join(', ')).join('; '),
+            value: values.length === 1 ? values[0] : null,
+            unit: null,
+        },
+        notes: values.includes(null) ? ['Some roots are complex; the LaTeX has their values.'] : undefined,
+    };
+}
+
+function derivativeOf(input: InputFor<'differentiate'>): MathResult {
+    const { problem, steps, result, latex, value } = differentiate(input.expression, { variable: input.variable, order: input.order, at: input.at });
+    return {
+        title: input.order === 1 ? 'Derivative' : `Derivative of order ${input.order}`,
+        problem,
+        steps,
+        answer: value ?? { latex, text: result.toString(), value: null, unit: null },
+    };
+}
+
+function integralOf(input: InputFor<'integrate'>): MathResult {
+    if ((input.lower === undefined) !== (input.upper === undefined)) throw new MathError('Give both bounds, or neither');
+    const bounds: [string, string] | undefined = input.lower !== undefined ? [input.lower, input.upper!] : undefined;
+    const { problem, steps, result, latex, value } = integrate(input.expression, { variable: input.variable, bounds });
+
+    return {
+        title: bounds ? 'Definite integral' : 'Antiderivative',
+        problem,
+        steps,
+        answer: value ?? { latex: latex!, text: `${result!.toString()} + C`, value: null, unit: null },
+        notes: bounds && !result ? ['No antiderivative was found, so the integral was computed numerically.'] : undefined,
+    };
+}
+
+export function calculateMath(input: MathInput): MathResult {
+    return withinTimeLimit(() => {
+        switch (input.calculation) {
+            case 'evaluate': return evaluate(input);
+            case 'solve': return solve(input);
+            case 'differentiate': return derivativeOf(input);
+            case 'integrate': return integralOf(input);
+        }
+    });
+}
+
+// =============================================
+// TOOL
+// =============================================
+
+// Exact arithmetic and algebra in a sandboxed evaluator (see ../math), so the
+// numbers and formulas in an answer are computed rather than recalled
+export function createMathTool() {
+    return tool({
+        description: 'Evaluate expressions with units, solve equations and systems, differentiate and integrate, showing the working. ' +
+            'Returns the answer as a number and as LaTeX. Use it for any non-trivial arithmetic or algebra in an answer, ' +
+            'and quote its answer (the LaTeX inside $$...$$) rather than working it out yourself.',
+        inputSchema: MathInputSchema,
+        execute: async (input): Promise<MathToolResult> => {
+            try {
+                return calculateMath(input);
+            } catch (error) {
+                if (error instanceof MathError) return { error: error.message };
+                throw error;
+            }
+        },
+    });
+}
@@ -0,0 +1,379 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { quantity, type Calculation, type CalculationResult } from '../calculation';
+import {
+    BODIES,
+    BODY_IDS,
+    G0,
+    biEllipticTransfer,
+    circularSpeed,
+    elementsToState,
+    ellipticOrbit,
+    escapeSpeed,
+    hohmannTransfer,
+    j2Drift,
+    rocketDeltaV,
+    rocketMassRatio,
+    stateToElements,
+    synodicPeriod,
+    type Body,
+    type BodyId,
+} from '../orbits';
+
+const DEG = Math.PI / 180;
+const SECONDS_PER_DAY = 86400;
+
+// =============================================
+// INPUT
+// =============================================
+
+const body = z.enum(BODY_IDS).default('earth').describe('The body being orbited');
+
+const distanceFrom = z.enum(['surface', 'center']).default('surface')
+    .describe("Whether the distances below are altitudes above the body's equator or radii from its centre");
+
+const angle = (what: string) => z.number().default(0).describe(`${what}, degrees`);
+
+const vector = (what: string) => z.array(z.number()).length(3).describe(`${what} [x, y, z] in the body's inertial equatorial frame`);
+
+const OrbitalMechanicsInputSchema = z.discriminatedUnion('calculation', [
+    z.object({
+        calculation: z.literal('orbit'),
+        body,
+        distance_from: distanceFrom,
+        periapsis_km: z.number(),
+        apoapsis_km: z.number().optional().describe('Leave out for a circular orbit'),
+        inclination_deg: z.number().optional().describe('Adds the J2 drift of the node and periapsis'),
+    }).describe('Period, speeds and energy of an orbit'),
+    z.object({
+        calculation: z.literal('escape_velocity'),
+        body,
+        distance_from: distanceFrom,
+        distance_km: z.number().default(0),
+    }),
+    z.object({
+        calculation: z.literal('hohmann'),
+        body,
+        distance_from: distanceFrom,
+        from_km: z.number(),
+        to_km: z.number(),
+    }).describe('Two-burn transfer between circular coplanar orbits'),
+    z.object({
+        calculation: z.literal('bi_elliptic'),
+        body,
+        distance_from: distanceFrom,
+        from_km: z.number(),
+        to_km: z.number(),
+        intermediate_km: z.number().describe('Apoapsis of the intermediate orbit'),
+    }).describe('Three-burn transfer between circular coplanar orbits'),
+    z.object({
+        calculation: z.literal('elements_to_state'),
+        body,
+        semi_major_axis_km: z.number().describe("From the body's centre; negative for hyperbolic orbits"),
+        eccentricity: z.number().min(0),
+        inclination_deg: angle('Inclination'),
+        raan_deg: angle('Right ascension of the ascending node'),
+        arg_periapsis_deg: angle('Argument of periapsis'),
+        true_anomaly_deg: angle('True anomaly'),
+    }).describe('Keplerian elements to position and velocity'),
+    z.object({
+        calculation: z.literal('state_to_elements'),
+        body,
+        position_km: vector('Position, km,'),
+        velocity_km_s: vector('Velocity, km/s,'),
+    }).describe('Position and velocity to Keplerian elements'),
+    z.object({
+        calculation: z.literal('rocket_equation'),
+        isp_s: z.number().optional().describe('Specific impulse; or give exhaust_velocity_km_s'),
+        exhaust_velocity_km_s: z.number().optional(),
+        initial_mass_kg: z.number().optional(),
+        final_mass_kg: z.number().optional(),
+        delta_v_km_s: z.number().optional(),
+    }).describe('Tsiolkovsky rocket equation: give two of the masses and delta-v, get the third'),
+    z.object({
+        calculation: z.literal('synodic_period'),
+        body1: z.enum(BODY_IDS).optional(),
+        body2: z.enum(BODY_IDS).optional(),
+        period1_days: z.number().optional().describe('Instead of body1, e.g. for a spacecraft'),
+        period2_days: z.number().optional().describe('Instead of body2'),
+    }).describe('Time between repeats of the same alignment, e.g. launch windows'),
+]);
+
+type OrbitalMechanicsInput = z.infer<typeof OrbitalMechanicsInputSchema>;
+type InputFor<C extends OrbitalMechanicsInput['calculation']> = Extract<OrbitalMechanicsInput, { calculation: C }>;
+
+// =============================================
+// CALCULATIONS
+// =============================================
+
+// A distance as given, and as a radius from the body's centre
+function radius(b: Body, km: number, from: 'surface' | 'center'): number {
+    return from === 'surface' ? b.radius + km : km;
+}
+
+function distanceLabel(label: string, from: 'surface' | 'center'): string {
+    return from === 'surface' ? `${label} altitude` : `${label} radius`;
+}
+
+function orbit(input: InputFor<'orbit'>): Calculation {
+    const b = BODIES[input.body];
+    const rp = radius(b, input.periapsis_km, input.distance_from);
+    const ra = radius(b, input.apoapsis_km ?? input.periapsis_km, input.distance_from);
+    if (rp <= b.radius) throw new RangeError(`Periapsis is inside ${b.name}`);
+
+    const o = ellipticOrbit(b.mu, Math.min(rp, ra), Math.max(rp, ra));
+    const circular = o.e === 0;
+
+    const inputs = [quantity(distanceLabel('Periapsis', input.distance_from), input.periapsis_km, 'km')];
+    if (!circular) inputs.push(quantity(distanceLabel('Apoapsis', input.distance_from), input.apoapsis_km!, 'km'));
+
+    const results = [
+        quantity('Semi-major axis', o.a, 'km'),
+        quantity('Eccentricity', o.e),
+        quantity('Period', o.period / 60, 'min'),
+        ...(circular
+            ? [quantity('Orbital speed', o.periapsisSpeed, 'km/s')]
+            : [quantity('Speed at periapsis', o.periapsisSpeed, 'km/s'), quantity('Speed at apoapsis', o.apoapsisSpeed, 'km/s')]),
+        quantity('Specific orbital energy', o.energy, 'km²/s²'),
+    ];
+    const formulas = [String.raw`T = 2\pi\sqrt{a^3/\mu}`, String.raw`v = \sqrt{\mu\left(\frac{2}{r} - \frac{1}{a}\right)}`];
+
+    if (input.inclination_deg !== undefined) {
+        inputs.push(quantity('Inclination', input.inclination_deg, '°'));
+        const drift = j2Drift(b, o.a, o.e, input.inclination_deg * DEG);
+        results.push(
+            quantity('Node drift (J2)', drift.nodeRate / DEG * SECONDS_PER_DAY, '°/day'),
+            quantity('Periapsis drift (J2)', drift.periapsisRate / DEG * SECONDS_PER_DAY, '°/day'),
+        );
+        formulas.push(String.raw`\dot\Omega = -\tfrac{3}{2} n J_2 \left(\frac{R}{p}\right)^2 \cos i`);
+    }
+
+    return { title: `Orbit around ${b.name}`, inputs, results, formulas };
+}
+
+function escapeVelocity(input: InputFor<'escape_velocity'>): Calculation {
+    const b = BODIES[input.body];
+    const r = radius(b, input.distance_km, input.distance_from);
+    return {
+        title: `Escape velocity from ${b.name}`,
+        inputs: [quantity(distanceLabel('Distance', input.distance_from), input.distance_km, 'km')],
+        results: [
+            quantity('Escape velocity', escapeSpeed(b.mu, r), 'km/s'),
+            quantity('Circular orbit speed', circularSpeed(b.mu, r), 'km/s'),
+        ],
+        formulas: [String.raw`v_{esc} = \sqrt{2\mu/r}`],
+    };
+}
+
+function hohmann(input: InputFor<'hohmann'>): Calculation {
+    const b = BODIES[input.body];
+    const t = hohmannTransfer(b.mu, radius(b, input.from_km, input.distance_from), radius(b, input.to_km, input.distance_from));
+    return {
+        title: `Hohmann transfer around ${b.name}`,
+        inputs: [
+            quantity(distanceLabel('Initial', input.distance_from), input.from_km, 'km'),
+            quantity(distanceLabel('Final', input.distance_from), input.to_km, 'km'),
+        ],
+        results: [
+            quantity('First burn', t.burns[0], 'km/s'),
+            quantity('Second burn', t.burns[1], 'km/s'),
+            quantity('Total delta-v', t.totalDeltaV, 'km/s'),
+            quantity('Transfer time', t.transferTime / 3600, 'h'),
+        ],
+        formulas: [
+            String.raw`a_t = \frac{r_1 + r_2}{2}`,
+            String.raw`\Delta v_1 = \sqrt{\frac{\mu}{r_1}}\left(\sqrt{\frac{2 r_2}{r_1 + r_2}} - 1\right)`,
+            String.raw`\Delta v_2 = \sqrt{\frac{\mu}{r_2}}\left(1 - \sqrt{\frac{2 r_1}{r_1 + r_2}}\right)`,
+            String.raw`t = \pi\sqrt{a_t^3/\mu}`,
+        ],
+    };
+}
+
+function biElliptic(input: InputFor<'bi_elliptic'>): Calculation {
+    const b = BODIES[input.body];
+    const [r1, r2, rb] = [input.from_km, input.to_km, input.intermediate_km].map(km => radius(b, km, input.distance_from));
+    const t = biEllipticTransfer(b.mu, r1, r2, rb);
+    const direct = hohmannTransfer(b.mu, r1, r2);
+    return {
+        title: `Bi-elliptic transfer around ${b.name}`,
+        inputs: [
+            quantity(distanceLabel('Initial', input.distance_from), input.from_km, 'km'),
+            quantity(distanceLabel('Final', input.distance_from), input.to_km, 'km'),
+            quantity(distanceLabel('Intermediate apoapsis', input.distance_from), input.intermediate_km, 'km'),
+        ],
+        results: [
+            ...t.burns.map((burn, i) => quantity(`Burn ${i + 1}`, burn, 'km/s')),
+            quantity('Total delta-v', t.totalDeltaV, 'km/s'),
+            quantity('Transfer time', t.transferTime / 3600, 'h'),
+            quantity('Hohmann delta-v, for comparison', direct.totalDeltaV, 'km/s'),
+        ],
+        formulas: [
+            String.raw`a_1 = \frac{r_1 + r_b}{2}, \quad a_2 = \frac{r_2 + r_b}{2}`,
+            String.raw`v = \sqrt{\mu\left(\frac{2}{r} - \frac{1}{a}\right)}`,
+            String.raw`t = \pi\left(\sqrt{a_1^3/\mu} + \sqrt{a_2^3/\mu}\right)`,
+        ],
+    };
+}
+
+function elementsToStateCalculation(input: InputFor<'elements_to_state'>): Calculation {
+    const b = BODIES[input.body];
+    const { r, v } = elementsToState(b.mu, {
+        a: input.semi_major_axis_km,
+        e: input.eccentricity,
+        i: input.inclination_deg * DEG,
+        raan: input.raan_deg * DEG,
+        argp: input.arg_periapsis_deg * DEG,
+        nu: input.true_anomaly_deg * DEG,
+    });
+    return {
+        title: `Keplerian elements to state vector (${b.name})`,
+        inputs: [
+            quantity('Semi-major axis', input.semi_major_axis_km, 'km'),
+            quantity('Eccentricity', input.eccentricity),
+            quantity('Inclination', input.inclination_deg, '°'),
+            quantity('RAAN', input.raan_deg, '°'),
+            quantity('Argument of periapsis', input.arg_periapsis_deg, '°'),
+            quantity('True anomaly', input.true_anomaly_deg, '°'),
+        ],
+        results: [
+            ...r.map((c, k) => quantity(`Position ${'xyz'[k]}`, c, 'km')),
+            ...v.map((c, k) => quantity(`Velocity ${'xyz'[k]}`, c, 'km/s')),
+        ],
+        formulas: [
+            String.raw`p = a(1 - e^2), \quad r = \frac{p}{1 + e\cos\nu}`,
+            String.raw`\mathbf{r} = R_3(-\Omega)\,R_1(-i)\,R_3(-\omega)\,\mathbf{r}_{PQW}`,
+        ],
+    };
+}
+
+function stateToElementsCalculation(input: InputFor<'state_to_elements'>): Calculation {
+    const b = BODIES[input.body];
+    const [rx, ry, rz] = input.position_km;
+    const [vx, vy, vz] = input.velocity_km_s;
+    const el = stateToElements(b.mu, { r: [rx, ry, rz], v: [vx, vy, vz] });
+
+    const notes: string[] = [];
+    if (el.e < 1e-9) notes.push('The orbit is circular, so the true anomaly is measured from the ascending node (argument of latitude).');
+    if (el.i < 1e-9 || Math.PI - el.i < 1e-9) notes.push('The orbit is equatorial, so angles are measured from the x axis instead of the node.');
+
+    return {
+        title: `State vector to Keplerian elements (${b.name})`,
+        inputs: [
+            ...input.position_km.map((c, k) => quantity(`Position ${'xyz'[k]}`, c, 'km')),
+            ...input.velocity_km_s.map((c, k) => quantity(`Velocity ${'xyz'[k]}`, c, 'km/s')),
+        ],
+        results: [
+            quantity('Semi-major axis', el.a, 'km'),
+            quantity('Eccentricity', el.e),
+            quantity('Inclination', el.i / DEG, '°'),
+            quantity('RAAN', el.raan / DEG, '°'),
+            quantity('Argument of periapsis', el.argp / DEG, '°'),
+            quantity('True anomaly', el.nu / DEG, '°'),
+            ...(el.e < 1 ? [quantity('Period', 2 * Math.PI * Math.sqrt(el.a ** 3 / b.mu) / 60, 'min')] : []),
+        ],
+        formulas: [
+            String.raw`\mathbf{h} = \mathbf{r} \times \mathbf{v}`,
+            String.raw`\mathbf{e} = \frac{\mathbf{v} \times \mathbf{h}}{\mu} - \frac{\mathbf{r}}{r}`,
+            String.raw`a = -\frac{\mu}{2\varepsilon}, \quad \varepsilon = \frac{v^2}{2} - \frac{\mu}{r}`,
+        ],
+        notes: notes.length > 0 ? notes : undefined,
+    };
+}
+
+function rocketEquation(input: InputFor<'rocket_equation'>): Calculation {
+    const ve = input.exhaust_velocity_km_s ?? (input.isp_s !== undefined ? input.isp_s * G0 : undefined);
+    if (ve === undefined) throw new RangeError('Give the specific impulse or the exhaust velocity');
+
+    const inputs = [
+        input.isp_s !== undefined && input.exhaust_velocity_km_s === undefined
+            ? quantity('Specific impulse', input.isp_s, 's')
+            : quantity('Exhaust velocity', ve, 'km/s'),
+    ];
+    const results = input.exhaust_velocity_km_s === undefined ? [quantity('Exhaust velocity', ve, 'km/s')] : [];
+    const formulas = [String.raw`\Delta v = v_e \ln\frac{m_0}{m_f}`, String.raw`v_e = I_{sp}\, g_0`];
+
+    const { initial_mass_kg: m0, final_mass_kg: mf, delta_v_km_s: dv } = input;
+    if (m0 !== undefined && mf !== undefined) {
+        inputs.push(quantity('Initial mass', m0, 'kg'), quantity('Final mass', mf, 'kg'));
+        results.push(
+            quantity('Delta-v', rocketDeltaV(ve, m0, mf), 'km/s'),
+            quantity('Propellant mass', m0 - mf, 'kg'),
+            quantity('Mass ratio', m0 / mf),
+        );
+    } else if (dv !== undefined && (m0 !== undefined || mf !== undefined)) {
+        const ratio = rocketMassRatio(ve, dv);
+        inputs.push(quantity('Delta-v', dv, 'km/s'));
+        if (mf !== undefined) {
+            inputs.push(quantity('Final mass', mf, 'kg'));
+            results.push(quantity('Initial mass', mf * ratio, 'kg'), quantity('Propellant mass', mf * (ratio - 1), 'kg'));
+        } else {
+            inputs.push(quantity('Initial mass', m0!, 'kg'));
+            results.push(quantity('Final mass', m0! / ratio, 'kg'), quantity('Propellant mass', m0! * (1 - 1 / ratio), 'kg'));
+        }
+        results.push(quantity('Mass ratio', ratio), quantity('Propellant fraction', 1 - 1 / ratio));
+    } else {
+        throw new RangeError('Give two of initial mass, final mass and delta-v');
+    }
+
+    return { title: 'Tsiolkovsky rocket equation', inputs, results, formulas };
+}
+
+function synodic(input: InputFor<'synodic_period'>): Calculation {
+    const period = (id: BodyId | undefined, days: number | undefined, which: string): [string, number] => {
+        if (days !== undefined) return [`${which} period`, days];
+        const b = id && BODIES[id];
+        if (!b?.orbitalPeriodDays) throw new RangeError(`Give ${which.toLowerCase()} as an orbiting body or a period in days`);
+        return [`${b.name} orbital period`, b.orbitalPeriodDays];
+    };
+    const [label1, t1] = period(input.body1, input.period1_days, 'First');
+    const [label2, t2] = period(input.body2, input.period2_days, 'Second');
+
+    const primaries = [input.body1, input.body2].map(id => (id ? BODIES[id].primary : undefined)).filter(Boolean);
+    if (primaries.length === 2 && primaries[0] !== primaries[1]) {
+        throw new RangeError('Both bodies must orbit the same primary');
+    }
+
+    const days = synodicPeriod(t1, t2);
+    return {
+        title: 'Synodic period',
+        inputs: [quantity(label1, t1, 'days'), quantity(label2, t2, 'days')],
+        results: [quantity('Synodic period', days, 'days'), quantity('Synodic period', days / 365.25, 'years')],
+        formulas: [String.raw`\frac{1}{T_{syn}} = \left|\frac{1}{T_1} - \frac{1}{T_2}\right|`],
+    };
+}
+
+export function calculateOrbitalMechanics(input: OrbitalMechanicsInput): Calculation {
+    switch (input.calculation) {
+        case 'orbit': return orbit(input);
+        case 'escape_velocity': return escapeVelocity(input);
+        case 'hohmann': return hohmann(input);
+        case 'bi_elliptic': return biElliptic(input);
+        case 'elements_to_state': return elementsToStateCalculation(input);
+        case 'state_to_elements': return stateToElementsCalculation(input);
+        case 'rocket_equation': return rocketEquation(input);
+        case 'synodic_period': return synodic(input);
+    }
+}
+
+// =============================================
+// TOOL
+// =============================================
+
+// Deterministic arithmetic for orbital questions, so the numbers in an answer
+// come from the formulas rather than the model's memory
+export function createOrbitalMechanicsTool() {
+    return tool({
+        description: 'Calculate orbital mechanics exactly: orbit period and speeds, escape velocity, Hohmann and ' +
+            'bi-elliptic transfer delta-v, Keplerian elements <-> state vectors, the rocket equation and synodic periods. ' +
+            'Use it for any orbital number in an answer and quote its results rather than working them out yourself.',
+        inputSchema: OrbitalMechanicsInputSchema,
+        execute: async (input): Promise<CalculationResult> => {
+            try {
+                return calculateOrbitalMechanics(input);
+            } catch (error) {
+                if (error instanceof RangeError) return { error: error.message };
+                throw error;
+            }
+        },
+    });
+}
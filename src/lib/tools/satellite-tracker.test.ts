@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSatelliteTrackerTool } from './satellite-tracker';
+import { parseTleCatalog } from '../orbits';
+import type { SatelliteCatalog } from '../orbits/catalog';
+import type { GroundTrackResult } from '../ground-track';
+
+const CATALOG: SatelliteCatalog = {
+    satellites: parseTleCatalog(`ISS (ZARYA)
+1 25544U 98067A   19156.50900463  .00003075  00000-0  59442-4 0  9992
+2 25544  51.6433  59.2583 0008217  16.4489 347.6017 15.51174618173442`),
+    bundled: true,
+};
+
+function track(loadCatalog: () => SatelliteCatalog, satellite: string) {
+    const satelliteTracker = createSatelliteTrackerTool(loadCatalog);
+    const input = { satellite, time: '2019-06-05T13:00:00Z', pass_hours: 24, min_elevation_deg: 10 };
+    return satelliteTracker.execute!(input, { toolCallId: 'call', messages: [] }) as Promise<GroundTrackResult>;
+}
+
+describe('satelliteTracker tool', () => {
+    it('tracks a satellite from the catalog, noting old bundled elements', async () => {
+        const result = await track(() => CATALOG, 'iss');
+
+        if ('error' in result) throw new Error(result.error);
+        expect(result.satellite).toMatchObject({ name: 'ISS (ZARYA)', noradId: 25544, elementAgeDays: 0.03 });
+        expect(result.position.altitude).toBeGreaterThan(400);
+        expect(result.notes).toEqual([expect.stringContaining('Old elements bundled')]);
+    });
+
+    it('lists known satellites for an unknown name', async () => {
+        expect(await track(() => CATALOG, 'hubble')).toEqual({
+            error: 'Unknown satellite "hubble". Tracked satellites include: ISS (ZARYA)',
+        });
+    });
+
+    it('reports a catalog that fails to load as a tool error', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const loadCatalog = () => {
+            throw new Error('ENOENT: no such file or directory');
+        };
+
+        expect(await track(loadCatalog, 'iss')).toEqual({ error: 'The satellite catalog is unavailable right now.' });
+    });
+});
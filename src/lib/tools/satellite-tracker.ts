@@ -0,0 +1,136 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { GroundTrack, GroundTrackResult } from '../ground-track';
+import {
+    PropagationError,
+    SatellitePropagator,
+    elementAge,
+    findSatellite,
+    type Observer,
+    type Tle,
+} from '../orbits';
+import type { SatelliteCatalog } from '../orbits/catalog';
+
+// Points in a ground track: two orbits, from half an orbit before `time`
+const TRACK_POINTS = 240;
+const TRACK_ORBITS = 2;
+const MAX_PASSES = 10;
+// Older elements still propagate, but the position is off by tens of km or more
+const STALE_AFTER_DAYS = 14;
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+const SatelliteTrackerInputSchema = z.object({
+    satellite: z.string().min(1).describe('Satellite name as listed in the catalog (e.g. "ISS") or NORAD catalog number'),
+    time: z.iso.datetime({ offset: true }).optional().describe('When to compute the position; defaults to now'),
+    observer: z.object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+        altitude_m: z.number().default(0),
+    }).optional().describe('A place on the ground, for look angles and visible passes'),
+    pass_hours: z.number().min(1).max(168).default(24).describe('How far ahead to look for passes over the observer'),
+    min_elevation_deg: z.number().min(0).max(90).default(10).describe('Only list passes that climb at least this high'),
+});
+
+type SatelliteTrackerInput = z.infer<typeof SatelliteTrackerInputSchema>;
+
+// `bundled` says the elements are the old sets that ship with the app
+export function trackSatellite(tle: Tle, input: SatelliteTrackerInput, bundled: boolean): GroundTrack {
+    const propagator = new SatellitePropagator(tle);
+    const time = input.time ? new Date(input.time) : new Date();
+    const point = propagator.subSatellitePoint(time);
+    const [vx, vy, vz] = propagator.state(time).v;
+
+    const trackMs = propagator.period * TRACK_ORBITS * 60000;
+    const trackStart = new Date(time.getTime() - trackMs / (2 * TRACK_ORBITS));
+    const track = propagator.groundTrack(trackStart, new Date(trackStart.getTime() + trackMs), trackMs / 1000 / TRACK_POINTS);
+
+    const age = elementAge(tle, time);
+    const notes: string[] = [];
+    if (bundled) {
+        notes.push('Old elements bundled with Atheron rather than current ones, so the position is illustrative.');
+    }
+    if (Math.abs(age) > STALE_AFTER_DAYS) {
+        notes.push(`The elements are ${Math.round(Math.abs(age))} days ${age > 0 ? 'old' : 'ahead of this time'}, so the position may be off by hundreds of km.`);
+    }
+
+    const result: GroundTrack = {
+        satellite: { name: tle.name, noradId: tle.noradId, epoch: tle.epoch, elementAgeDays: round(age, 2) },
+        time: time.toISOString(),
+        position: {
+            latitude: round(point.latitude, 3),
+            longitude: round(point.longitude, 3),
+            altitude: round(point.altitude, 1),
+            speed: round(Math.hypot(vx, vy, vz), 3),
+        },
+        track: track.map(p => [round(p.longitude, 2), round(p.latitude, 2)]),
+        notes: notes.length > 0 ? notes : undefined,
+    };
+
+    if (input.observer) {
+        const observer: Observer = {
+            latitude: input.observer.latitude,
+            longitude: input.observer.longitude,
+            altitude: input.observer.altitude_m / 1000,
+        };
+        const look = propagator.lookAngles(observer, time);
+        const passEnd = new Date(time.getTime() + input.pass_hours * 3600000);
+
+        result.observer = {
+            ...observer,
+            azimuth: round(look.azimuth, 1),
+            elevation: round(look.elevation, 1),
+            range: round(look.range, 1),
+        };
+        result.passes = propagator.passes(observer, time, passEnd, input.min_elevation_deg)
+            .slice(0, MAX_PASSES)
+            .map(pass => ({
+                ...pass,
+                riseAzimuth: pass.riseAzimuth === null ? null : round(pass.riseAzimuth, 1),
+                maxElevation: round(pass.maxElevation, 1),
+                setAzimuth: pass.setAzimuth === null ? null : round(pass.setAzimuth, 1),
+            }));
+    }
+
+    return result;
+}
+
+// SGP4 positions from the satellite catalog (see ../orbits/catalog), so
+// "where is the ISS" has a real answer. The ground track is only drawn for
+// the user; the model gets the position, look angles and passes. The catalog
+// is loaded on first use, so a broken TLE file fails this tool, not the chat.
+export function createSatelliteTrackerTool(loadCatalog: () => SatelliteCatalog) {
+    return tool({
+        description: 'Track a satellite from its two-line elements with SGP4: where it is (sub-satellite point, altitude, speed), ' +
+            'its ground track, and given an observer, where to look and when it passes overhead. ' +
+            'The user sees a map of the ground track. Times are UTC.',
+        inputSchema: SatelliteTrackerInputSchema,
+        execute: async (input): Promise<GroundTrackResult> => {
+            let catalog: SatelliteCatalog;
+            try {
+                catalog = loadCatalog();
+            } catch (error) {
+                console.error('Error loading the satellite catalog:', error);
+                return { error: 'The satellite catalog is unavailable right now.' };
+            }
+
+            const tle = findSatellite(catalog.satellites, input.satellite);
+            if (!tle) {
+                const known = catalog.satellites.slice(0, 20).map(s => s.name).join(', ');
+                return { error: `Unknown satellite "${input.satellite}". Tracked satellites include: ${known}` };
+            }
+
+            try {
+                return trackSatellite(tle, input, catalog.bundled);
+            } catch (error) {
+                if (error instanceof PropagationError) return { error: error.message };
+                throw error;
+            }
+        },
+        toModelOutput: ({ output }) => {
+            if ('error' in output) return { type: 'json', value: output };
+            const { track, ...rest } = output;
+            return { type: 'json', value: { ...rest, trackPoints: track.length } };
+        },
+    });
+}
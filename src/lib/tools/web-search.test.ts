@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWebSearchTool } from './web-search';
+import { SourceList } from '../sources';
+import { FixtureSearchProvider, type SearchFixture, type WebSearchProvider } from '../web-search';
+
+const FIXTURES: SearchFixture[] = [
+    {
+        keywords: ['artemis'],
+        results: [
+            { title: 'Artemis - NASA', url: 'https://www.nasa.gov/artemis/', snippet: 'Returning humans to the Moon.' },
+            { title: 'Broken', url: 'not a url', snippet: 'Dropped: there is nothing to cite.' },
+            { title: 'Artemis II', url: 'https://www.nasa.gov/artemis-ii/', snippet: 'The first crewed flight of Orion.' },
+        ],
+    },
+    {
+        keywords: ['orion'],
+        results: [
+            { title: 'Orion - NASA', url: 'https://www.nasa.gov/orion/', snippet: 'The crew capsule.' },
+            { title: 'Artemis II', url: 'https://www.nasa.gov/artemis-ii/', snippet: 'The first crewed flight of Orion.' },
+        ],
+    },
+];
+
+// execute's declared type also allows streamed output, which this tool never gives
+interface SearchOutput {
+    results: { index: number; title: string; url: string; snippet: string }[];
+    error?: string;
+}
+
+function setup(provider: WebSearchProvider = new FixtureSearchProvider(FIXTURES)) {
+    const sources = new SourceList();
+    const onSource = vi.fn();
+    const webSearch = createWebSearchTool(provider, sources, onSource);
+    const search = (query: string) => webSearch.execute!({ query }, { toolCallId: 'call', messages: [] }) as Promise<SearchOutput>;
+    return { sources, onSource, search };
+}
+
+describe('webSearch tool', () => {
+    it('numbers results for citation and drops ones without a usable URL', async () => {
+        const { search } = setup();
+
+        expect(await search('Artemis program')).toEqual({
+            results: [
+                { index: 1, title: 'Artemis - NASA', url: 'https://www.nasa.gov/artemis/', snippet: 'Returning humans to the Moon.' },
+                { index: 2, title: 'Artemis II', url: 'https://www.nasa.gov/artemis-ii/', snippet: 'The first crewed flight of Orion.' },
+            ],
+        });
+    });
+
+    it('emits each page once and keeps its number across searches', async () => {
+        const { sources, onSource, search } = setup();
+
+        await search('artemis');
+        const { results } = await search('orion capsule');
+
+        expect(results.map(r => [r.index, r.url])).toEqual([
+            [3, 'https://www.nasa.gov/orion/'],
+            [2, 'https://www.nasa.gov/artemis-ii/'],
+        ]);
+        expect(onSource.mock.calls.map(([source, index]) => [index, source.domain, source.title])).toEqual([
+            [1, 'nasa.gov', 'Artemis - NASA'],
+            [2, 'nasa.gov', 'Artemis II'],
+            [3, 'nasa.gov', 'Orion - NASA'],
+        ]);
+        expect(sources.all).toHaveLength(3);
+    });
+
+    it('returns no results when nothing matches', async () => {
+        const { onSource, search } = setup();
+
+        expect(await search('starship')).toEqual({ results: [] });
+        expect(onSource).not.toHaveBeenCalled();
+    });
+
+    it('reports a failing provider to the model instead of throwing', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const { sources, search } = setup({ search: async () => { throw new Error('rate limited'); } });
+
+        const output = await search('artemis');
+
+        expect(output.results).toEqual([]);
+        expect(output.error).toMatch(/unavailable/);
+        expect(sources.all).toEqual([]);
+    });
+});
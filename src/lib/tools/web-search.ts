@@ -0,0 +1,42 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { toSource, type Source, type SourceList } from '../sources';
+import type { WebSearchProvider } from '../web-search';
+
+const MAX_RESULTS = 5;
+
+// Results are numbered across the whole answer, in the order the sources
+// panel lists them, so the model can cite them as [n] directly.
+// onSource is called for each page the answer hasn't cited yet.
+export function createWebSearchTool(
+    provider: WebSearchProvider,
+    sources: SourceList,
+    onSource: (source: Source, index: number) => void
+) {
+    return tool({
+        description: 'Search the web for current information: news, launches, mission status, recent discoveries. ' +
+            'Cite results inline by their index, e.g. [1].',
+        inputSchema: z.object({
+            query: z.string().min(1).max(200).describe('Search terms, as you would type them into a search engine'),
+        }),
+        execute: async ({ query }, { abortSignal }) => {
+            try {
+                const results = await provider.search(query, { limit: MAX_RESULTS, signal: abortSignal });
+
+                return {
+                    results: results.flatMap(result => {
+                        const source = toSource(result.url, result.title, result.snippet);
+                        if (!source) return [];
+
+                        const { index, added } = sources.add(source);
+                        if (added) onSource(source, index);
+                        return [{ index, title: result.title, url: result.url, snippet: result.snippet }];
+                    }),
+                };
+            } catch (error) {
+                console.error('Web search failed:', error);
+                return { results: [], error: 'Search is unavailable right now; answer from what you know and say so.' };
+            }
+        },
+    });
+}
@@ -0,0 +1,31 @@
+import type { Database } from './database.types';
+import type { Source } from './sources';
+import type { ToolCall } from './tool-calls';
+import type { SnippetSegment } from './search';
+
+// Database types, shared by the server and the browser. Rows come from the
+// generated schema types so they can't drift from the migrations.
+type Tables = Database['public']['Tables'];
+type SearchMessagesRow = Database['public']['Functions']['search_messages']['Returns'][number];
+
+export type User = Tables['users']['Row'];
+
+export type ChatSession = Tables['chat_sessions']['Row'];
+
+// `sources` and `tool_calls` are jsonb in the database; the stores validate them
+export type Message = Omit<Tables['messages']['Row'], 'sources' | 'tool_calls'> & {
+    sources: Source[] | null;
+    tool_calls: ToolCall[] | null;
+};
+
+export type UsageRecord = Tables['usage_records']['Row'];
+
+// A public read-only link to a session (see ../share)
+export type SessionShare = Tables['session_shares']['Row'];
+
+// A message matching a search (see ../search): where it is, how well it
+// matched, and an excerpt with the matched terms highlighted
+export type MessageSearchHit = Omit<SearchMessagesRow, 'role' | 'snippet' | 'total_count'> & {
+    role: Message['role'];
+    snippet: SnippetSegment[];
+};
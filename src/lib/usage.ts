@@ -0,0 +1,86 @@
+import type { UsageRecord } from './types';
+import type { UsageTotals, UsageSummary } from './schemas';
+
+// =============================================
+// USAGE AND COST
+// =============================================
+// Every completed /api/chat request is written to the usage ledger with an
+// estimated cost. Prices are USD per million tokens and only an estimate:
+// update the table when providers change their pricing. Models that aren't
+// listed (fake, openai-compatible, ...) are recorded at zero cost.
+
+interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+    'perplexity:sonar': { input: 1, output: 1 },
+    'perplexity:sonar-pro': { input: 3, output: 15 },
+    'perplexity:sonar-reasoning-pro': { input: 2, output: 8 },
+    'groq:llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+    'groq:llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+    'gemini:gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini:gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+// Keep costs to the precision of the cost_usd column
+function roundCost(cost: number): number {
+    return Math.round(cost * 1e6) / 1e6;
+}
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = MODEL_PRICES[model];
+    if (!price) return 0;
+    return roundCost((promptTokens * price.input + completionTokens * price.output) / 1e6);
+}
+
+export function startOfMonth(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function emptyTotals(): UsageTotals {
+    return { requests: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord) {
+    totals.requests += 1;
+    totals.prompt_tokens += record.prompt_tokens;
+    totals.completion_tokens += record.completion_tokens;
+    totals.total_tokens += record.total_tokens;
+    totals.cost_usd = roundCost(totals.cost_usd + Number(record.cost_usd));
+}
+
+// Totals for today, the current month, each day and each model, from the
+// month's ledger rows (records from other months are ignored)
+export function summarizeUsage(records: UsageRecord[], now = new Date()): UsageSummary {
+    const today = now.toISOString().slice(0, 10);
+    const month = today.slice(0, 7);
+
+    const summary: UsageSummary = {
+        today: { date: today, ...emptyTotals() },
+        month: { month, ...emptyTotals() },
+        days: [],
+        models: [],
+    };
+    const days = new Map<string, UsageTotals & { date: string }>();
+    const models = new Map<string, UsageTotals & { model: string }>();
+
+    for (const record of records) {
+        const date = new Date(record.created_at).toISOString().slice(0, 10);
+        if (!date.startsWith(month)) continue;
+
+        addRecord(summary.month, record);
+        if (date === today) addRecord(summary.today, record);
+
+        if (!days.has(date)) days.set(date, { date, ...emptyTotals() });
+        addRecord(days.get(date)!, record);
+
+        if (!models.has(record.model)) models.set(record.model, { model: record.model, ...emptyTotals() });
+        addRecord(models.get(record.model)!, record);
+    }
+
+    summary.days = [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+    summary.models = [...models.values()].sort((a, b) => b.cost_usd - a.cost_usd);
+    return summary;
+}
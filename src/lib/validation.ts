@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import type { z } from 'zod';
+import type { ApiErrorBody } from './schemas';
+
+// =============================================
+// REQUEST VALIDATION
+// =============================================
+// Routes parse their input with a schema from ./schemas. Like the auth
+// helpers, these return either the data or the 400 to send back, so a route
+// can bail out with `if (!body.ok) return body.response`.
+
+export type Validated<T> = { ok: true; data: T } | { ok: false; response: NextResponse };
+
+function badRequest(body: ApiErrorBody): NextResponse {
+    return NextResponse.json(body, { status: 400 });
+}
+
+export function validationError(error: z.ZodError, message = 'Invalid request body'): NextResponse {
+    return badRequest({
+        error: message,
+        issues: error.issues.map(issue => ({
+            path: issue.path.map(String).join('.'),
+            message: issue.message,
+        })),
+    });
+}
+
+// An empty body is treated as {} so schemas with only optional fields accept it
+export async function parseJsonBody<T extends z.ZodType>(req: Request, schema: T): Promise<Validated<z.output<T>>> {
+    const text = await req.text();
+
+    let json: unknown = {};
+    if (text.trim()) {
+        try {
+            json = JSON.parse(text);
+        } catch {
+            return { ok: false, response: badRequest({ error: 'Request body must be valid JSON' }) };
+        }
+    }
+
+    const parsed = schema.safeParse(json);
+    if (!parsed.success) return { ok: false, response: validationError(parsed.error) };
+    return { ok: true, data: parsed.data };
+}
+
+export function parseSearchParams<T extends z.ZodType>(req: Request, schema: T): Validated<z.output<T>> {
+    const params = Object.fromEntries(new URL(req.url).searchParams);
+
+    const parsed = schema.safeParse(params);
+    if (!parsed.success) return { ok: false, response: validationError(parsed.error, 'Invalid query parameters') };
+    return { ok: true, data: parsed.data };
+}
@@ -0,0 +1,33 @@
+import { search, SafeSearchType } from 'duck-duck-scrape';
+import type { WebSearchOptions, WebSearchProvider, WebSearchResult } from './types';
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Titles and snippets come back as HTML fragments (<b> around matched terms, entities)
+function plainText(html: string): string {
+    return html
+        .replace(/<[^>]*>/g, '')
+        .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+            if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? entity;
+            const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// Scrapes DuckDuckGo's HTML results: no API key, but rate limited by
+// DuckDuckGo, so expect the odd failure under load
+export class DuckDuckGoSearchProvider implements WebSearchProvider {
+    async search(query: string, { limit, signal }: WebSearchOptions): Promise<WebSearchResult[]> {
+        signal?.throwIfAborted();
+        const response = await search(query, { safeSearch: SafeSearchType.MODERATE });
+        signal?.throwIfAborted();
+
+        return response.results.slice(0, limit).map(result => ({
+            title: plainText(result.title),
+            url: result.url,
+            snippet: plainText(result.description),
+        }));
+    }
+}
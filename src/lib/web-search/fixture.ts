@@ -0,0 +1,32 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import type { WebSearchOptions, WebSearchProvider, WebSearchResult } from './types';
+import { DEFAULT_SEARCH_FIXTURES } from './fixtures';
+
+export const SearchFixtureSchema = z.object({
+    // Matches a query containing all of these words (any case); an empty list matches anything
+    keywords: z.array(z.string()),
+    results: z.array(z.object({
+        title: z.string(),
+        url: z.url(),
+        snippet: z.string(),
+    })),
+});
+
+export type SearchFixture = z.infer<typeof SearchFixtureSchema>;
+
+export function loadSearchFixtures(path: string): SearchFixture[] {
+    return z.array(SearchFixtureSchema).parse(JSON.parse(readFileSync(path, 'utf8')));
+}
+
+// Canned results for offline development and tests: the first fixture whose
+// keywords all appear in the query wins, so put catch-alls last
+export class FixtureSearchProvider implements WebSearchProvider {
+    constructor(private readonly fixtures: SearchFixture[] = DEFAULT_SEARCH_FIXTURES) { }
+
+    async search(query: string, { limit }: WebSearchOptions): Promise<WebSearchResult[]> {
+        const words = new Set(query.toLowerCase().split(/\W+/).filter(Boolean));
+        const fixture = this.fixtures.find(f => f.keywords.every(keyword => words.has(keyword.toLowerCase())));
+        return (fixture?.results ?? []).slice(0, limit).map(result => ({ ...result }));
+    }
+}
@@ -0,0 +1,46 @@
+import type { SearchFixture } from './fixture';
+
+// Used by the fixture provider unless WEB_SEARCH_FIXTURES points at a JSON
+// file in the same shape
+export const DEFAULT_SEARCH_FIXTURES: SearchFixture[] = [
+    {
+        keywords: ['iss'],
+        results: [
+            {
+                title: 'International Space Station - NASA',
+                url: 'https://www.nasa.gov/international-space-station/',
+                snippet: 'The International Space Station orbits Earth about every 90 minutes at an altitude of roughly 400 km.',
+            },
+            {
+                title: 'ISS facts and figures - NASA',
+                url: 'https://www.nasa.gov/international-space-station/space-station-facts-and-figures/',
+                snippet: 'The station travels at about 28,000 km/h and has been continuously occupied since November 2000.',
+            },
+        ],
+    },
+    {
+        keywords: ['starship'],
+        results: [
+            {
+                title: 'Starship - SpaceX',
+                url: 'https://www.spacex.com/vehicles/starship/',
+                snippet: 'Starship is a fully reusable transportation system designed to carry crew and cargo to Earth orbit, the Moon and Mars.',
+            },
+        ],
+    },
+    {
+        keywords: [],
+        results: [
+            {
+                title: 'NASA',
+                url: 'https://www.nasa.gov/',
+                snippet: 'NASA explores the unknown in air and space, innovates for the benefit of humanity and inspires the world through discovery.',
+            },
+            {
+                title: 'ISRO - Indian Space Research Organisation',
+                url: 'https://www.isro.gov.in/',
+                snippet: 'ISRO is the space agency of India, responsible for its launch vehicles, satellites and planetary missions.',
+            },
+        ],
+    },
+];
@@ -0,0 +1,6 @@
+import 'server-only';
+
+export type { WebSearchProvider, WebSearchResult, WebSearchOptions } from './types';
+export { DuckDuckGoSearchProvider } from './duckduckgo';
+export { FixtureSearchProvider, loadSearchFixtures, type SearchFixture } from './fixture';
+export { getWebSearchProvider } from './provider';
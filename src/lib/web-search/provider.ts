@@ -0,0 +1,33 @@
+import { DuckDuckGoSearchProvider } from './duckduckgo';
+import { FixtureSearchProvider, loadSearchFixtures } from './fixture';
+import type { WebSearchProvider } from './types';
+
+// WEB_SEARCH_PROVIDER picks the backend: "duckduckgo" (default), "fixture"
+// (canned results, optionally from the JSON file at WEB_SEARCH_FIXTURES) or
+// "none" to leave the webSearch tool out.
+function createWebSearchProvider(): WebSearchProvider | null {
+    const backend = process.env.WEB_SEARCH_PROVIDER || 'duckduckgo';
+
+    switch (backend) {
+        case 'duckduckgo':
+            return new DuckDuckGoSearchProvider();
+        case 'fixture': {
+            const path = process.env.WEB_SEARCH_FIXTURES;
+            return new FixtureSearchProvider(path ? loadSearchFixtures(path) : undefined);
+        }
+        case 'none':
+            return null;
+        default:
+            throw new Error(`Unknown WEB_SEARCH_PROVIDER "${backend}"`);
+    }
+}
+
+// One provider per server process (kept on globalThis so dev hot reloads reuse it)
+const globalForSearch = globalThis as unknown as { webSearchProvider?: WebSearchProvider | null };
+
+export function getWebSearchProvider(): WebSearchProvider | null {
+    if (globalForSearch.webSearchProvider === undefined) {
+        globalForSearch.webSearchProvider = createWebSearchProvider();
+    }
+    return globalForSearch.webSearchProvider;
+}
@@ -0,0 +1,24 @@
+// =============================================
+// WEB SEARCH PROVIDER
+// =============================================
+// Backs the webSearch chat tool (see ../tools), so answers can use current
+// data whichever model writes them. Implementations throw on failure; the
+// tool reports the error to the model instead of failing the answer.
+
+export interface WebSearchResult {
+    title: string;
+    url: string;
+    // Excerpt of the page, as plain text
+    snippet: string;
+}
+
+export interface WebSearchOptions {
+    // Most results to return
+    limit: number;
+    signal?: AbortSignal;
+}
+
+export interface WebSearchProvider {
+    // Best match first
+    search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]>;
+}
@@ -0,0 +1,64 @@
+// =============================================
+// MOCK SUPABASE CLIENT
+// =============================================
+// Just enough of the query builder for the store calls route tests make:
+// equality filters, inserts, updates, deletes, and single or many rows back. Tables are
+// plain arrays of rows, so a test sets up its data and checks what was written.
+
+type Row = Record<string, unknown>;
+export type MockTables = Record<string, Row[]>;
+
+export function createMockSupabase(tables: MockTables) {
+    return {
+        from(table: string) {
+            const filters: [string, unknown][] = [];
+            let written: Row[] | null = null;
+            let changes: Row | null = null;
+            let deleting = false;
+            let limit = Infinity;
+
+            const rows = (): Row[] => {
+                const all = tables[table] ??= [];
+                const matching = written ?? all.filter(row => filters.every(([column, value]) => row[column] === value));
+                if (changes) matching.forEach(row => Object.assign(row, changes));
+                if (deleting) tables[table] = all.filter(row => !matching.includes(row));
+                return matching.slice(0, limit);
+            };
+
+            const builder = {
+                select: () => builder,
+                eq: (column: string, value: unknown) => {
+                    filters.push([column, value]);
+                    return builder;
+                },
+                order: () => builder,
+                limit: (count: number) => {
+                    limit = count;
+                    return builder;
+                },
+                insert: (values: Row | Row[]) => {
+                    written = [values].flat().map(row => ({ id: crypto.randomUUID(), ...row }));
+                    (tables[table] ??= []).push(...written);
+                    return builder;
+                },
+                update: (values: Row) => {
+                    changes = values;
+                    return builder;
+                },
+                delete: () => {
+                    deleting = true;
+                    return builder;
+                },
+                maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+                single: async () => {
+                    const found = rows();
+                    return found.length === 1
+                        ? { data: found[0], error: null }
+                        : { data: null, error: { message: `Expected one row, got ${found.length}` } };
+                },
+                then: <T>(resolve: (result: { data: Row[]; error: null }) => T) => resolve({ data: rows(), error: null }),
+            };
+            return builder;
+        },
+    };
+}
@@ -0,0 +1,41 @@
+-- Users, chat sessions and messages.
+-- All access goes through the Next.js API with the service-role key, which
+-- bypasses RLS. RLS is enabled with no policies so the anon key can't read
+-- or write anything directly.
+
+create extension if not exists "pgcrypto";
+
+create table users (
+    id uuid primary key default gen_random_uuid(),
+    clerk_id text not null unique,
+    email text,
+    name text,
+    avatar_url text,
+    created_at timestamptz not null default now()
+);
+
+create table chat_sessions (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references users (id) on delete cascade,
+    title text not null default 'New Chat',
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index chat_sessions_user_id_updated_at_idx on chat_sessions (user_id, updated_at desc);
+
+create table messages (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references chat_sessions (id) on delete cascade,
+    role text not null check (role in ('user', 'assistant')),
+    content text not null,
+    -- Structured citations, in citation order (see src/lib/sources.ts)
+    sources jsonb,
+    created_at timestamptz not null default now()
+);
+
+create index messages_session_id_created_at_idx on messages (session_id, created_at);
+
+alter table users enable row level security;
+alter table chat_sessions enable row level security;
+alter table messages enable row level security;
@@ -0,0 +1,19 @@
+-- Conversations are trees: every message points at the message it follows.
+-- Siblings (same parent) are alternate branches, e.g. a regenerated answer or
+-- an edited question. A null parent_id marks the first message of a session.
+
+alter table messages
+    add column parent_id uuid references messages (id) on delete cascade;
+
+create index messages_parent_id_idx on messages (parent_id);
+
+-- Existing conversations are linear: chain each message to the one before it
+with ordered as (
+    select id, lag(id) over (partition by session_id order by created_at, id) as previous_id
+    from messages
+)
+update messages
+set parent_id = ordered.previous_id
+from ordered
+where messages.id = ordered.id
+  and ordered.previous_id is not null;
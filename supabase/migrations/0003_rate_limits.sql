@@ -0,0 +1,35 @@
+-- Fixed-window counters for rate limits and token quotas (see src/lib/rate-limit).
+-- A key names what is being counted, e.g. "chat:user:<id>" or "tokens:user:<id>",
+-- and each window gets its own row.
+
+create table rate_limit_counters (
+    key text not null,
+    window_start timestamptz not null,
+    count bigint not null default 0,
+    expires_at timestamptz not null,
+    primary key (key, window_start)
+);
+
+create index rate_limit_counters_expires_at_idx on rate_limit_counters (expires_at);
+
+-- Only the server (service role) touches counters
+alter table rate_limit_counters enable row level security;
+
+-- Adds to a window's counter in one statement, so concurrent requests can't
+-- lose updates, and returns the new total. Expired windows are cleared as it goes.
+create or replace function increment_rate_limit(
+    counter_key text,
+    counter_window_start timestamptz,
+    counter_expires_at timestamptz,
+    amount bigint
+)
+returns bigint
+language sql
+as $$
+    delete from rate_limit_counters where expires_at < now();
+
+    insert into rate_limit_counters as c (key, window_start, count, expires_at)
+    values (counter_key, counter_window_start, amount, counter_expires_at)
+    on conflict (key, window_start) do update set count = c.count + excluded.count
+    returning c.count;
+$$;
@@ -0,0 +1,22 @@
+-- One row per completed /api/chat request: who asked, in which session, with
+-- which model, what it cost and how it ended. Rows outlive their chat session
+-- (session_id is cleared) so usage totals don't change when chats are deleted.
+
+create table usage_records (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references users (id) on delete cascade,
+    session_id uuid references chat_sessions (id) on delete set null,
+    model text not null,
+    prompt_tokens integer not null default 0,
+    completion_tokens integer not null default 0,
+    total_tokens integer not null default 0,
+    latency_ms integer not null,
+    -- Estimated from the price table in src/lib/usage.ts at the time of the request
+    cost_usd numeric(12, 6) not null default 0,
+    finish_reason text,
+    created_at timestamptz not null default now()
+);
+
+create index usage_records_user_id_created_at_idx on usage_records (user_id, created_at);
+
+alter table usage_records enable row level security;
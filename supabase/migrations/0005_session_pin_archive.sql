@@ -0,0 +1,6 @@
+-- Pinned sessions are listed first in the sidebar; archived ones are hidden
+-- from the main list but kept, with their messages, until deleted.
+
+alter table chat_sessions
+    add column pinned boolean not null default false,
+    add column archived boolean not null default false;
@@ -0,0 +1,70 @@
+-- Full-text search over message bodies for GET /api/search. The index is on
+-- the same expression search_messages() matches against, so no extra column
+-- is stored or returned with messages.
+
+create index messages_content_search_idx on messages using gin (to_tsvector('english', content));
+
+-- One page of a user's matching messages, best match first, with a highlighted
+-- snippet. Matched terms are wrapped in chr(2) ... chr(3) (see src/lib/search.ts),
+-- and total_count is the number of matches across all pages.
+create or replace function search_messages(
+    search_user_id uuid,
+    search_query text,
+    result_limit integer,
+    result_offset integer
+)
+returns table (
+    message_id uuid,
+    session_id uuid,
+    session_title text,
+    role text,
+    created_at timestamptz,
+    rank real,
+    snippet text,
+    total_count bigint
+)
+language sql
+stable
+as $$
+    with query as (
+        select websearch_to_tsquery('english', search_query) as q
+    ),
+    matches as (
+        select
+            m.id,
+            m.session_id,
+            s.title,
+            m.role,
+            m.content,
+            m.created_at,
+            ts_rank(to_tsvector('english', m.content), query.q) as rank,
+            count(*) over () as total_count
+        from messages m
+        join chat_sessions s on s.id = m.session_id
+        cross join query
+        where s.user_id = search_user_id
+            and to_tsvector('english', m.content) @@ query.q
+        order by rank desc, m.created_at desc
+        limit result_limit
+        offset result_offset
+    )
+    -- Headlines are only built for the page being returned
+    select
+        matches.id,
+        matches.session_id,
+        matches.title,
+        matches.role,
+        matches.created_at,
+        matches.rank,
+        ts_headline(
+            'english',
+            matches.content,
+            query.q,
+            'StartSel=' || chr(2) || ', StopSel=' || chr(3)
+                || ', MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" ... "'
+        ),
+        matches.total_count
+    from matches
+    cross join query
+    order by matches.rank desc, matches.created_at desc;
+$$;
@@ -0,0 +1,12 @@
+-- Keyset pagination (see src/lib/pagination.ts). The indexes match the list
+-- orders so each page is a single index range scan.
+
+-- Session list: one user's active or archived chats, pinned first, then most recently updated
+drop index if exists chat_sessions_user_id_updated_at_idx;
+create index chat_sessions_user_id_list_idx
+    on chat_sessions (user_id, archived, pinned desc, updated_at desc, id desc);
+
+-- Message history: a session's messages from the newest backwards
+drop index if exists messages_session_id_created_at_idx;
+create index messages_session_id_created_at_id_idx
+    on messages (session_id, created_at desc, id desc);
@@ -0,0 +1,15 @@
+-- Public read-only links to a conversation, served at /share/[token]. A
+-- session has at most one link. It shows the branch ending at message_id, so
+-- messages added after sharing stay private. Revoking deletes the row.
+
+create table session_shares (
+    session_id uuid primary key references chat_sessions (id) on delete cascade,
+    -- Unguessable; the only thing a visitor needs
+    token text not null unique,
+    message_id uuid not null references messages (id) on delete cascade,
+    created_at timestamptz not null default now(),
+    -- Never expires when null
+    expires_at timestamptz
+);
+
+alter table session_shares enable row level security;
@@ -0,0 +1,6 @@
+-- Tool calls an answer made (calculations, searches, ...) with their inputs
+-- and results, in call order, so the UI can show them again when a session
+-- is reopened. Null for user messages and answers that used no tools.
+
+alter table messages
+    add column tool_calls jsonb;
@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            '@': fileURLToPath(new URL('./src', import.meta.url)),
+            // The marker package throws outside a React Server Components build
+            'server-only': fileURLToPath(new URL('./node_modules/server-only/empty.js', import.meta.url)),
+        },
+    },
+    test: {
+        environment: 'node',
+        include: ['src/**/*.test.ts'],
+    },
+});